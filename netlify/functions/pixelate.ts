@@ -0,0 +1,17 @@
+/**
+ * POST /api/pixelate (redirected from netlify.toml)
+ * Keeps the Gemini API key on the server and applies per-IP rate limits.
+ */
+
+import { createPixelateHandlerFromEnv } from '../lib/pixelateHandler';
+
+interface NetlifyContext {
+  ip?: string;
+}
+
+const handle = createPixelateHandlerFromEnv(process.env);
+
+export default async (request: Request, context: NetlifyContext): Promise<Response> => {
+  const clientIp = context.ip ?? request.headers.get('x-nf-client-connection-ip') ?? 'unknown';
+  return handle(request, clientIp);
+};
@@ -0,0 +1,17 @@
+/**
+ * POST /api/sign-card (redirected from netlify.toml)
+ * Signs a saved card with the server-held key and stores the token on it.
+ */
+
+import { createCardTokenHandlersFromEnv } from '../lib/cardTokenHandler';
+
+interface NetlifyContext {
+  ip?: string;
+}
+
+const handle = createCardTokenHandlersFromEnv(process.env).sign;
+
+export default async (request: Request, context: NetlifyContext): Promise<Response> => {
+  const clientIp = context.ip ?? request.headers.get('x-nf-client-connection-ip') ?? 'unknown';
+  return handle(request, clientIp);
+};
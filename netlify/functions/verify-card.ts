@@ -0,0 +1,17 @@
+/**
+ * POST /api/verify-card (redirected from netlify.toml)
+ * Checks a card token's signature with the server-held key.
+ */
+
+import { createCardTokenHandlersFromEnv } from '../lib/cardTokenHandler';
+
+interface NetlifyContext {
+  ip?: string;
+}
+
+const handle = createCardTokenHandlersFromEnv(process.env).verify;
+
+export default async (request: Request, context: NetlifyContext): Promise<Response> => {
+  const clientIp = context.ip ?? request.headers.get('x-nf-client-connection-ip') ?? 'unknown';
+  return handle(request, clientIp);
+};
@@ -0,0 +1,230 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  createSignCardHandler,
+  createVerifyCardHandler,
+  hashCardImage,
+  signCardToken,
+  verifyCardTokenSignature,
+} from '../cardTokenHandler';
+import type { CardTokenStore, SignableCard } from '../cardTokenHandler';
+import { SlidingWindowRateLimiter } from '../rateLimiter';
+import { decodeCardToken, fromBase64Url, toBase64Url } from '../../../src/lib/cardToken';
+import type { CardTokenPayload } from '../../../src/lib/cardToken';
+import { ERROR_CODES } from '../../../src/lib/typeUtils';
+
+const SECRET = 'test-signing-secret-of-at-least-32-chars';
+const CARD_ID = '3f2b8a1c-9d4e-4f6a-8b2c-1d2e3f4a5b6c';
+const CLIENT_IP = '203.0.113.7';
+const IMAGE = new TextEncoder().encode('not really a png');
+
+const card = (overrides: Partial<SignableCard> = {}): SignableCard => ({
+  id: CARD_ID,
+  userName: 'Zoë Ångström',
+  createdAt: new Date('2026-05-01T12:30:00.250Z'),
+  imageUrl: 'https://storage.example/cards/zoe.png',
+  revokedAt: null,
+  expiryDate: null,
+  ...overrides,
+});
+
+/**
+ * Store backed by a Map that remembers saved tokens
+ */
+const memoryStore = (cards: SignableCard[]) => {
+  const byId = new Map(cards.map(stored => [stored.id, stored]));
+  const tokens = new Map<string, string>();
+  const store: CardTokenStore = {
+    getCard: async id => byId.get(id) ?? null,
+    saveToken: async (id, token) => {
+      tokens.set(id, token);
+    },
+  };
+  return { store, tokens };
+};
+
+const setup = (cards: SignableCard[] = [card()], { secret = SECRET as string | null, maxRequests = 5 } = {}) => {
+  const clock = { now: 1_000_000 };
+  const { store, tokens } = memoryStore(cards);
+  const fetched: string[] = [];
+  const handler = createSignCardHandler({
+    secret,
+    store,
+    rateLimiter: new SlidingWindowRateLimiter(maxRequests, 60_000, () => clock.now),
+    fetchImage: async url => {
+      fetched.push(url);
+      return IMAGE;
+    },
+    ttlDays: 30,
+  });
+  return { handler, tokens, fetched, clock };
+};
+
+const post = (path: string, body: unknown) =>
+  new Request(`https://cards.example${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+const signRequest = (cardId: string) => post('/api/sign-card', { cardId });
+
+const payload: CardTokenPayload = {
+  cardId: CARD_ID,
+  name: 'Zoë Ångström',
+  issuedAt: new Date('2026-05-01T12:30:00Z'),
+  expiresAt: new Date('2027-05-01T12:30:00Z'),
+  imageHash: hashCardImage(IMAGE),
+};
+
+/**
+ * Flip one bit of the token byte at index (negative counts from the end)
+ */
+const flipByte = (token: string, index: number) => {
+  const bytes = fromBase64Url(token)!;
+  bytes[index < 0 ? bytes.length + index : index] ^= 0x01;
+  return toBase64Url(bytes);
+};
+
+describe('signCardToken / verifyCardTokenSignature', () => {
+  it('verifies a token signed with the same secret', () => {
+    const decoded = decodeCardToken(signCardToken(payload, SECRET))!;
+
+    expect(decoded.payload).toEqual(payload);
+    expect(verifyCardTokenSignature(decoded, SECRET)).toBe(true);
+    expect(verifyCardTokenSignature(decoded, `${SECRET}!`)).toBe(false);
+  });
+
+  it('rejects a token with one flipped byte in the payload or the signature', () => {
+    const token = signCardToken(payload, SECRET);
+
+    for (const index of [1, 20, 30, -17, -1]) {
+      const decoded = decodeCardToken(flipByte(token, index));
+      expect(decoded).not.toBeNull();
+      expect(verifyCardTokenSignature(decoded!, SECRET)).toBe(false);
+    }
+  });
+
+  it('hashes images to a stable truncated digest', () => {
+    expect(hashCardImage(IMAGE)).toBe(hashCardImage(new TextEncoder().encode('not really a png')));
+    expect(hashCardImage(IMAGE)).not.toBe(hashCardImage(new TextEncoder().encode('not really a png!')));
+    expect(fromBase64Url(hashCardImage(IMAGE))).toHaveLength(16);
+  });
+});
+
+describe('createSignCardHandler', () => {
+  it('signs the stored card and saves the token on it', async () => {
+    const { handler, tokens, fetched } = setup();
+    const response = await handler(signRequest(CARD_ID), CLIENT_IP);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(tokens.get(CARD_ID)).toBe(body.token);
+    expect(fetched).toEqual([card().imageUrl]);
+
+    const decoded = decodeCardToken(body.token)!;
+    expect(verifyCardTokenSignature(decoded, SECRET)).toBe(true);
+    expect(decoded.payload).toEqual({
+      cardId: CARD_ID,
+      name: 'Zoë Ångström',
+      issuedAt: new Date('2026-05-01T12:30:00Z'),
+      expiresAt: new Date('2026-05-31T12:30:00Z'),
+      imageHash: hashCardImage(IMAGE),
+    });
+    expect(body.expiresAt).toBe('2026-05-31T12:30:00.000Z');
+  });
+
+  it('lets a card with an expiry date stay valid through that day', async () => {
+    const { handler } = setup([card({ expiryDate: '2027-03-31' })]);
+    const body = await (await handler(signRequest(CARD_ID), CLIENT_IP)).json();
+
+    expect(body.expiresAt).toBe('2027-04-01T00:00:00.000Z');
+  });
+
+  it('refuses to sign a revoked card with 409', async () => {
+    const { handler, tokens, fetched } = setup([card({ revokedAt: new Date('2026-06-01T00:00:00Z') })]);
+    const response = await handler(signRequest(CARD_ID), CLIENT_IP);
+
+    expect(response.status).toBe(409);
+    expect(tokens.size).toBe(0);
+    expect(fetched).toEqual([]);
+  });
+
+  it('answers 404 for an unknown card and 400 for an invalid card ID', async () => {
+    const { handler } = setup();
+
+    const missing = await handler(signRequest('00000000-0000-4000-8000-000000000000'), CLIENT_IP);
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).error.code).toBe(ERROR_CODES.NOT_FOUND);
+
+    expect((await handler(signRequest('not-a-uuid'), CLIENT_IP)).status).toBe(400);
+    expect((await handler(post('/api/sign-card', {}), CLIENT_IP)).status).toBe(400);
+  });
+
+  it('answers 500 without saving when the image cannot be fetched', async () => {
+    const { store, tokens } = memoryStore([card()]);
+    const handler = createSignCardHandler({
+      secret: SECRET,
+      store,
+      rateLimiter: new SlidingWindowRateLimiter(5, 60_000),
+      fetchImage: async () => {
+        throw new Error('Image request failed with status 404');
+      },
+    });
+
+    expect((await handler(signRequest(CARD_ID), CLIENT_IP)).status).toBe(500);
+    expect(tokens.size).toBe(0);
+  });
+
+  it('rejects methods other than POST with 405', async () => {
+    const { handler } = setup();
+    const response = await handler(new Request('https://cards.example/api/sign-card'), CLIENT_IP);
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('POST');
+  });
+
+  it('answers 503 when signing is not configured', async () => {
+    const { handler } = setup([card()], { secret: null });
+
+    const response = await handler(signRequest(CARD_ID), CLIENT_IP);
+
+    expect(response.status).toBe(503);
+    expect((await response.json()).error.code).toBe(ERROR_CODES.SERVICE_UNAVAILABLE);
+  });
+
+  it('rate-limits per client IP with Retry-After', async () => {
+    const { handler, clock } = setup([card()], { maxRequests: 1 });
+
+    expect((await handler(signRequest(CARD_ID), CLIENT_IP)).status).toBe(200);
+    clock.now += 15_000;
+    const limited = await handler(signRequest(CARD_ID), CLIENT_IP);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('45');
+  });
+});
+
+describe('createVerifyCardHandler', () => {
+  const verifier = (secret: string | null = SECRET) =>
+    createVerifyCardHandler({ secret, rateLimiter: new SlidingWindowRateLimiter(10, 60_000) });
+  const verifyRequest = (token: string) => post('/api/verify-card', { token });
+
+  it('reports whether the signature is genuine', async () => {
+    const token = signCardToken(payload, SECRET);
+
+    expect(await (await verifier()(verifyRequest(token), CLIENT_IP)).json()).toEqual({ signatureValid: true });
+    expect(await (await verifier()(verifyRequest(flipByte(token, -1)), CLIENT_IP)).json()).toEqual({ signatureValid: false });
+  });
+
+  it('rejects malformed tokens with 400', async () => {
+    expect((await verifier()(verifyRequest('%%%'), CLIENT_IP)).status).toBe(400);
+    expect((await verifier()(verifyRequest(flipByte(signCardToken(payload, SECRET), 0)), CLIENT_IP)).status).toBe(400);
+  });
+
+  it('answers 503 when verification is not configured', async () => {
+    const response = await verifier(null)(verifyRequest('abc'), CLIENT_IP);
+
+    expect(response.status).toBe(503);
+    expect((await response.json()).error.code).toBe(ERROR_CODES.SERVICE_UNAVAILABLE);
+  });
+});
@@ -0,0 +1,155 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createPixelateHandler, defaultPixelateRateLimit, DEFAULT_PIXELATE_LIMITS } from '../pixelateHandler';
+import type { PixelateLimits } from '../pixelateHandler';
+import { StubPixelateModel } from '../pixelateModels';
+import type { PixelateModel } from '../pixelateModels';
+import { SlidingWindowRateLimiter } from '../rateLimiter';
+import { getControlPromptVersion } from '../../../src/lib/promptRegistry';
+import { ERROR_CODES } from '../../../src/lib/typeUtils';
+
+const URL_PATH = '/api/pixelate';
+const CLIENT_IP = '203.0.113.7';
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+interface Setup {
+  model?: PixelateModel | null;
+  maxRequests?: number;
+  limits?: PixelateLimits;
+}
+
+/**
+ * Handler with a stub model and a rate limiter on a clock the test controls
+ */
+const setup = ({ model = new StubPixelateModel(), maxRequests = 5, limits }: Setup = {}) => {
+  const clock = { now: 1_000_000 };
+  const rateLimiter = new SlidingWindowRateLimiter(maxRequests, 60_000, () => clock.now);
+  const handler = createPixelateHandler({ model, rateLimiter, limits });
+  return { handler, clock };
+};
+
+const post = (body: unknown, headers: Record<string, string> = {}) =>
+  new Request(`https://cards.example${URL_PATH}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+describe('createPixelateHandler', () => {
+  it('round-trips an image through the stub model', async () => {
+    const { handler } = setup();
+    const response = await handler(post({ image: IMAGE, presetId: 'gameboy' }), CLIENT_IP);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('4');
+    expect(await response.json()).toEqual({
+      image: IMAGE,
+      modelId: 'stub',
+      promptVersion: getControlPromptVersion('gameboy').version,
+    });
+  });
+
+  it('accepts an explicit prompt version of the same preset', async () => {
+    const { handler } = setup();
+    const version = getControlPromptVersion('nes-8bit').version;
+    const response = await handler(post({ image: IMAGE, presetId: 'nes-8bit', promptVersion: version }), CLIENT_IP);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).promptVersion).toBe(version);
+  });
+
+  it('rejects methods other than POST with 405', async () => {
+    const { handler } = setup();
+    const response = await handler(new Request(`https://cards.example${URL_PATH}`), CLIENT_IP);
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('POST');
+    expect((await response.json()).error.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+  });
+
+  it('answers 503 when no model is configured', async () => {
+    const { handler } = setup({ model: null });
+    const response = await handler(post({ image: IMAGE, presetId: 'gameboy' }), CLIENT_IP);
+
+    expect(response.status).toBe(503);
+    expect((await response.json()).error.code).toBe(ERROR_CODES.SERVICE_UNAVAILABLE);
+  });
+
+  it('rate-limits per client IP with Retry-After until the window slides', async () => {
+    const { handler, clock } = setup({ maxRequests: 2 });
+    const request = () => post({ image: IMAGE, presetId: 'gameboy' });
+
+    expect((await handler(request(), CLIENT_IP)).status).toBe(200);
+    clock.now += 20_000;
+    expect((await handler(request(), CLIENT_IP)).status).toBe(200);
+
+    const limited = await handler(request(), CLIENT_IP);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('40');
+    expect((await limited.json()).error.code).toBe(ERROR_CODES.RATE_LIMITED);
+
+    // Other clients keep their own window
+    expect((await handler(request(), '198.51.100.1')).status).toBe(200);
+
+    clock.now += 40_001;
+    expect((await handler(request(), CLIENT_IP)).status).toBe(200);
+  });
+
+  it('rejects a declared body over the limit with 413', async () => {
+    const { handler } = setup({ limits: { ...DEFAULT_PIXELATE_LIMITS, maxBodyBytes: 64 } });
+    const response = await handler(post({ image: IMAGE, presetId: 'gameboy' }, { 'Content-Length': '65' }), CLIENT_IP);
+
+    expect(response.status).toBe(413);
+  });
+
+  it('rejects an actual body over the limit with 413', async () => {
+    const { handler } = setup({ limits: { ...DEFAULT_PIXELATE_LIMITS, maxBodyBytes: 64 } });
+    const response = await handler(post({ image: `data:image/png;base64,${'A'.repeat(100)}`, presetId: 'gameboy' }), CLIENT_IP);
+
+    expect(response.status).toBe(413);
+  });
+
+  it('rejects a decoded image over the limit with 413', async () => {
+    const { handler } = setup({ limits: { ...DEFAULT_PIXELATE_LIMITS, maxImageBytes: 30 } });
+    const response = await handler(post({ image: `data:image/png;base64,${'A'.repeat(44)}`, presetId: 'gameboy' }), CLIENT_IP);
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+  });
+
+  it('rejects bodies that are not JSON or have the wrong shape with 400', async () => {
+    const { handler } = setup();
+
+    expect((await handler(post('{not json'), CLIENT_IP)).status).toBe(400);
+    expect((await handler(post({ image: IMAGE }), CLIENT_IP)).status).toBe(400);
+    expect((await handler(post({ image: 'data:image/gif;base64,R0lG', presetId: 'gameboy' }), CLIENT_IP)).status).toBe(400);
+  });
+
+  it('rejects an unknown style preset with 400', async () => {
+    const { handler } = setup();
+    const response = await handler(post({ image: IMAGE, presetId: 'vaporwave' }), CLIENT_IP);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toContain('vaporwave');
+  });
+
+  it('rejects an unknown prompt version, or one from another preset, with 400', async () => {
+    const { handler } = setup();
+    const unknown = await handler(post({ image: IMAGE, presetId: 'gameboy', promptVersion: 'gameboy@999' }), CLIENT_IP);
+    const otherPreset = await handler(
+      post({ image: IMAGE, presetId: 'gameboy', promptVersion: getControlPromptVersion('monochrome').version }),
+      CLIENT_IP
+    );
+
+    expect(unknown.status).toBe(400);
+    expect((await unknown.json()).error.message).toContain('gameboy@999');
+    expect(otherPreset.status).toBe(400);
+  });
+});
+
+describe('defaultPixelateRateLimit', () => {
+  it('allows a few captures of full candidate fan-out per window', () => {
+    expect(defaultPixelateRateLimit({})).toBe(27);
+    expect(defaultPixelateRateLimit({ VITE_CANDIDATE_COUNT: '4', VITE_QUALITY_RETRIES: '0' })).toBe(12);
+  });
+});
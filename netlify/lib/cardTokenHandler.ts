@@ -0,0 +1,256 @@
+/**
+ * Request handling for the card signing and verification endpoints
+ * The HMAC key never leaves the server: signing reads the card from the
+ * database itself, so callers can only get tokens for cards as they are
+ * stored, and verification only answers whether a signature is genuine.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import {
+  decodeCardToken,
+  encodeCardToken,
+  encodeCardTokenPayload,
+  toBase64Url,
+  CARD_IMAGE_HASH_BYTES,
+  CARD_SIGNATURE_BYTES,
+  CARD_TOKEN_TTL_DAYS,
+} from '../../src/lib/cardToken';
+import type { CardTokenPayload, DecodedCardToken } from '../../src/lib/cardToken';
+import type {
+  SignCardRequestBody,
+  SignCardResponseBody,
+  VerifyCardRequestBody,
+  VerifyCardResponseBody,
+} from '../../src/lib/cardTokenApi';
+import { ERROR_CODES } from '../../src/lib/typeUtils';
+import { SlidingWindowRateLimiter } from './rateLimiter';
+import { errorResponse, jsonResponse, readJsonBody } from './responses';
+import { createSupabaseCardStore } from './supabaseCardStore';
+
+export interface SignableCard {
+  id: string;
+  userName: string;
+  createdAt: Date;
+  imageUrl: string;
+  revokedAt: Date | null;
+  expiryDate: string | null; // YYYY-MM-DD printed on the card
+}
+
+export interface CardTokenStore {
+  getCard(id: string): Promise<SignableCard | null>;
+  saveToken(id: string, token: string): Promise<void>;
+}
+
+export interface CardTokenHandlerDependencies {
+  secret: string | null; // Null when signing isn't configured
+  store: CardTokenStore | null;
+  rateLimiter: SlidingWindowRateLimiter;
+  fetchImage?: (url: string, signal: AbortSignal) => Promise<Uint8Array>;
+  ttlDays?: number;
+}
+
+// Shorter keys make the HMAC guessable; such configurations are refused
+export const MIN_SIGNING_SECRET_LENGTH = 32;
+
+const MAX_BODY_BYTES = 4 * 1024;
+const IMAGE_FETCH_TIMEOUT_MS = 10_000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+const fetchImageBytes = async (url: string, signal: AbortSignal): Promise<Uint8Array> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Image request failed with status ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Truncated SHA-256 of an image file, as stored in tokens
+ */
+export function hashCardImage(bytes: Uint8Array): string {
+  return toBase64Url(createHash('sha256').update(bytes).digest().subarray(0, CARD_IMAGE_HASH_BYTES));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cards with an expiry date stay valid through that day (UTC); others for ttlDays after issue
+ */
+const tokenExpiry = (card: SignableCard, issuedAt: Date, ttlDays: number): Date => {
+  if (card.expiryDate) {
+    return new Date(Date.parse(`${card.expiryDate}T00:00:00Z`) + DAY_MS);
+  }
+  return new Date(issuedAt.getTime() + ttlDays * DAY_MS);
+};
+
+const sign = (bytes: Uint8Array, secret: string): Uint8Array => {
+  return createHmac('sha256', secret).update(bytes).digest().subarray(0, CARD_SIGNATURE_BYTES);
+};
+
+export function signCardToken(payload: CardTokenPayload, secret: string): string {
+  const signedBytes = encodeCardTokenPayload(payload);
+  return encodeCardToken(signedBytes, sign(signedBytes, secret));
+}
+
+export function verifyCardTokenSignature(decoded: DecodedCardToken, secret: string): boolean {
+  const expected = sign(decoded.signedBytes, secret);
+  return decoded.signature.length === expected.length && timingSafeEqual(decoded.signature, expected);
+}
+
+const isSignCardRequestBody = (value: any): value is SignCardRequestBody => {
+  return value && typeof value === 'object' && typeof value.cardId === 'string';
+};
+
+const isVerifyCardRequestBody = (value: any): value is VerifyCardRequestBody => {
+  return value && typeof value === 'object' && typeof value.token === 'string';
+};
+
+/**
+ * Build the sign handler; clientIp is supplied by the platform adapter
+ */
+export function createSignCardHandler({
+  secret,
+  store,
+  rateLimiter,
+  fetchImage = fetchImageBytes,
+  ttlDays = CARD_TOKEN_TTL_DAYS,
+}: CardTokenHandlerDependencies) {
+  return async (request: Request, clientIp: string): Promise<Response> => {
+    const path = new URL(request.url).pathname;
+
+    if (request.method !== 'POST') {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Only POST is supported', path, { Allow: 'POST' }, 405);
+    }
+    if (!secret || !store) {
+      return errorResponse(ERROR_CODES.SERVICE_UNAVAILABLE, 'Card signing is not configured', path);
+    }
+
+    const rateLimit = rateLimiter.check(clientIp);
+    if (!rateLimit.allowed) {
+      return errorResponse(
+        ERROR_CODES.RATE_LIMITED,
+        'Too many signing requests',
+        path,
+        { 'Retry-After': String(rateLimit.retryAfterSeconds) }
+      );
+    }
+
+    const parsed = await readJsonBody(request, path, MAX_BODY_BYTES);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+    if (!isSignCardRequestBody(parsed.body) || !UUID_PATTERN.test(parsed.body.cardId)) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Expected { cardId } with a valid card ID', path);
+    }
+
+    try {
+      const card = await store.getCard(parsed.body.cardId);
+      if (!card) {
+        return errorResponse(ERROR_CODES.NOT_FOUND, 'Pixel card not found', path);
+      }
+      if (card.revokedAt) {
+        return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Revoked cards cannot be signed', path, {}, 409);
+      }
+
+      const image = await fetchImage(card.imageUrl, AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS));
+      const issuedAt = new Date(Math.floor(card.createdAt.getTime() / 1000) * 1000);
+      const expiresAt = tokenExpiry(card, issuedAt, ttlDays);
+      const token = signCardToken({
+        cardId: card.id.toLowerCase(),
+        name: card.userName,
+        issuedAt,
+        expiresAt,
+        imageHash: hashCardImage(image),
+      }, secret);
+
+      await store.saveToken(card.id, token);
+
+      const response: SignCardResponseBody = { token, expiresAt: expiresAt.toISOString() };
+      return jsonResponse(200, response);
+    } catch (error) {
+      console.error('Sign card request failed:', error);
+      return errorResponse(ERROR_CODES.UNKNOWN_ERROR, 'Failed to sign the card', path);
+    }
+  };
+}
+
+/**
+ * Build the verify handler; it only checks signatures, the caller compares the payload with the card
+ */
+export function createVerifyCardHandler({ secret, rateLimiter }: Pick<CardTokenHandlerDependencies, 'secret' | 'rateLimiter'>) {
+  return async (request: Request, clientIp: string): Promise<Response> => {
+    const path = new URL(request.url).pathname;
+
+    if (request.method !== 'POST') {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Only POST is supported', path, { Allow: 'POST' }, 405);
+    }
+    if (!secret) {
+      return errorResponse(ERROR_CODES.SERVICE_UNAVAILABLE, 'Card verification is not configured', path);
+    }
+
+    const rateLimit = rateLimiter.check(clientIp);
+    if (!rateLimit.allowed) {
+      return errorResponse(
+        ERROR_CODES.RATE_LIMITED,
+        'Too many verification requests',
+        path,
+        { 'Retry-After': String(rateLimit.retryAfterSeconds) }
+      );
+    }
+
+    const parsed = await readJsonBody(request, path, MAX_BODY_BYTES);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+    if (!isVerifyCardRequestBody(parsed.body)) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Expected { token }', path);
+    }
+
+    const decoded = decodeCardToken(parsed.body.token);
+    if (!decoded) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Malformed card token', path);
+    }
+
+    const response: VerifyCardResponseBody = { signatureValid: verifyCardTokenSignature(decoded, secret) };
+    return jsonResponse(200, response);
+  };
+}
+
+const readInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const readSecret = (env: Record<string, string | undefined>): string | null => {
+  const secret = env.CARD_SIGNING_SECRET;
+  if (!secret) return null;
+  if (secret.length < MIN_SIGNING_SECRET_LENGTH) {
+    console.error(`CARD_SIGNING_SECRET must be at least ${MIN_SIGNING_SECRET_LENGTH} characters; card signing is disabled`);
+    return null;
+  }
+  return secret;
+};
+
+/**
+ * Build both handlers from environment variables
+ * CARD_SIGNING_SECRET is the HMAC key; tokens expire with the card's expiry
+ * date, or CARD_TOKEN_TTL_DAYS after the card was created if it has none.
+ * Signing also needs SUPABASE_SERVICE_ROLE_KEY to store the token on the card.
+ */
+export function createCardTokenHandlersFromEnv(env: Record<string, string | undefined>) {
+  const secret = readSecret(env);
+  const rateLimiter = new SlidingWindowRateLimiter(
+    readInt(env.CARD_TOKEN_RATE_LIMIT, 30),
+    readInt(env.CARD_TOKEN_RATE_WINDOW_MS, 60_000)
+  );
+
+  return {
+    sign: createSignCardHandler({
+      secret,
+      store: createSupabaseCardStore(env),
+      rateLimiter,
+      ttlDays: readInt(env.CARD_TOKEN_TTL_DAYS, CARD_TOKEN_TTL_DAYS),
+    }),
+    verify: createVerifyCardHandler({ secret, rateLimiter }),
+  };
+}
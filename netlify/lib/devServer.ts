@@ -0,0 +1,86 @@
+/**
+ * Vite plugin that serves the /api endpoints during `npm run dev`
+ * Reads the same server-side variables as the Netlify functions from .env, so
+ * PIXELATE_MODEL=stub runs pixelation locally without a Gemini key.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { loadEnv } from 'vite';
+import type { Plugin } from 'vite';
+import { SIGN_CARD_ENDPOINT, VERIFY_CARD_ENDPOINT } from '../../src/lib/cardTokenApi';
+import { DEFAULT_PIXELATE_ENDPOINT } from '../../src/lib/pixelateApi';
+import { createCardTokenHandlersFromEnv } from './cardTokenHandler';
+import { createPixelateHandlerFromEnv } from './pixelateHandler';
+
+type Env = Record<string, string | undefined>;
+type Handler = (request: Request, clientIp: string) => Promise<Response>;
+
+// Handlers are built on first use, so a misconfigured endpoint doesn't break the others
+const ENDPOINTS: Array<{ path: string; create: (env: Env) => Handler }> = [
+  { path: DEFAULT_PIXELATE_ENDPOINT, create: createPixelateHandlerFromEnv },
+  { path: SIGN_CARD_ENDPOINT, create: env => createCardTokenHandlersFromEnv(env).sign },
+  { path: VERIFY_CARD_ENDPOINT, create: env => createCardTokenHandlersFromEnv(env).verify },
+];
+
+const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Adapt a Node request to the web Request the handler expects
+ */
+const toRequest = async (req: IncomingMessage, path: string): Promise<Request> => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') headers.set(name, value);
+  }
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  // Connect strips the mount path from req.url, so rebuild it from the endpoint
+  return new Request(new URL(path, `http://${req.headers.host ?? 'localhost'}`), {
+    method: req.method,
+    headers,
+    body: hasBody ? await readBody(req) : undefined,
+  });
+};
+
+const sendResponse = async (res: ServerResponse, response: Response): Promise<void> => {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+};
+
+export function apiDevPlugin(): Plugin {
+  return {
+    name: 'api-dev-endpoints',
+    apply: 'serve',
+    configureServer(server) {
+      // Server-side variables have no VITE_ prefix, so they never reach the client bundle
+      const env = { ...loadEnv(server.config.mode, server.config.envDir ?? process.cwd(), ''), ...process.env };
+
+      for (const { path, create } of ENDPOINTS) {
+        let handle: Handler | null = null;
+
+        server.middlewares.use(path, async (req, res) => {
+          try {
+            handle ??= create(env);
+            await sendResponse(res, await handle(await toRequest(req, path), req.socket.remoteAddress ?? 'unknown'));
+          } catch (error) {
+            console.error(`Dev endpoint ${path} failed:`, error);
+            res.statusCode = 500;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({
+              error: { code: 'UNKNOWN_ERROR', message: error instanceof Error ? error.message : 'Dev endpoint failed' },
+              timestamp: new Date().toISOString(),
+              path,
+            }));
+          }
+        });
+      }
+    },
+  };
+}
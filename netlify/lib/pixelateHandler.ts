@@ -0,0 +1,166 @@
+/**
+ * Request handling for the pixelate endpoint
+ * Written against the web Request/Response API with its dependencies injected,
+ * so the same handler runs in the Netlify function, the Vite dev server and
+ * tests with a stub model.
+ */
+
+import { validateImageData } from '../../src/lib/validation';
+import { isStylePresetId } from '../../src/lib/stylePresets';
+import { getControlPromptVersion, getPromptVersion } from '../../src/lib/promptRegistry';
+import { withTimeout } from '../../src/lib/retry';
+import { isImageGenerationError } from '../../src/lib/generationErrors';
+import { ERROR_CODES } from '../../src/lib/typeUtils';
+import type { PixelateRequestBody, PixelateResponseBody } from '../../src/lib/pixelateApi';
+import { createPixelateModel } from './pixelateModels';
+import type { PixelateModel } from './pixelateModels';
+import { SlidingWindowRateLimiter } from './rateLimiter';
+import { errorResponse, jsonResponse, readJsonBody } from './responses';
+
+export interface PixelateLimits {
+  maxBodyBytes: number;
+  maxImageBytes: number; // Decoded image size
+  timeoutMs: number; // Upper bound for one model call
+}
+
+// Netlify caps synchronous function payloads at 6MB and run time at 26s
+export const DEFAULT_PIXELATE_LIMITS: PixelateLimits = {
+  maxBodyBytes: 6 * 1024 * 1024,
+  maxImageBytes: 4 * 1024 * 1024,
+  timeoutMs: 25_000,
+};
+
+export interface PixelateHandlerDependencies {
+  model: PixelateModel | null; // Null when no model is configured
+  rateLimiter: SlidingWindowRateLimiter;
+  limits?: PixelateLimits;
+}
+
+const isPixelateRequestBody = (value: any): value is PixelateRequestBody => {
+  return (
+    value &&
+    typeof value === 'object' &&
+    typeof value.image === 'string' &&
+    typeof value.presetId === 'string' &&
+    (value.promptVersion === undefined || typeof value.promptVersion === 'string')
+  );
+};
+
+/**
+ * Build the handler; clientIp is supplied by the platform adapter
+ */
+export function createPixelateHandler({ model, rateLimiter, limits = DEFAULT_PIXELATE_LIMITS }: PixelateHandlerDependencies) {
+  return async (request: Request, clientIp: string): Promise<Response> => {
+    const path = new URL(request.url).pathname;
+
+    if (request.method !== 'POST') {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Only POST is supported', path, { Allow: 'POST' }, 405);
+    }
+    if (!model) {
+      return errorResponse(ERROR_CODES.SERVICE_UNAVAILABLE, 'Pixelation is not configured on this server', path);
+    }
+
+    const rateLimit = rateLimiter.check(clientIp);
+    if (!rateLimit.allowed) {
+      return errorResponse(
+        ERROR_CODES.RATE_LIMITED,
+        'Too many pixelation requests',
+        path,
+        { 'Retry-After': String(rateLimit.retryAfterSeconds) }
+      );
+    }
+
+    const parsed = await readJsonBody(request, path, limits.maxBodyBytes);
+    if ('response' in parsed) {
+      return parsed.response;
+    }
+    const { body } = parsed;
+
+    if (!isPixelateRequestBody(body)) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Expected { image, presetId, promptVersion? }', path);
+    }
+
+    const imageValidation = validateImageData.validate(body.image);
+    if (!imageValidation.isValid) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, imageValidation.errors.join(', '), path);
+    }
+
+    const [prefix, data] = body.image.split(',');
+    if ((data.length * 3) / 4 > limits.maxImageBytes) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Image exceeds the ${Math.round(limits.maxImageBytes / (1024 * 1024))}MB limit`,
+        path,
+        {},
+        413
+      );
+    }
+
+    if (!isStylePresetId(body.presetId)) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, `Unknown style preset "${body.presetId}"`, path);
+    }
+
+    // Prompts come from the registry only, so clients can't send arbitrary text
+    const prompt = body.promptVersion
+      ? getPromptVersion(body.promptVersion)
+      : getControlPromptVersion(body.presetId);
+    if (!prompt || prompt.presetId !== body.presetId) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, `Unknown prompt version "${body.promptVersion}"`, path);
+    }
+
+    try {
+      const image = await withTimeout(
+        signal => model.generate({ mimeType: prefix.slice(5, prefix.indexOf(';')), data }, prompt.prompt, signal),
+        limits.timeoutMs,
+        request.signal
+      );
+
+      const response: PixelateResponseBody = { image, modelId: model.id, promptVersion: prompt.version };
+      return jsonResponse(200, response, { 'X-RateLimit-Remaining': String(rateLimit.remaining) });
+    } catch (error) {
+      console.error('Pixelate request failed:', error);
+      if (isImageGenerationError(error)) {
+        return errorResponse(error.code, error.message, path);
+      }
+      return errorResponse(ERROR_CODES.UNKNOWN_ERROR, 'Failed to pixelate image', path);
+    }
+  };
+}
+
+const readInt = (value: string | undefined, fallback: number, min: number = 1): number => {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+};
+
+// Captures (retakes included) one client IP can pixelate per window by default
+const DEFAULT_CAPTURES_PER_WINDOW = 3;
+
+/**
+ * Default requests per window for one client IP, sized from the client's fan-out
+ * Each capture makes up to VITE_CANDIDATE_COUNT × (VITE_QUALITY_RETRIES + 1)
+ * calls, read with the same defaults as the candidate generator.
+ */
+export function defaultPixelateRateLimit(env: Record<string, string | undefined>): number {
+  const candidateCount = readInt(env.VITE_CANDIDATE_COUNT, 3);
+  const maxQualityRetries = readInt(env.VITE_QUALITY_RETRIES, 2, 0);
+  return candidateCount * (maxQualityRetries + 1) * DEFAULT_CAPTURES_PER_WINDOW;
+}
+
+/**
+ * Build the handler from environment variables
+ * PIXELATE_MODEL=stub skips Gemini; PIXELATE_RATE_LIMIT requests are allowed
+ * per PIXELATE_RATE_WINDOW_MS for each client IP.
+ */
+export function createPixelateHandlerFromEnv(env: Record<string, string | undefined>) {
+  return createPixelateHandler({
+    model: createPixelateModel(env),
+    rateLimiter: new SlidingWindowRateLimiter(
+      readInt(env.PIXELATE_RATE_LIMIT, defaultPixelateRateLimit(env)),
+      readInt(env.PIXELATE_RATE_WINDOW_MS, 60_000)
+    ),
+    limits: {
+      ...DEFAULT_PIXELATE_LIMITS,
+      maxImageBytes: readInt(env.PIXELATE_MAX_IMAGE_BYTES, DEFAULT_PIXELATE_LIMITS.maxImageBytes),
+    },
+  });
+}
@@ -0,0 +1,160 @@
+/**
+ * Image models the pixelate endpoint can call
+ * The Gemini model holds the API key server-side; the stub echoes the input
+ * so the endpoint can run locally and in tests without a key or network.
+ */
+
+import { ApiError, FinishReason, GoogleGenAI, Modality } from '@google/genai';
+import type { GenerateContentResponse } from '@google/genai';
+import {
+  ImageGenerationError,
+  QuotaExceededError,
+  SafetyBlockedError,
+  NoImageReturnedError,
+  GenerationNetworkError,
+  isImageGenerationError,
+} from '../../src/lib/generationErrors';
+import { GEMINI_MODEL } from '../../src/lib/pixelateApi';
+
+export interface ModelInputImage {
+  mimeType: string;
+  data: string; // Base64 without the data URI prefix
+}
+
+export interface PixelateModel {
+  readonly id: string;
+
+  /**
+   * Generate a pixel portrait and return it as a PNG data URL
+   */
+  generate(image: ModelInputImage, prompt: string, signal: AbortSignal): Promise<string>;
+}
+
+const SAFETY_FINISH_REASONS: ReadonlySet<string> = new Set([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+export class GeminiPixelateModel implements PixelateModel {
+  readonly id = GEMINI_MODEL;
+  private readonly client: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(image: ModelInputImage, prompt: string, signal: AbortSignal): Promise<string> {
+    let response: GenerateContentResponse;
+    try {
+      response = await this.client.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: { parts: [{ inlineData: image }, { text: prompt }] },
+        config: {
+          responseModalities: [Modality.IMAGE],
+          abortSignal: signal,
+        },
+      });
+    } catch (error) {
+      throw toGenerationError(error);
+    }
+
+    return extractImage(response);
+  }
+}
+
+/**
+ * Returns the input image unchanged after an optional delay
+ */
+export class StubPixelateModel implements PixelateModel {
+  readonly id = 'stub';
+
+  constructor(private readonly delayMs: number = 0) {}
+
+  async generate(image: ModelInputImage, _prompt: string, signal: AbortSignal): Promise<string> {
+    if (this.delayMs > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, this.delayMs);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(signal.reason);
+        }, { once: true });
+      });
+    }
+    return `data:${image.mimeType};base64,${image.data}`;
+  }
+}
+
+/**
+ * Pick the model from the environment: PIXELATE_MODEL=stub or Gemini with GEMINI_API_KEY
+ * Returns null when neither is configured, so the endpoint can answer with a 503.
+ */
+export function createPixelateModel(env: Record<string, string | undefined>): PixelateModel | null {
+  if (env.PIXELATE_MODEL === 'stub') {
+    return new StubPixelateModel(Number.parseInt(env.PIXELATE_STUB_DELAY_MS ?? '0', 10) || 0);
+  }
+
+  if (!env.GEMINI_API_KEY) {
+    console.error('GEMINI_API_KEY is not configured for the pixelate function');
+    return null;
+  }
+  return new GeminiPixelateModel(env.GEMINI_API_KEY);
+}
+
+/**
+ * Pull the generated image out of a response, surfacing safety blocks
+ */
+const extractImage = (response: GenerateContentResponse): string => {
+  if (response.promptFeedback?.blockReason) {
+    throw new SafetyBlockedError(`The photo was blocked by safety filters (${response.promptFeedback.blockReason}).`);
+  }
+
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.has(candidate.finishReason)) {
+    throw new SafetyBlockedError(`The generated image was blocked by safety filters (${candidate.finishReason}).`);
+  }
+
+  const imagePart = candidate?.content?.parts?.find(part => part.inlineData?.data);
+  if (!imagePart?.inlineData?.data) {
+    throw new NoImageReturnedError();
+  }
+
+  return `data:image/png;base64,${imagePart.inlineData.data}`;
+};
+
+/**
+ * Map SDK and transport errors onto typed generation errors
+ * Aborts are passed through untouched so the timeout wrapper can classify them.
+ */
+const toGenerationError = (error: unknown): unknown => {
+  if (isImageGenerationError(error)) {
+    return error;
+  }
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return error;
+  }
+
+  if (error instanceof ApiError) {
+    if (error.status === 429) {
+      return new QuotaExceededError(undefined, error);
+    }
+    if (error.status === 408 || error.status >= 500) {
+      return new GenerationNetworkError(`The image service is temporarily unavailable (${error.status}).`, error);
+    }
+    if (/safety|blocked/i.test(error.message)) {
+      return new SafetyBlockedError(undefined, error);
+    }
+    return new ImageGenerationError(error.message, undefined, false, error);
+  }
+
+  if (error instanceof TypeError) {
+    // fetch() rejects with a TypeError on connection failures
+    return new GenerationNetworkError(undefined, error);
+  }
+
+  return new ImageGenerationError(error instanceof Error ? error.message : 'Failed to pixelate image.', undefined, false, error);
+};
@@ -0,0 +1,65 @@
+/**
+ * In-memory sliding-window rate limiter keyed by client IP
+ * State lives in the function instance, so each warm instance enforces the
+ * limit on its own; it is a cost guard, not a hard global quota.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+export class SlidingWindowRateLimiter {
+  private readonly hits = new Map<string, number[]>();
+  private checksSincePrune = 0;
+
+  constructor(
+    private readonly maxRequests: number,
+    private readonly windowMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Count a request for the key and report whether it is within the limit
+   * Rejected requests are not counted.
+   */
+  check(key: string): RateLimitResult {
+    const now = this.now();
+    const windowStart = now - this.windowMs;
+    const recent = (this.hits.get(key) ?? []).filter(timestamp => timestamp > windowStart);
+
+    this.pruneOccasionally(windowStart);
+
+    if (recent.length >= this.maxRequests) {
+      this.hits.set(key, recent);
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + this.windowMs - now) / 1000)),
+      };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    return {
+      allowed: true,
+      remaining: this.maxRequests - recent.length,
+      retryAfterSeconds: 0,
+    };
+  }
+
+  /**
+   * Drop idle keys now and then so memory doesn't grow with every visitor
+   */
+  private pruneOccasionally(windowStart: number): void {
+    if (++this.checksSincePrune < 100) return;
+    this.checksSincePrune = 0;
+
+    for (const [key, timestamps] of this.hits) {
+      if (timestamps.every(timestamp => timestamp <= windowStart)) {
+        this.hits.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * JSON and error responses shared by the API handlers
+ * Errors use the same ErrorResponse shape as the rest of the app.
+ */
+
+import { ERROR_CODES } from '../../src/lib/typeUtils';
+import type { ErrorCode } from '../../src/lib/typeUtils';
+import type { ErrorResponse } from '../../src/types/supabase';
+
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  [ERROR_CODES.VALIDATION_ERROR]: 400,
+  [ERROR_CODES.NOT_FOUND]: 404,
+  [ERROR_CODES.RATE_LIMITED]: 429,
+  [ERROR_CODES.SAFETY_BLOCKED]: 422,
+  [ERROR_CODES.QUOTA_EXCEEDED]: 503, // Upstream quota, distinct from our own 429
+  [ERROR_CODES.NO_IMAGE_RETURNED]: 502,
+  [ERROR_CODES.NETWORK_ERROR]: 502,
+  [ERROR_CODES.TIMEOUT]: 504,
+  [ERROR_CODES.CANCELLED]: 499,
+  [ERROR_CODES.SERVICE_UNAVAILABLE]: 503, // Endpoint not configured on this deployment
+};
+
+export const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+  });
+};
+
+export const errorResponse = (
+  code: ErrorCode,
+  message: string,
+  path: string,
+  headers: Record<string, string> = {},
+  status: number = STATUS_BY_CODE[code] ?? 500
+): Response => {
+  const body: ErrorResponse = {
+    error: { code, message },
+    timestamp: new Date().toISOString(),
+    path,
+  };
+  return jsonResponse(status, body, headers);
+};
+
+/**
+ * Parse a JSON body no larger than maxBytes; returns an error response instead of throwing
+ */
+export const readJsonBody = async (
+  request: Request,
+  path: string,
+  maxBytes: number
+): Promise<{ body: unknown } | { response: Response }> => {
+  const declaredLength = Number(request.headers.get('content-length') ?? 0);
+  if (declaredLength > maxBytes) {
+    return { response: errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Request body is too large', path, {}, 413) };
+  }
+
+  const rawBody = await request.text();
+  if (rawBody.length > maxBytes) {
+    return { response: errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Request body is too large', path, {}, 413) };
+  }
+
+  try {
+    return { body: JSON.parse(rawBody) };
+  } catch {
+    return { response: errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Request body must be JSON', path) };
+  }
+};
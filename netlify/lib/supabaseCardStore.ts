@@ -0,0 +1,61 @@
+/**
+ * Card lookups and token writes for the signing endpoint
+ * Uses the service role key, which bypasses row level security, so it must
+ * only ever be read from server-side environment variables.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../../src/types/supabase';
+import type { CardTokenStore } from './cardTokenHandler';
+
+/**
+ * Store backed by the pixel_cards table, or null if Supabase isn't configured
+ */
+export function createSupabaseCardStore(env: Record<string, string | undefined>): CardTokenStore | null {
+  const url = env.SUPABASE_URL ?? env.VITE_SUPABASE_URL;
+  const serviceRoleKey = env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    return null;
+  }
+
+  const supabase = createClient<Database>(url, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  return {
+    async getCard(id) {
+      const { data, error } = await supabase
+        .from('pixel_cards')
+        .select('id, user_name, created_at, image_url, revoked_at, expiry_date')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to fetch pixel card: ${error.message}`);
+      }
+      if (!data) {
+        return null;
+      }
+
+      return {
+        id: data.id,
+        userName: data.user_name,
+        createdAt: new Date(data.created_at),
+        imageUrl: data.image_url,
+        revokedAt: data.revoked_at ? new Date(data.revoked_at) : null,
+        expiryDate: data.expiry_date,
+      };
+    },
+
+    async saveToken(id, token) {
+      const { error } = await supabase
+        .from('pixel_cards')
+        .update({ verification_token: token })
+        .eq('id', id);
+
+      if (error) {
+        throw new Error(`Failed to store card token: ${error.message}`);
+      }
+    },
+  };
+}
@@ -3,6 +3,9 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import Dashboard from './components/Dashboard';
 import { PixelIDCardGenerator } from './components/generate_pixel';
 import { GalleryView, PixelCardDetail } from './components/gallery';
+import { PromptStatsView } from './components/admin';
+import { QrScannerView } from './components/scan';
+import { CardVerifyView } from './components/verify';
 import ErrorBoundary from './components/ErrorBoundary';
 
 const App: React.FC = () => {
@@ -36,6 +39,21 @@ const App: React.FC = () => {
               <PixelCardDetail />
             </ErrorBoundary>
           } />
+          <Route path="/scan" element={
+            <ErrorBoundary>
+              <QrScannerView />
+            </ErrorBoundary>
+          } />
+          <Route path="/verify/:token" element={
+            <ErrorBoundary>
+              <CardVerifyView />
+            </ErrorBoundary>
+          } />
+          <Route path="/admin/prompts" element={
+            <ErrorBoundary>
+              <PromptStatsView />
+            </ErrorBoundary>
+          } />
         </Routes>
       </Router>
     </ErrorBoundary>
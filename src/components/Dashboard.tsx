@@ -12,6 +12,10 @@ const Dashboard: React.FC = () => {
     navigate('/gallery');
   };
 
+  const handleScanCard = () => {
+    navigate('/scan');
+  };
+
   return (
     <div className="bg-white min-h-screen w-full flex flex-col items-center justify-center p-4 text-black font-mono selection:bg-blue-500 selection:text-white relative pb-10">
       <div className="max-w-md w-full space-y-8 text-center">
@@ -43,6 +47,13 @@ const Dashboard: React.FC = () => {
               ABOUT
             </button>
           </div>
+
+          <button
+            onClick={handleScanCard}
+            className="w-full bg-gray-100 text-black py-3 px-6 font-bold tracking-wider hover:bg-gray-200 transition-colors duration-200 border border-gray-300"
+          >
+            SCAN A CARD 📷
+          </button>
         </div>
       </div>
 
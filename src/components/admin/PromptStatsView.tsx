@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { generationEventService } from '../../services/generationEventService';
+import { listPromptVersions } from '../../lib/promptRegistry';
+import { getStylePreset } from '../../lib/stylePresets';
+import type { PromptVersionStats } from '../../types/supabase';
+import LoadingSpinner from '../generate_pixel/LoadingSpinner';
+
+interface PromptStatsRow {
+  promptVersion: string;
+  presetLabel: string;
+  weight: number | null; // Null for versions no longer in the registry
+  stats: PromptVersionStats | null;
+}
+
+const formatRate = (count: number, total: number): string => {
+  return total > 0 ? `${((count / total) * 100).toFixed(1)}%` : '—';
+};
+
+const PromptStatsView: React.FC = () => {
+  const navigate = useNavigate();
+  const [stats, setStats] = useState<PromptVersionStats[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setStats(await generationEventService.getPromptVersionStats());
+    } catch (err) {
+      console.error('Failed to load prompt statistics:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load prompt statistics');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStats();
+  }, []);
+
+  // Registry versions without events still show up, as do retired versions that have events
+  const registered = listPromptVersions();
+  const rows: PromptStatsRow[] = [
+    ...registered.map(record => ({
+      promptVersion: record.version,
+      presetLabel: getStylePreset(record.presetId).label,
+      weight: record.weight,
+      stats: stats.find(entry => entry.promptVersion === record.version) ?? null,
+    })),
+    ...stats
+      .filter(entry => !registered.some(record => record.version === entry.promptVersion))
+      .map(entry => ({
+        promptVersion: entry.promptVersion,
+        presetLabel: getStylePreset(entry.promptVersion.split('@')[0]).label,
+        weight: null,
+        stats: entry,
+      })),
+  ];
+
+  return (
+    <div className="bg-white min-h-screen w-full flex flex-col p-4 text-black font-mono selection:bg-blue-500 selection:text-white relative pb-10">
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/')}
+          className="bg-gray-200 text-black py-2 px-4 font-bold tracking-wider hover:bg-gray-300 transition-colors duration-200 border border-gray-400"
+        >
+          ← BACK TO DASHBOARD
+        </button>
+      </div>
+
+      <div className="flex-1 max-w-5xl mx-auto w-full">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold tracking-wider mb-2">PROMPT VERSIONS</h1>
+          <p className="text-gray-600 tracking-wide">
+            Selection rate = candidates picked / candidates shown. Retake rate = candidates retaken / candidates shown.
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-16">
+            <LoadingSpinner />
+            <p className="text-black text-xl mt-4 tracking-wider">Loading statistics...</p>
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <div className="text-6xl mb-4">⚠️</div>
+            <p className="text-gray-600 mb-6 tracking-wide">{error}</p>
+            <button
+              onClick={loadStats}
+              className="bg-black text-white py-3 px-6 font-bold tracking-wider hover:bg-gray-800 transition-colors duration-200 border-2 border-black hover:border-gray-800"
+            >
+              TRY AGAIN
+            </button>
+          </div>
+        ) : (
+          <div className="overflow-x-auto border-2 border-gray-300">
+            <table className="w-full text-left tracking-wide">
+              <thead className="bg-gray-100 border-b-2 border-gray-300">
+                <tr>
+                  <th className="p-3">Version</th>
+                  <th className="p-3">Style</th>
+                  <th className="p-3 text-right">Weight</th>
+                  <th className="p-3 text-right">Captures</th>
+                  <th className="p-3 text-right">Shown</th>
+                  <th className="p-3 text-right">Selected</th>
+                  <th className="p-3 text-right">Selection Rate</th>
+                  <th className="p-3 text-right">Retaken</th>
+                  <th className="p-3 text-right">Retake Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const generated = row.stats?.generatedCount ?? 0;
+                  return (
+                    <tr key={row.promptVersion} className="border-b border-gray-200">
+                      <td className="p-3 font-bold">{row.promptVersion}</td>
+                      <td className="p-3">{row.presetLabel}</td>
+                      <td className="p-3 text-right">{row.weight ?? 'retired'}</td>
+                      <td className="p-3 text-right">{row.stats?.generationCount ?? 0}</td>
+                      <td className="p-3 text-right">{generated}</td>
+                      <td className="p-3 text-right">{row.stats?.selectedCount ?? 0}</td>
+                      <td className="p-3 text-right">{formatRate(row.stats?.selectedCount ?? 0, generated)}</td>
+                      <td className="p-3 text-right">{row.stats?.retakenCount ?? 0}</td>
+                      <td className="p-3 text-right">{formatRate(row.stats?.retakenCount ?? 0, generated)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <footer className="absolute bottom-4 text-center w-full text-gray-500 text-sm tracking-widest">
+        BUILD WITH LOVE BY NO-SPACE
+      </footer>
+    </div>
+  );
+};
+
+export default PromptStatsView;
@@ -0,0 +1 @@
+export { default as PromptStatsView } from './PromptStatsView';
\ No newline at end of file
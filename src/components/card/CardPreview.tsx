@@ -0,0 +1,137 @@
+import React, { useId, useMemo } from 'react';
+import { createCanvasMeasurer, layoutCard } from '../../lib/cardRenderer';
+import type { CardContent, CardShape } from '../../lib/cardRenderer';
+import type { CardTemplate } from '../../lib/cardTemplates';
+
+interface CardPreviewProps {
+  template: CardTemplate;
+  content: CardContent;
+  className?: string;
+}
+
+const TEXT_ANCHORS = { left: 'start', center: 'middle', right: 'end' } as const;
+
+/**
+ * Draws a card as SVG from the same scene the canvas exports use
+ */
+const CardPreview: React.FC<CardPreviewProps> = ({ template, content, className = '' }) => {
+  const idPrefix = useId().replace(/:/g, '');
+  const measure = useMemo(() => createCanvasMeasurer(), []);
+  const scene = useMemo(() => layoutCard(template, content, measure), [template, content, measure]);
+
+  const renderShape = (shape: CardShape, index: number) => {
+    switch (shape.kind) {
+      case 'glow':
+        return (
+          <rect
+            key={index}
+            x={shape.x}
+            y={shape.y}
+            width={shape.width}
+            height={shape.height}
+            rx={shape.radius}
+            fill={shape.color}
+            filter={`url(#${idPrefix}-glow-${index})`}
+          />
+        );
+      case 'rect':
+        return (
+          <React.Fragment key={index}>
+            {shape.fill && (
+              <rect x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={shape.radius} fill={shape.fill} />
+            )}
+            {shape.stroke && (
+              <rect
+                x={shape.x + 0.5}
+                y={shape.y + 0.5}
+                width={shape.width - 1}
+                height={shape.height - 1}
+                rx={shape.radius}
+                fill="none"
+                stroke={shape.stroke}
+                strokeWidth={1}
+              />
+            )}
+          </React.Fragment>
+        );
+      case 'text':
+        return (
+          <text
+            key={index}
+            fill={shape.color}
+            fontFamily={shape.font.family}
+            fontSize={shape.font.size}
+            fontWeight={shape.font.weight}
+            letterSpacing={shape.font.letterSpacing}
+            textAnchor={TEXT_ANCHORS[shape.align]}
+            dominantBaseline="central"
+          >
+            {shape.lines.map((line, lineIndex) => (
+              <tspan key={lineIndex} x={shape.x} y={shape.y + shape.lineHeight * (lineIndex + 0.5)}>
+                {line}
+              </tspan>
+            ))}
+          </text>
+        );
+      case 'image':
+        return (
+          <image
+            key={index}
+            href={shape.src}
+            x={shape.x}
+            y={shape.y}
+            width={shape.width}
+            height={shape.height}
+            preserveAspectRatio="xMidYMid meet"
+            clipPath={`url(#${idPrefix}-clip-${index})`}
+            style={{ imageRendering: 'pixelated' }} // CSS for crisp edges
+          />
+        );
+      case 'qr':
+        return (
+          <g key={index}>
+            <rect x={shape.x} y={shape.y} width={shape.size} height={shape.size} fill={shape.light} />
+            <path
+              d={shape.path}
+              fill={shape.dark}
+              transform={`translate(${shape.x} ${shape.y}) scale(${shape.size / shape.modules})`}
+              shapeRendering="crispEdges"
+            />
+          </g>
+        );
+    }
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${scene.width} ${scene.height}`}
+      role="img"
+      aria-label={`${template.label} ID card for ${content.name}`}
+      className={`w-full h-auto ${className}`}
+      style={{ maxWidth: scene.width }}
+    >
+      <defs>
+        {scene.shapes.map((shape, index) => {
+          if (shape.kind === 'glow') {
+            return (
+              <filter key={index} id={`${idPrefix}-glow-${index}`} x="-50%" y="-50%" width="200%" height="200%">
+                <feGaussianBlur stdDeviation={shape.blur / 2} />
+              </filter>
+            );
+          }
+          if (shape.kind === 'image') {
+            return (
+              <clipPath key={index} id={`${idPrefix}-clip-${index}`}>
+                <rect x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={shape.radius} />
+              </clipPath>
+            );
+          }
+          return null;
+        })}
+      </defs>
+      {scene.shapes.map(renderShape)}
+    </svg>
+  );
+};
+
+export default CardPreview;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import type { PixelCard } from '../../types/supabase';
+import { getCardTemplate } from '../../lib/cardTemplates';
+import { cardContentFromPixelCard, cardFileName, downloadBlob } from '../../lib/cardRenderer';
+import {
+  cardsPerSheet,
+  validatePrintOptions,
+  CR80_CARD_SIZE,
+  DEFAULT_BLEED,
+  PRINT_LIMITS,
+  PRINT_SHEETS,
+} from '../../lib/printLayout';
+import type { CardSizeId, PrintOptions, PrintSheetId, PrintSize } from '../../lib/printLayout';
+import { cardPrintService } from '../../services/cardPrintService';
+
+interface PrintPdfPanelProps {
+  cards: PixelCard[];
+  onClose: () => void;
+}
+
+const SHEET_LABELS: Record<PrintSheetId, string> = {
+  card: 'One card per page',
+  a4: `${PRINT_SHEETS.a4.label} sheet`,
+  letter: `${PRINT_SHEETS.letter.label} sheet`,
+};
+
+const inputClass = 'w-20 border border-gray-300 px-2 py-1 text-sm font-mono';
+
+/**
+ * Print options and PDF download for one or more saved cards
+ */
+const PrintPdfPanel: React.FC<PrintPdfPanelProps> = ({ cards, onClose }) => {
+  // CR80 follows the first card's template orientation
+  const firstTemplate = getCardTemplate(cards[0]?.templateId);
+  const landscape = firstTemplate.width > firstTemplate.height;
+  const cr80: PrintSize = landscape
+    ? { width: CR80_CARD_SIZE.height, height: CR80_CARD_SIZE.width }
+    : CR80_CARD_SIZE;
+
+  const [sizeId, setSizeId] = useState<CardSizeId>('cr80');
+  const [customSize, setCustomSize] = useState<PrintSize>(cr80);
+  const [bleed, setBleed] = useState<number>(DEFAULT_BLEED);
+  const [cropMarks, setCropMarks] = useState<boolean>(true);
+  const [sheet, setSheet] = useState<PrintSheetId>(cards.length > 1 ? 'a4' : 'card');
+  const [backs, setBacks] = useState<boolean>(false);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options: PrintOptions = {
+    cardSize: sizeId === 'cr80' ? cr80 : customSize,
+    bleed,
+    cropMarks,
+    sheet,
+    backs,
+  };
+  const optionErrors = validatePrintOptions(options);
+  const perSheet = optionErrors.length === 0 && sheet !== 'card' ? cardsPerSheet(options) : 1;
+  const sheetCount = Math.ceil(cards.length / perSheet);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const printable = cards.map(card => ({
+        template: getCardTemplate(card.templateId),
+        content: cardContentFromPixelCard(card),
+      }));
+      const title = cards.length === 1 ? `${cards[0].userName} ID card` : `${cards.length} ID cards`;
+      const blob = await cardPrintService.exportPdf(printable, options, title);
+      downloadBlob(blob, cards.length === 1 ? cardFileName(cards[0].userName, 'pdf') : `pixel_id_cards_${cards.length}.pdf`);
+    } catch (err) {
+      console.error('Error exporting print PDF:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create the PDF');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-100 p-4 border border-gray-300 text-sm space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-bold tracking-wider">
+          PRINT {cards.length === 1 ? 'CARD' : `${cards.length} CARDS`}
+        </h3>
+        <button onClick={onClose} className="text-gray-600 hover:text-black tracking-wider" aria-label="Close print options">
+          ✕
+        </button>
+      </div>
+
+      <label className="flex justify-between items-center gap-4">
+        <span className="text-gray-600 tracking-wide">Card size:</span>
+        <select
+          value={sizeId}
+          onChange={event => setSizeId(event.target.value as CardSizeId)}
+          className="border border-gray-300 px-2 py-1 bg-white"
+        >
+          <option value="cr80">CR80 badge ({cr80.width} × {cr80.height} mm)</option>
+          <option value="custom">Custom</option>
+        </select>
+      </label>
+
+      {sizeId === 'custom' && (
+        <div className="flex justify-end items-center gap-2">
+          <input
+            type="number"
+            min={PRINT_LIMITS.MIN_CARD_SIDE}
+            max={PRINT_LIMITS.MAX_CARD_SIDE}
+            step={0.1}
+            value={customSize.width}
+            onChange={event => setCustomSize({ ...customSize, width: Number(event.target.value) })}
+            className={inputClass}
+            aria-label="Card width in millimetres"
+          />
+          <span>×</span>
+          <input
+            type="number"
+            min={PRINT_LIMITS.MIN_CARD_SIDE}
+            max={PRINT_LIMITS.MAX_CARD_SIDE}
+            step={0.1}
+            value={customSize.height}
+            onChange={event => setCustomSize({ ...customSize, height: Number(event.target.value) })}
+            className={inputClass}
+            aria-label="Card height in millimetres"
+          />
+          <span>mm</span>
+        </div>
+      )}
+
+      <label className="flex justify-between items-center gap-4">
+        <span className="text-gray-600 tracking-wide">Bleed (mm):</span>
+        <input
+          type="number"
+          min={0}
+          max={PRINT_LIMITS.MAX_BLEED}
+          step={0.5}
+          value={bleed}
+          onChange={event => setBleed(Number(event.target.value))}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="flex justify-between items-center gap-4">
+        <span className="text-gray-600 tracking-wide">Layout:</span>
+        <select
+          value={sheet}
+          onChange={event => setSheet(event.target.value as PrintSheetId)}
+          className="border border-gray-300 px-2 py-1 bg-white"
+        >
+          {(Object.keys(SHEET_LABELS) as PrintSheetId[]).map(id => (
+            <option key={id} value={id}>{SHEET_LABELS[id]}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={cropMarks} onChange={event => setCropMarks(event.target.checked)} />
+        <span className="tracking-wide">Crop marks</span>
+      </label>
+
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={backs} onChange={event => setBacks(event.target.checked)} />
+        <span className="tracking-wide">Include card backs (print double-sided, flip on long edge)</span>
+      </label>
+
+      {optionErrors.length > 0 ? (
+        <ul className="text-red-500 list-disc pl-5">
+          {optionErrors.map(message => <li key={message}>{message}</li>)}
+        </ul>
+      ) : (
+        <p className="text-gray-600 tracking-wide">
+          {sheet === 'card'
+            ? `${cards.length} ${cards.length === 1 ? 'page' : 'pages'}`
+            : `${perSheet} per sheet, ${sheetCount} ${sheetCount === 1 ? 'sheet' : 'sheets'}`}
+          {backs ? ' plus backs' : ''}. Print at 100% scale.
+        </p>
+      )}
+
+      {error && <p className="text-red-500 tracking-wide">{error}</p>}
+
+      <button
+        onClick={handleExport}
+        disabled={isExporting || optionErrors.length > 0}
+        className="w-full bg-black text-white py-3 px-4 font-bold tracking-wider hover:bg-gray-800 transition-colors duration-200 disabled:bg-gray-300 disabled:text-gray-500"
+      >
+        {isExporting ? 'CREATING PDF...' : 'DOWNLOAD PDF'}
+      </button>
+    </div>
+  );
+};
+
+export default PrintPdfPanel;
@@ -0,0 +1,2 @@
+export { default as CardPreview } from './CardPreview';
+export { default as PrintPdfPanel } from './PrintPdfPanel';
\ No newline at end of file
@@ -1,9 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { pixelCardRepository } from '../../services/pixelCardRepository.js';
-import type { GalleryResponse } from '../../types/supabase.js';
+import type { GalleryResponse, PixelCard } from '../../types/supabase.js';
+import { getStylePreset } from '../../lib/stylePresets.js';
+import type { StylePresetId } from '../../lib/stylePresets.js';
 import PixelCardGrid from './PixelCardGrid.js';
+import StylePresetFilter from './StylePresetFilter.js';
 import LoadingSpinner from '../generate_pixel/LoadingSpinner.js';
+import { PrintPdfPanel } from '../card/index.js';
+
+// Cards are fetched in one query for printing, so the selection is capped at a page's maximum
+const PRINT_SELECTION_LIMIT = 50;
 
 const GalleryView: React.FC = () => {
   const navigate = useNavigate();
@@ -11,15 +18,22 @@ const GalleryView: React.FC = () => {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState<number>(1);
+  const [stylePresetFilter, setStylePresetFilter] = useState<StylePresetId | null>(null);
+  const [isSelecting, setIsSelecting] = useState<boolean>(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [printCards, setPrintCards] = useState<PixelCard[] | null>(null);
+  const [isLoadingPrint, setIsLoadingPrint] = useState<boolean>(false);
+  const [printError, setPrintError] = useState<string | null>(null);
 
-  const loadGalleryData = async (page: number = 1) => {
+  const loadGalleryData = async (page: number = 1, stylePreset: StylePresetId | null = stylePresetFilter) => {
     try {
       setIsLoading(true);
       setError(null);
       
       const data = await pixelCardRepository.getAllPixelCards({
         page,
-        limit: 12
+        limit: 12,
+        stylePreset: stylePreset ?? undefined
       });
       
       setGalleryData(data);
@@ -46,6 +60,47 @@ const GalleryView: React.FC = () => {
     loadGalleryData(currentPage);
   };
 
+  const handleStylePresetChange = (presetId: StylePresetId | null) => {
+    setStylePresetFilter(presetId);
+    loadGalleryData(1, presetId);
+  };
+
+  const handleToggleSelect = (id: string) => {
+    setPrintCards(null);
+    if (selectedIds.includes(id)) {
+      setSelectedIds(selectedIds.filter(selectedId => selectedId !== id));
+      setPrintError(null);
+      return;
+    }
+    if (selectedIds.length >= PRINT_SELECTION_LIMIT) {
+      setPrintError(`You can print up to ${PRINT_SELECTION_LIMIT} cards at once`);
+      return;
+    }
+    setSelectedIds([...selectedIds, id]);
+    setPrintError(null);
+  };
+
+  const handleStopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+    setPrintCards(null);
+    setPrintError(null);
+  };
+
+  // The gallery only lists summaries; printing needs each card's template
+  const handleOpenPrint = async () => {
+    try {
+      setIsLoadingPrint(true);
+      setPrintError(null);
+      setPrintCards(await pixelCardRepository.getPixelCardsByIds(selectedIds));
+    } catch (err) {
+      console.error('Failed to load cards for printing:', err);
+      setPrintError(err instanceof Error ? err.message : 'Failed to load the selected cards');
+    } finally {
+      setIsLoadingPrint(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="bg-white min-h-screen w-full flex flex-col items-center justify-center p-4 text-black font-mono selection:bg-blue-500 selection:text-white relative pb-10">
@@ -101,7 +156,7 @@ const GalleryView: React.FC = () => {
     );
   }
 
-  if (!galleryData || galleryData.pixelCards.length === 0) {
+  if (!galleryData || (galleryData.pixelCards.length === 0 && stylePresetFilter === null)) {
     return (
       <div className="bg-white min-h-screen w-full flex flex-col items-center justify-center p-4 text-black font-mono selection:bg-blue-500 selection:text-white relative pb-10">
         <div className="mb-6 self-start">
@@ -153,12 +208,60 @@ const GalleryView: React.FC = () => {
           </p>
         </div>
 
-        <PixelCardGrid 
-          pixelCards={galleryData.pixelCards}
-          pagination={galleryData.pagination}
-          onPageChange={handlePageChange}
-          currentPage={currentPage}
-        />
+        <StylePresetFilter value={stylePresetFilter} onChange={handleStylePresetChange} />
+
+        <div className="flex flex-wrap justify-center items-center gap-3 mb-6 text-sm">
+          {isSelecting ? (
+            <>
+              <span className="tracking-wide">{selectedIds.length} selected</span>
+              <button
+                onClick={handleOpenPrint}
+                disabled={selectedIds.length === 0 || isLoadingPrint}
+                className="bg-black text-white py-2 px-4 font-bold tracking-wider hover:bg-gray-800 transition-colors duration-200 disabled:bg-gray-300 disabled:text-gray-500"
+              >
+                {isLoadingPrint ? 'LOADING...' : 'PRINT PDF'}
+              </button>
+              <button
+                onClick={handleStopSelecting}
+                className="bg-gray-200 text-black py-2 px-4 font-bold tracking-wider hover:bg-gray-300 transition-colors duration-200 border border-gray-400"
+              >
+                CANCEL
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setIsSelecting(true)}
+              className="bg-gray-200 text-black py-2 px-4 font-bold tracking-wider hover:bg-gray-300 transition-colors duration-200 border border-gray-400"
+            >
+              SELECT CARDS TO PRINT
+            </button>
+          )}
+        </div>
+
+        {printError && (
+          <p className="text-center text-red-500 text-sm tracking-wide mb-4">{printError}</p>
+        )}
+
+        {printCards && printCards.length > 0 && (
+          <div className="max-w-md mx-auto mb-8">
+            <PrintPdfPanel cards={printCards} onClose={() => setPrintCards(null)} />
+          </div>
+        )}
+
+        {galleryData.pixelCards.length === 0 ? (
+          <div className="text-center text-gray-600 tracking-wide py-16">
+            No cards in the {getStylePreset(stylePresetFilter).label} style yet.
+          </div>
+        ) : (
+          <PixelCardGrid 
+            pixelCards={galleryData.pixelCards}
+            pagination={galleryData.pagination}
+            onPageChange={handlePageChange}
+            currentPage={currentPage}
+            selectedIds={selectedIds}
+            onToggleSelect={isSelecting ? handleToggleSelect : undefined}
+          />
+        )}
       </div>
 
       <footer className="absolute bottom-4 text-center w-full text-gray-500 text-sm tracking-widest">
@@ -1,7 +1,26 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { pixelCardRepository } from '../../services/pixelCardRepository';
+import { cardVerificationService } from '../../services/cardVerificationService';
 import type { PixelCard } from '../../types/supabase';
+import { getStylePreset } from '../../lib/stylePresets';
+import { getBackdrop } from '../../lib/backdrops';
+import { renderCardToBlob, downloadBlob, cardFileName, cardContentFromPixelCard } from '../../lib/cardRenderer';
+import { getCardTemplate } from '../../lib/cardTemplates';
+import { pixelArtToSvgBlob } from '../../lib/pixelSvg';
+import { CARD_DETAIL_LABELS } from '../../lib/cardDetails';
+import type { CardDetailKey } from '../../lib/cardDetails';
+import { CardPreview, PrintPdfPanel } from '../card';
+
+// The card face abbreviates some labels; the detail page has room for the full ones
+const DETAIL_ROW_LABELS: Record<CardDetailKey, string> = {
+  jobTitle: 'Job Title',
+  team: 'Team',
+  organization: 'Organisation',
+  badgeNumber: 'Badge Number',
+  issueDate: 'Issued',
+  expiryDate: 'Expires',
+};
 
 const PixelCardDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -12,6 +31,13 @@ const PixelCardDetail: React.FC = () => {
   const [imageLoaded, setImageLoaded] = useState<boolean>(false);
   const [imageError, setImageError] = useState<boolean>(false);
   const [copySuccess, setCopySuccess] = useState<boolean>(false);
+  const [showDetails, setShowDetails] = useState<boolean>(false);
+  const [isDownloading, setIsDownloading] = useState<boolean>(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [showPrint, setShowPrint] = useState<boolean>(false);
+  const [isSigning, setIsSigning] = useState<boolean>(false);
+  const [signError, setSignError] = useState<string | null>(null);
+  const cardContent = useMemo(() => pixelCard && cardContentFromPixelCard(pixelCard), [pixelCard]);
 
   useEffect(() => {
     const fetchPixelCard = async () => {
@@ -77,15 +103,59 @@ const PixelCardDetail: React.FC = () => {
     }
   };
 
-  const handleDownloadImage = () => {
+  const handleDownloadImage = async () => {
+    if (!pixelCard) return;
+
+    setIsDownloading(true);
+    setDownloadError(null);
+    try {
+      const blob = await renderCardToBlob(getCardTemplate(pixelCard.templateId), cardContentFromPixelCard(pixelCard));
+      downloadBlob(blob, cardFileName(pixelCard.userName));
+    } catch (err) {
+      console.error('Error rendering card for download:', err);
+      setDownloadError('Failed to create the card image');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleDownloadSvg = async () => {
+    if (!pixelCard) return;
+
+    setIsDownloading(true);
+    setDownloadError(null);
+    try {
+      const gridSize = pixelCard.gridSize ?? getStylePreset(pixelCard.stylePreset).resolution;
+      const blob = await pixelArtToSvgBlob(pixelCard.imageUrl, gridSize, {
+        palette: pixelCard.palette,
+        title: pixelCard.userName
+      });
+      downloadBlob(blob, cardFileName(pixelCard.userName, 'svg'));
+    } catch (err) {
+      console.error('Error exporting pixel art as SVG:', err);
+      setDownloadError('Failed to create the SVG');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  /**
+   * Sign a card saved before signing existed, so its QR code links to the verify page
+   */
+  const handleSignCard = async () => {
     if (!pixelCard) return;
 
-    const link = document.createElement('a');
-    link.href = pixelCard.imageUrl;
-    link.download = `${pixelCard.userName}-pixel-id.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    setIsSigning(true);
+    setSignError(null);
+    try {
+      const { token } = await cardVerificationService.signCard(pixelCard.id);
+      setPixelCard({ ...pixelCard, verificationToken: token });
+    } catch (err) {
+      console.error('Error signing pixel card:', err);
+      setSignError(err instanceof Error ? err.message : 'Failed to sign the card');
+    } finally {
+      setIsSigning(false);
+    }
   };
 
   const formatDate = (date: Date): string => {
@@ -105,6 +175,19 @@ const PixelCardDetail: React.FC = () => {
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
+  const generationDetails = (card: PixelCard): [string, string][] => {
+    const orDash = (value: string | number | null) => value === null ? '—' : String(value);
+    return [
+      ['Provider', orDash(card.provider)],
+      ['Model', orDash(card.modelId)],
+      ['Prompt Version', orDash(card.promptVersion)],
+      ['Latency', card.generationLatencyMs === null ? '—' : `${(card.generationLatencyMs / 1000).toFixed(1)} s`],
+      ['Retries', orDash(card.retryCount)],
+      ['Post-processed', card.postProcessed === null ? '—' : card.postProcessed ? 'Yes' : 'No'],
+      ['Mirrored', card.isMirrored ? 'Yes' : 'No'],
+    ];
+  };
+
   // Loading state
   if (loading) {
     return (
@@ -164,7 +247,7 @@ const PixelCardDetail: React.FC = () => {
       <div className="w-full max-w-4xl grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
         {/* Image Section */}
         <div className="space-y-4">
-          <div className="relative aspect-square bg-gray-100 border-2 border-gray-300 overflow-hidden">
+          <div className="relative aspect-square transparency-grid border-2 border-gray-300 overflow-hidden">
             {!imageLoaded && !imageError && (
               <div className="absolute inset-0 flex items-center justify-center">
                 <div className="animate-spin w-8 h-8 border-2 border-gray-400 border-t-black rounded-full"></div>
@@ -181,9 +264,10 @@ const PixelCardDetail: React.FC = () => {
               <img
                 src={pixelCard.imageUrl}
                 alt={`Pixel ID for ${pixelCard.userName}`}
-                className={`w-full h-full object-cover transition-opacity duration-300 ${
+                className={`w-full h-full object-contain transition-opacity duration-300 ${
                   imageLoaded ? 'opacity-100' : 'opacity-0'
                 }`}
+                style={{ imageRendering: 'pixelated' }} // Stored images are grid-sized, upscale without blurring
                 onLoad={() => setImageLoaded(true)}
                 onError={() => setImageError(true)}
               />
@@ -201,11 +285,38 @@ const PixelCardDetail: React.FC = () => {
             
             <button
               onClick={handleDownloadImage}
-              className="bg-green-500 text-white py-3 px-4 font-bold tracking-wider hover:bg-green-600 transition-colors duration-200 border-2 border-green-500 hover:border-green-600"
+              disabled={isDownloading}
+              className="bg-green-500 text-white py-3 px-4 font-bold tracking-wider hover:bg-green-600 transition-colors duration-200 border-2 border-green-500 hover:border-green-600 disabled:bg-gray-300 disabled:border-gray-300 disabled:text-gray-500"
             >
-              DOWNLOAD
+              {isDownloading ? 'PREPARING...' : 'DOWNLOAD CARD'}
             </button>
           </div>
+          <button
+            onClick={handleDownloadSvg}
+            disabled={isDownloading}
+            className="w-full bg-teal-500 text-white py-3 px-4 font-bold tracking-wider hover:bg-teal-600 transition-colors duration-200 border-2 border-teal-500 hover:border-teal-600 disabled:bg-gray-300 disabled:border-gray-300 disabled:text-gray-500"
+          >
+            DOWNLOAD SVG
+          </button>
+          {downloadError && (
+            <p className="text-red-500 text-sm tracking-wide text-center">{downloadError}</p>
+          )}
+
+          {showPrint ? (
+            <PrintPdfPanel cards={[pixelCard]} onClose={() => setShowPrint(false)} />
+          ) : (
+            <button
+              onClick={() => setShowPrint(true)}
+              className="w-full bg-gray-100 text-black py-3 px-4 font-bold tracking-wider hover:bg-gray-200 transition-colors duration-200 border-2 border-gray-300"
+            >
+              PRINT PDF
+            </button>
+          )}
+
+          {/* The framed card, with a QR code linking to its verify page (or this page if unsigned) */}
+          {cardContent && (
+            <CardPreview template={getCardTemplate(pixelCard.templateId)} content={cardContent} className="mx-auto" />
+          )}
         </div>
 
         {/* Details Section */}
@@ -226,6 +337,76 @@ const PixelCardDetail: React.FC = () => {
                 <span className="tracking-wider text-right">{formatDate(pixelCard.createdAt)}</span>
               </div>
               
+              {CARD_DETAIL_LABELS.filter(([key]) => pixelCard[key]).map(([key]) => (
+                <div key={key} className="flex justify-between items-center py-2 border-b border-gray-200 gap-4">
+                  <span className="text-gray-600 tracking-wide">{DETAIL_ROW_LABELS[key]}:</span>
+                  <span className="tracking-wider text-right break-all">{pixelCard[key]}</span>
+                </div>
+              ))}
+
+              <div className="flex justify-between items-center py-2 border-b border-gray-200 gap-4">
+                <span className="text-gray-600 tracking-wide">Verification:</span>
+                {pixelCard.revokedAt ? (
+                  <span className="tracking-wider text-red-600 text-right">Revoked {formatDate(pixelCard.revokedAt)}</span>
+                ) : pixelCard.verificationToken ? (
+                  <button
+                    onClick={() => navigate(`/verify/${pixelCard.verificationToken}`)}
+                    className="tracking-wider text-blue-600 hover:underline"
+                  >
+                    Signed ✓
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSignCard}
+                    disabled={isSigning}
+                    className="bg-gray-100 text-black py-1 px-3 text-sm font-bold tracking-wider hover:bg-gray-200 transition-colors duration-200 border border-gray-300 disabled:text-gray-500"
+                  >
+                    {isSigning ? 'SIGNING...' : 'SIGN CARD'}
+                  </button>
+                )}
+              </div>
+              {signError && (
+                <p className="text-red-500 text-sm tracking-wide text-right">{signError}</p>
+              )}
+
+              <div className="flex justify-between items-center py-2 border-b border-gray-200">
+                <span className="text-gray-600 tracking-wide">Style:</span>
+                <span className="tracking-wider">{getStylePreset(pixelCard.stylePreset).label}</span>
+              </div>
+
+              <div className="flex justify-between items-center py-2 border-b border-gray-200">
+                <span className="text-gray-600 tracking-wide">Backdrop:</span>
+                <span className="tracking-wider">{getBackdrop(pixelCard.backdropId).label}</span>
+              </div>
+
+              <div className="flex justify-between items-center py-2 border-b border-gray-200">
+                <span className="text-gray-600 tracking-wide">Template:</span>
+                <span className="tracking-wider">{getCardTemplate(pixelCard.templateId).label}</span>
+              </div>
+              
+              {pixelCard.gridSize && (
+                <div className="flex justify-between items-center py-2 border-b border-gray-200">
+                  <span className="text-gray-600 tracking-wide">Resolution:</span>
+                  <span className="tracking-wider">{pixelCard.gridSize}×{pixelCard.gridSize} px</span>
+                </div>
+              )}
+
+              {pixelCard.palette && pixelCard.palette.length > 0 && (
+                <div className="flex justify-between items-center py-2 border-b border-gray-200 gap-4">
+                  <span className="text-gray-600 tracking-wide">Palette:</span>
+                  <div className="flex flex-wrap justify-end max-w-[60%]" title={`${pixelCard.palette.length} colours`}>
+                    {pixelCard.palette.map((color) => (
+                      <span
+                        key={color}
+                        className="w-4 h-4 border border-gray-200"
+                        style={{ backgroundColor: color }}
+                        title={color}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+              
               <div className="flex justify-between items-center py-2 border-b border-gray-200">
                 <span className="text-gray-600 tracking-wide">File Size:</span>
                 <span className="tracking-wider">{formatFileSize(pixelCard.fileSize)}</span>
@@ -265,6 +446,32 @@ const PixelCardDetail: React.FC = () => {
               </div>
             </div>
           </div>
+
+          {/* Generation Details Section */}
+          <div className="space-y-3">
+            <button
+              onClick={() => setShowDetails(!showDetails)}
+              aria-expanded={showDetails}
+              className="w-full flex justify-between items-center text-xl font-bold tracking-wider hover:text-gray-700 transition-colors duration-200"
+            >
+              <span>GENERATION DETAILS</span>
+              <span>{showDetails ? '▾' : '▸'}</span>
+            </button>
+            {showDetails && (
+              <div className="bg-gray-100 p-4 border border-gray-300 text-sm space-y-2">
+                {pixelCard.provider === null && pixelCard.modelId === null && pixelCard.promptVersion === null ? (
+                  <p className="text-gray-600 tracking-wide">No generation details were recorded for this card.</p>
+                ) : (
+                  generationDetails(pixelCard).map(([label, value]) => (
+                    <div key={label} className="flex justify-between items-center gap-4">
+                      <span className="text-gray-600 tracking-wide">{label}:</span>
+                      <span className="font-mono tracking-wider text-right break-all">{value}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
         </div>
       </div>
 
@@ -13,13 +13,17 @@ interface PixelCardGridProps {
   };
   onPageChange: (page: number) => void;
   currentPage: number;
+  selectedIds?: string[];
+  onToggleSelect?: (id: string) => void;
 }
 
 const PixelCardGrid: React.FC<PixelCardGridProps> = ({
   pixelCards,
   pagination,
   onPageChange,
-  currentPage
+  currentPage,
+  selectedIds = [],
+  onToggleSelect
 }) => {
   return (
     <div className="w-full">
@@ -29,6 +33,8 @@ const PixelCardGrid: React.FC<PixelCardGridProps> = ({
           <PixelCardItem 
             key={pixelCard.id} 
             pixelCard={pixelCard} 
+            isSelected={selectedIds.includes(pixelCard.id)}
+            onToggleSelect={onToggleSelect}
           />
         ))}
       </div>
@@ -1,17 +1,24 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import type { PixelCardResponse } from '../../types/supabase';
+import { getStylePreset } from '../../lib/stylePresets';
 
 interface PixelCardItemProps {
   pixelCard: PixelCardResponse;
+  isSelected?: boolean;
+  onToggleSelect?: (id: string) => void; // When set, clicking selects the card instead of opening it
 }
 
-const PixelCardItem: React.FC<PixelCardItemProps> = ({ pixelCard }) => {
+const PixelCardItem: React.FC<PixelCardItemProps> = ({ pixelCard, isSelected = false, onToggleSelect }) => {
   const navigate = useNavigate();
   const [imageLoaded, setImageLoaded] = useState<boolean>(false);
   const [imageError, setImageError] = useState<boolean>(false);
 
   const handleCardClick = () => {
+    if (onToggleSelect) {
+      onToggleSelect(pixelCard.id);
+      return;
+    }
     navigate(`/pixel-card/${pixelCard.id}`);
   };
 
@@ -32,8 +39,12 @@ const PixelCardItem: React.FC<PixelCardItemProps> = ({ pixelCard }) => {
 
   return (
     <div 
-      className="bg-white border-2 border-gray-300 hover:border-black transition-all duration-200 cursor-pointer group"
+      className={`bg-white border-2 transition-all duration-200 cursor-pointer group ${
+        isSelected ? 'border-blue-600' : 'border-gray-300 hover:border-black'
+      }`}
       onClick={handleCardClick}
+      role={onToggleSelect ? 'checkbox' : undefined}
+      aria-checked={onToggleSelect ? isSelected : undefined}
     >
       {/* Image Container */}
       <div className="relative aspect-square bg-gray-100 overflow-hidden">
@@ -52,9 +63,10 @@ const PixelCardItem: React.FC<PixelCardItemProps> = ({ pixelCard }) => {
           <img
             src={pixelCard.imageUrl}
             alt={`Pixel ID for ${pixelCard.userName}`}
-            className={`w-full h-full object-cover transition-all duration-200 group-hover:scale-105 ${
+            className={`w-full h-full object-contain transition-all duration-200 group-hover:scale-105 ${
               imageLoaded ? 'opacity-100' : 'opacity-0'
             }`}
+            style={{ imageRendering: 'pixelated' }} // Stored images are grid-sized, upscale without blurring
             onLoad={() => setImageLoaded(true)}
             onError={() => setImageError(true)}
             loading="lazy"
@@ -64,9 +76,19 @@ const PixelCardItem: React.FC<PixelCardItemProps> = ({ pixelCard }) => {
         {/* Hover Overlay */}
         <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-20 transition-all duration-200 flex items-center justify-center">
           <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 text-white font-bold tracking-wider text-sm">
-            VIEW CARD
+            {onToggleSelect ? (isSelected ? 'DESELECT' : 'SELECT') : 'VIEW CARD'}
           </div>
         </div>
+
+        {onToggleSelect && (
+          <div
+            className={`absolute top-2 left-2 w-6 h-6 border-2 flex items-center justify-center text-sm font-bold ${
+              isSelected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-400'
+            }`}
+          >
+            {isSelected && '✓'}
+          </div>
+        )}
       </div>
 
       {/* Card Info */}
@@ -81,6 +103,11 @@ const PixelCardItem: React.FC<PixelCardItemProps> = ({ pixelCard }) => {
             <span className="tracking-wider">{formatDate(pixelCard.createdAt)}</span>
           </div>
           
+          <div className="flex justify-between items-center">
+            <span className="tracking-wide">Style:</span>
+            <span className="tracking-wider">{getStylePreset(pixelCard.stylePreset).label}</span>
+          </div>
+
           <div className="flex justify-between items-center">
             <span className="tracking-wide">Size:</span>
             <span className="tracking-wider">{formatFileSize(pixelCard.fileSize)}</span>
@@ -0,0 +1,36 @@
+import React from 'react';
+import { listStylePresets } from '../../lib/stylePresets';
+import type { StylePresetId } from '../../lib/stylePresets';
+
+interface StylePresetFilterProps {
+  value: StylePresetId | null;
+  onChange: (presetId: StylePresetId | null) => void;
+}
+
+const StylePresetFilter: React.FC<StylePresetFilterProps> = ({ value, onChange }) => {
+  const filterButtonClass = (isActive: boolean) =>
+    `px-3 py-1 text-sm font-bold tracking-wider border transition-colors duration-200 ${
+      isActive
+        ? 'bg-black text-white border-black'
+        : 'bg-white text-black border-gray-400 hover:bg-gray-100 hover:border-black'
+    }`;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-6" aria-label="Filter by style">
+      <button onClick={() => onChange(null)} className={filterButtonClass(value === null)}>
+        ALL STYLES
+      </button>
+      {listStylePresets().map((preset) => (
+        <button
+          key={preset.id}
+          onClick={() => onChange(preset.id)}
+          className={filterButtonClass(value === preset.id)}
+        >
+          {preset.label.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default StylePresetFilter;
@@ -2,4 +2,5 @@ export { default as GalleryView } from './GalleryView';
 export { default as PixelCardGrid } from './PixelCardGrid';
 export { default as PixelCardItem } from './PixelCardItem';
 export { default as PixelCardDetail } from './PixelCardDetail';
-export { default as PaginationControls } from './PaginationControls';
\ No newline at end of file
+export { default as PaginationControls } from './PaginationControls';
+export { default as StylePresetFilter } from './StylePresetFilter';
\ No newline at end of file
@@ -0,0 +1,48 @@
+import React from 'react';
+import { listBackdrops } from '../../lib/backdrops';
+import type { BackdropId } from '../../lib/backdrops';
+
+interface BackdropPickerProps {
+  value: BackdropId;
+  onChange: (backdropId: BackdropId) => void;
+  disabled?: boolean;
+}
+
+const BackdropPicker: React.FC<BackdropPickerProps> = ({ value, onChange, disabled = false }) => {
+  return (
+    <div className="w-full max-w-sm mx-auto">
+      <p className="text-sm text-gray-700 mb-2 tracking-wide">Backdrop:</p>
+      <div className="grid grid-cols-5 gap-2" role="radiogroup" aria-label="Backdrop">
+        {listBackdrops().map((backdrop) => {
+          const isSelected = backdrop.id === value;
+
+          return (
+            <button
+              key={backdrop.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              aria-label={backdrop.label}
+              disabled={disabled}
+              onClick={() => onChange(backdrop.id)}
+              title={backdrop.label}
+              className={`flex flex-col items-center gap-1 p-1 border-2 rounded-md transition-colors duration-200 ${
+                isSelected
+                  ? 'border-blue-600 bg-blue-50'
+                  : 'border-gray-300 bg-white hover:border-gray-500'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+            >
+              <span
+                className="w-full aspect-square rounded-sm border border-gray-200"
+                style={{ background: backdrop.swatch }}
+              />
+              <span className="text-xs leading-tight truncate w-full text-center">{backdrop.label}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BackdropPicker;
@@ -1,68 +1,174 @@
 import React, { useRef, useEffect, useCallback, useState } from 'react';
+import { useCameraStream } from '../../hooks/useCameraStream';
 import { validateImageData, VALIDATION_LIMITS } from '../../lib/validation';
+import { imageToPixelBuffer } from '../../lib/imageCanvas';
+import { sleep } from '../../lib/retry';
+import {
+  analyzeCapture,
+  getCaptureWarnings,
+  pickSharpestFrame,
+  CAPTURE_ANALYSIS_SIZE,
+  DEFAULT_CAPTURE_ANALYSIS_THRESHOLDS,
+} from '../../lib/captureAnalysis';
+import type { CaptureAnalysisThresholds, CaptureReport } from '../../lib/captureAnalysis';
+import {
+  loadCameraSettings,
+  saveCameraSettings,
+  CAMERA_RESOLUTIONS,
+  COUNTDOWN_OPTIONS,
+} from '../../lib/cameraSettings';
+import type { CameraResolutionId, CameraSettings } from '../../lib/cameraSettings';
+import PhotoUpload from './PhotoUpload';
 
 interface CameraViewProps {
-  onCapture: (imageDataUrl: string) => void;
+  onCapture: (imageDataUrl: string, isMirrored: boolean) => void; // isMirrored: the flip is baked into the image
+  analysisThresholds?: CaptureAnalysisThresholds;
 }
 
-const CameraView: React.FC<CameraViewProps> = ({ onCapture }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+const ANALYSIS_INTERVAL_MS = 600;
+const BURST_FRAME_COUNT = 5;
+const BURST_INTERVAL_MS = 150;
+
+interface CapturedFrame {
+  dataUrl: string;
+  isMirrored: boolean; // Flipped horizontally to match the preview
+  report: CaptureReport | null; // Null when the frame couldn't be analysed
+}
+
+const CameraView: React.FC<CameraViewProps> = ({
+  onCapture,
+  analysisThresholds = DEFAULT_CAPTURE_ANALYSIS_THRESHOLDS,
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [error, setError] = useState<string | null>(null);
   const [isCapturing, setIsCapturing] = useState(false);
-  const [cameraReady, setCameraReady] = useState(false);
-  const [permissionDenied, setPermissionDenied] = useState(false);
+  const [settings, setSettings] = useState<CameraSettings>(() => loadCameraSettings());
+  const [showSettings, setShowSettings] = useState(false);
+  const [liveReport, setLiveReport] = useState<CaptureReport | null>(null);
+  const [pendingCapture, setPendingCapture] = useState<{ frame: CapturedFrame; warnings: string[] } | null>(null);
+  const [countdownRemaining, setCountdownRemaining] = useState<number | null>(null);
+  const [burstFrames, setBurstFrames] = useState<CapturedFrame[] | null>(null);
+  const [selectedFrameIndex, setSelectedFrameIndex] = useState(0);
+  const captureControllerRef = useRef<AbortController | null>(null);
+  const { deviceId, resolution, mirrored, countdownSeconds, burstMode } = settings;
 
-  const startCamera = useCallback(async () => {
-    try {
-      setError(null);
-      setPermissionDenied(false);
-      setCameraReady(false);
+  const updateSettings = (changes: Partial<CameraSettings>) => {
+    setSettings(current => ({ ...current, ...changes }));
+  };
 
-      // Check if getUserMedia is supported
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        throw new Error('Camera access is not supported in this browser');
-      }
+  const { videoRef, cameraReady, error, setError, permissionDenied, devices, startCamera } = useCameraStream({
+    deviceId,
+    resolution,
+    onDeviceUnavailable: () => updateSettings({ deviceId: null }),
+  });
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          facingMode: 'user', 
-          width: { ideal: 480, min: 320 }, 
-          height: { ideal: 640, min: 240 } 
-        },
-      });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.onloadedmetadata = () => {
-          setCameraReady(true);
-        };
-      }
-    } catch (err) {
-      console.error('Camera error:', err);
-      
-      // Set component state
-      if (err instanceof Error) {
-        if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-          setPermissionDenied(true);
-        }
-        setError(err.message);
-      } else {
-        setError('Failed to access camera');
-      }
-    }
-  }, []);
+  useEffect(() => {
+    saveCameraSettings(settings);
+  }, [settings]);
 
   useEffect(() => {
-    startCamera();
     return () => {
-      // Cleanup: stop camera stream when component unmounts
-      if (videoRef.current && videoRef.current.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        stream.getTracks().forEach(track => track.stop());
-      }
+      // Cleanup: stop any capture in progress when component unmounts
+      captureControllerRef.current?.abort();
     };
-  }, [startCamera]);
+  }, []);
+
+  /**
+   * Analyse the current video frame at a small fixed size
+   */
+  const analyzeFrame = useCallback((): CaptureReport | null => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0 || video.videoHeight === 0) return null;
+
+    const scale = CAPTURE_ANALYSIS_SIZE / Math.max(video.videoWidth, video.videoHeight);
+    const buffer = imageToPixelBuffer(
+      video,
+      Math.max(1, Math.round(video.videoWidth * scale)),
+      Math.max(1, Math.round(video.videoHeight * scale))
+    );
+    return analyzeCapture(buffer, analysisThresholds, mirrored);
+  }, [analysisThresholds, mirrored]);
+
+  // Live feedback while the user lines up the shot
+  useEffect(() => {
+    if (!cameraReady || pendingCapture) return;
+
+    const timer = setInterval(() => {
+      try {
+        setLiveReport(analyzeFrame());
+      } catch (err) {
+        console.warn('Frame analysis failed:', err);
+      }
+    }, ANALYSIS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [cameraReady, pendingCapture, analyzeFrame]);
+
+  /**
+   * Grab the current video frame as a validated PNG together with its analysis
+   */
+  const grabFrame = (): CapturedFrame => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) {
+      throw new Error('Camera is not ready. Please wait a moment and try again.');
+    }
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not get canvas context');
+    }
+
+    const videoWidth = video.videoWidth;
+    const videoHeight = video.videoHeight;
+    
+    if (videoWidth === 0 || videoHeight === 0) {
+      throw new Error('Invalid video dimensions. Please ensure camera is working properly.');
+    }
+    
+    // Keep the whole frame; the square crop is chosen in the photo editor
+    canvas.width = videoWidth;
+    canvas.height = videoHeight;
+    
+    // Bake the preview's mirroring into the pixels so every later view shows
+    // the card exactly as it looked on screen
+    if (mirrored) {
+      context.translate(videoWidth, 0);
+      context.scale(-1, 1);
+    }
+    context.drawImage(video, 0, 0, videoWidth, videoHeight);
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    
+    // Generate image data with quality settings
+    const dataUrl = canvas.toDataURL('image/png', 0.9);
+    
+    // Validate the captured image
+    const validation = validateImageData.validate(dataUrl);
+    if (!validation.isValid) {
+      throw new Error(`Image validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    // Check estimated file size
+    const base64Data = dataUrl.split(',')[1];
+    const estimatedSize = (base64Data.length * 3) / 4;
+    
+    if (estimatedSize > VALIDATION_LIMITS.IMAGE_MAX_SIZE_BYTES) {
+      throw new Error(`Image is too large (${Math.round(estimatedSize / (1024 * 1024))}MB). Maximum allowed size is ${VALIDATION_LIMITS.IMAGE_MAX_SIZE_BYTES / (1024 * 1024)}MB.`);
+    }
+
+    return { dataUrl, isMirrored: mirrored, report: analyzeFrame() };
+  };
+
+  const finishCapture = (frame: CapturedFrame) => {
+    setBurstFrames(null);
+
+    // Warn before the image goes on to a costly generation
+    if (frame.report && !frame.report.passed) {
+      setPendingCapture({ frame, warnings: getCaptureWarnings(frame.report) });
+      return;
+    }
+
+    // Success - pass the validated image to parent
+    onCapture(frame.dataUrl, frame.isMirrored);
+  };
 
   const capturePhoto = async () => {
     if (!videoRef.current || !canvasRef.current || !cameraReady) {
@@ -70,56 +176,38 @@ const CameraView: React.FC<CameraViewProps> = ({ onCapture }) => {
       return;
     }
 
+    const controller = new AbortController();
+    captureControllerRef.current = controller;
     setIsCapturing(true);
+    setBurstFrames(null);
     setError(null);
 
     try {
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      
-      const context = canvas.getContext('2d');
-      if (!context) {
-        throw new Error('Could not get canvas context');
+      for (let remaining = countdownSeconds; remaining > 0; remaining--) {
+        setCountdownRemaining(remaining);
+        await sleep(1000, controller.signal);
       }
+      setCountdownRemaining(null);
 
-      const videoWidth = video.videoWidth;
-      const videoHeight = video.videoHeight;
-      
-      if (videoWidth === 0 || videoHeight === 0) {
-        throw new Error('Invalid video dimensions. Please ensure camera is working properly.');
+      if (!burstMode) {
+        finishCapture(grabFrame());
+        return;
       }
-      
-      // Crop to a square from the center of the video stream
-      const size = Math.min(videoWidth, videoHeight);
-      const sx = (videoWidth - size) / 2;
-      const sy = (videoHeight - size) / 2;
 
-      canvas.width = size;
-      canvas.height = size;
-      
-      context.drawImage(video, sx, sy, size, size, 0, 0, size, size);
-      
-      // Generate image data with quality settings
-      const dataUrl = canvas.toDataURL('image/png', 0.9);
-      
-      // Validate the captured image
-      const validation = validateImageData.validate(dataUrl);
-      if (!validation.isValid) {
-        throw new Error(`Image validation failed: ${validation.errors.join(', ')}`);
+      const frames: CapturedFrame[] = [];
+      for (let i = 0; i < BURST_FRAME_COUNT; i++) {
+        if (i > 0) await sleep(BURST_INTERVAL_MS, controller.signal);
+        frames.push(grabFrame());
       }
 
-      // Check estimated file size
-      const base64Data = dataUrl.split(',')[1];
-      const estimatedSize = (base64Data.length * 3) / 4;
-      
-      if (estimatedSize > VALIDATION_LIMITS.IMAGE_MAX_SIZE_BYTES) {
-        throw new Error(`Image is too large (${Math.round(estimatedSize / (1024 * 1024))}MB). Maximum allowed size is ${VALIDATION_LIMITS.IMAGE_MAX_SIZE_BYTES / (1024 * 1024)}MB.`);
-      }
-
-      // Success - pass the validated image to parent
-      onCapture(dataUrl);
+      // Preselect the sharpest frame; the user can still pick another
+      const sharpest = pickSharpestFrame(frames.map(frame => frame.report));
+      setBurstFrames(frames);
+      setSelectedFrameIndex(Math.max(0, sharpest));
       
     } catch (err) {
+      if (controller.signal.aborted) return;
+
       console.error('Error capturing photo:', err);
       if (err instanceof Error) {
         setError(err.message);
@@ -127,9 +215,20 @@ const CameraView: React.FC<CameraViewProps> = ({ onCapture }) => {
         setError('Failed to capture photo. Please try again.');
       }
     } finally {
-      setIsCapturing(false);
+      if (captureControllerRef.current === controller) {
+        captureControllerRef.current = null;
+        setIsCapturing(false);
+        setCountdownRemaining(null);
+      }
     }
   };
+
+  const cancelCapture = () => {
+    captureControllerRef.current?.abort();
+    captureControllerRef.current = null;
+    setIsCapturing(false);
+    setCountdownRemaining(null);
+  };
   
   if (error) {
     return (
@@ -158,6 +257,11 @@ const CameraView: React.FC<CameraViewProps> = ({ onCapture }) => {
             RETRY
           </button>
         )}
+
+        {/* No camera or no permission: uploading a photo still works */}
+        <div className="w-full max-w-xs mt-6">
+          <PhotoUpload onCapture={dataUrl => onCapture(dataUrl, false)} />
+        </div>
       </div>
     );
   }
@@ -178,7 +282,7 @@ const CameraView: React.FC<CameraViewProps> = ({ onCapture }) => {
           autoPlay
           playsInline
           muted
-          className={`w-full h-full object-cover transform -scale-x-100 transition-opacity duration-300 ${
+          className={`w-full h-full object-cover transform ${mirrored ? '-scale-x-100' : ''} transition-opacity duration-300 ${
             cameraReady ? 'opacity-100' : 'opacity-0'
           }`}
         />
@@ -192,30 +296,211 @@ const CameraView: React.FC<CameraViewProps> = ({ onCapture }) => {
                 <div className="text-xs">in the center</div>
               </div>
             </div>
+            {countdownRemaining !== null && (
+              <div className="absolute inset-0 flex items-center justify-center">
+                <span className="text-white text-8xl font-bold drop-shadow-lg" aria-live="assertive">
+                  {countdownRemaining}
+                </span>
+              </div>
+            )}
+            {liveReport && !liveReport.passed && (
+              <div className="absolute bottom-2 left-2 right-2 bg-yellow-400/90 text-black text-xs rounded-md p-2 text-left">
+                {getCaptureWarnings(liveReport).map(warning => (
+                  <div key={warning}>⚠️ {warning}</div>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
+
+      {burstFrames && (
+        <div className="w-full">
+          <p className="text-sm text-gray-700 mb-2 tracking-wide">Pick a frame (sharpest preselected):</p>
+          <div className="grid grid-cols-5 gap-2" role="radiogroup" aria-label="Burst frames">
+            {burstFrames.map((frame, index) => {
+              const isSelected = index === selectedFrameIndex;
+              return (
+                <button
+                  key={index}
+                  type="button"
+                  role="radio"
+                  aria-checked={isSelected}
+                  aria-label={`Frame ${index + 1}`}
+                  onClick={() => setSelectedFrameIndex(index)}
+                  className={`relative aspect-square rounded-md overflow-hidden border-2 transition-colors duration-200 ${
+                    isSelected ? 'border-blue-600' : 'border-gray-300 hover:border-gray-500'
+                  }`}
+                >
+                  <img src={frame.dataUrl} alt={`Frame ${index + 1}`} className="w-full h-full object-cover" />
+                  {frame.report && !frame.report.passed && (
+                    <span className="absolute top-0 right-0 text-xs bg-yellow-400 px-1" title={getCaptureWarnings(frame.report).join(' ')}>⚠️</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={() => setBurstFrames(null)}
+              className="flex-1 bg-gray-200 text-black py-2 px-4 rounded-md hover:bg-gray-300 font-bold tracking-wider transition-colors duration-200 border border-gray-400"
+            >
+              Discard
+            </button>
+            <button
+              onClick={() => finishCapture(burstFrames[selectedFrameIndex])}
+              className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-500 font-bold tracking-wider transition-colors duration-200"
+            >
+              Use frame
+            </button>
+          </div>
+        </div>
+      )}
+
+      {pendingCapture && (
+        <div className="w-full bg-yellow-50 border border-yellow-300 rounded-md p-4 text-sm text-yellow-900">
+          <p className="font-semibold mb-2">This photo may give a poor result:</p>
+          <ul className="list-disc pl-5 mb-3 space-y-1">
+            {pendingCapture.warnings.map(warning => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPendingCapture(null)}
+              className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-500 font-bold tracking-wider transition-colors duration-200"
+            >
+              Retake
+            </button>
+            <button
+              onClick={() => {
+                const { frame } = pendingCapture;
+                setPendingCapture(null);
+                onCapture(frame.dataUrl, frame.isMirrored);
+              }}
+              className="flex-1 bg-gray-200 text-black py-2 px-4 rounded-md hover:bg-gray-300 font-bold tracking-wider transition-colors duration-200 border border-gray-400"
+            >
+              Use anyway
+            </button>
+          </div>
+        </div>
+      )}
       
       <canvas ref={canvasRef} className="hidden" />
-      
-      <button
-        onClick={capturePhoto}
-        disabled={!cameraReady || isCapturing}
-        className={`w-full text-2xl font-bold py-4 px-6 rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white ${
-          cameraReady && !isCapturing
-            ? 'bg-blue-600 text-white hover:bg-blue-500 active:bg-blue-700 transform hover:scale-105 active:scale-100 focus:ring-blue-500 cursor-pointer'
-            : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-        }`}
-      >
-        {isCapturing ? (
-          <div className="flex items-center justify-center gap-2">
-            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-            Capturing...
+
+      <div className="w-full flex items-center justify-between gap-3 text-sm text-gray-700">
+        <div className="flex items-center gap-1" role="radiogroup" aria-label="Countdown">
+          <span className="mr-1 tracking-wide">Timer:</span>
+          {COUNTDOWN_OPTIONS.map(seconds => (
+            <button
+              key={seconds}
+              type="button"
+              role="radio"
+              aria-checked={countdownSeconds === seconds}
+              disabled={isCapturing}
+              onClick={() => updateSettings({ countdownSeconds: seconds })}
+              className={`py-1 px-2 rounded-md border transition-colors duration-200 ${
+                countdownSeconds === seconds
+                  ? 'border-blue-600 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 bg-white hover:border-gray-500'
+              }`}
+            >
+              {seconds === 0 ? 'Off' : `${seconds}s`}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={burstMode}
+            disabled={isCapturing}
+            onChange={event => updateSettings({ burstMode: event.target.checked })}
+          />
+          Burst ({BURST_FRAME_COUNT} frames)
+        </label>
+      </div>
+
+      <div className="w-full text-sm text-gray-700">
+        <button
+          type="button"
+          onClick={() => setShowSettings(show => !show)}
+          aria-expanded={showSettings}
+          className="tracking-wide underline hover:text-black"
+        >
+          {showSettings ? '▾' : '▸'} Camera settings
+        </button>
+        {showSettings && (
+          <div className="mt-2 flex flex-col gap-2 border border-gray-200 rounded-md p-3 bg-gray-50">
+            <label className="flex items-center gap-2">
+              <span className="w-24">Camera</span>
+              <select
+                value={deviceId ?? ''}
+                disabled={isCapturing}
+                onChange={event => updateSettings({ deviceId: event.target.value || null })}
+                className="flex-1 border border-gray-300 rounded-md p-1 bg-white"
+              >
+                <option value="">Default (front camera)</option>
+                {devices.map((device, index) => (
+                  <option key={device.deviceId || index} value={device.deviceId}>
+                    {device.label || `Camera ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-24">Resolution</span>
+              <select
+                value={resolution}
+                disabled={isCapturing}
+                onChange={event => updateSettings({ resolution: event.target.value as CameraResolutionId })}
+                className="flex-1 border border-gray-300 rounded-md p-1 bg-white"
+              >
+                {Object.values(CAMERA_RESOLUTIONS).map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={mirrored}
+                onChange={event => updateSettings({ mirrored: event.target.checked })}
+              />
+              Mirror image
+            </label>
           </div>
-        ) : (
-          'Capture 📸'
         )}
-      </button>
+      </div>
+      
+      {countdownRemaining !== null ? (
+        <button
+          onClick={cancelCapture}
+          className="w-full text-2xl font-bold py-4 px-6 rounded-md transition-all duration-200 bg-gray-800 text-white hover:bg-gray-700"
+        >
+          Cancel ({countdownRemaining})
+        </button>
+      ) : (
+        <button
+          onClick={capturePhoto}
+          disabled={!cameraReady || isCapturing || pendingCapture !== null || burstFrames !== null}
+          className={`w-full text-2xl font-bold py-4 px-6 rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white ${
+            cameraReady && !isCapturing && !pendingCapture && !burstFrames
+              ? 'bg-blue-600 text-white hover:bg-blue-500 active:bg-blue-700 transform hover:scale-105 active:scale-100 focus:ring-blue-500 cursor-pointer'
+              : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+          }`}
+        >
+          {isCapturing ? (
+            <div className="flex items-center justify-center gap-2">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+              Capturing...
+            </div>
+          ) : (
+            'Capture 📸'
+          )}
+        </button>
+      )}
+
+      <PhotoUpload onCapture={dataUrl => onCapture(dataUrl, false)} compact />
       
       {/* Help text */}
       <div className="text-xs text-gray-500 text-center max-w-xs">
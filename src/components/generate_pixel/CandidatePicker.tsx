@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { GeneratedCandidate } from '../../services/candidateGenerator';
+
+interface CandidatePickerProps {
+  candidates: GeneratedCandidate[];
+  onSelect: (candidate: GeneratedCandidate) => void;
+  onRetake: () => void;
+}
+
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, onSelect, onRetake }) => {
+  const [selectedId, setSelectedId] = useState<string>(candidates[0]?.id ?? '');
+  const selected = candidates.find(candidate => candidate.id === selectedId) ?? null;
+
+  return (
+    <div className="w-full max-w-md mx-auto flex flex-col items-center gap-4">
+      <p className="text-lg text-center text-gray-700">Pick your favourite:</p>
+
+      <div className="grid grid-cols-2 gap-3 w-full" role="radiogroup" aria-label="Generated candidates">
+        {candidates.map((candidate, index) => {
+          const isSelected = candidate.id === selectedId;
+
+          return (
+            <button
+              key={candidate.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              aria-label={`Candidate ${index + 1}`}
+              onClick={() => setSelectedId(candidate.id)}
+              onDoubleClick={() => onSelect(candidate)}
+              className={`relative aspect-square bg-white border-4 rounded-lg overflow-hidden transition-all duration-200 ${
+                isSelected ? 'border-blue-600 scale-105' : 'border-gray-300 hover:border-gray-500'
+              }`}
+            >
+              <img
+                src={candidate.imageData}
+                alt={`Pixel art candidate ${index + 1}`}
+                className="w-full h-full object-contain"
+                style={{ imageRendering: 'pixelated' }}
+              />
+              {candidate.qualityReport && !candidate.qualityReport.passed && (
+                <span
+                  className="absolute top-1 right-1 text-lg"
+                  title="This variant didn't pass every quality check"
+                >
+                  ⚠️
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        <button
+          onClick={onRetake}
+          className="bg-gray-800 text-white text-lg font-bold py-2 px-6 rounded-md hover:bg-gray-700 active:bg-gray-900 transition-all duration-200"
+        >
+          Retake
+        </button>
+        <button
+          onClick={() => selected && onSelect(selected)}
+          disabled={!selected}
+          className="bg-blue-600 text-white text-lg font-bold py-2 px-6 rounded-md hover:bg-blue-500 active:bg-blue-700 transition-all duration-200 disabled:bg-gray-300 disabled:text-gray-500"
+        >
+          Use this one →
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CandidatePicker;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { listCardTemplates } from '../../lib/cardTemplates';
+import type { CardTemplateId } from '../../lib/cardTemplates';
+
+interface CardTemplatePickerProps {
+  value: CardTemplateId;
+  onChange: (templateId: CardTemplateId) => void;
+  disabled?: boolean;
+}
+
+const CardTemplatePicker: React.FC<CardTemplatePickerProps> = ({ value, onChange, disabled = false }) => {
+  return (
+    <div className="w-full max-w-sm mx-auto">
+      <p className="text-sm text-gray-700 mb-2 tracking-wide">Card template:</p>
+      <div className="grid grid-cols-4 gap-2" role="radiogroup" aria-label="Card template">
+        {listCardTemplates().map((template) => {
+          const isSelected = template.id === value;
+
+          return (
+            <button
+              key={template.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              aria-label={template.label}
+              disabled={disabled}
+              onClick={() => onChange(template.id)}
+              title={template.description}
+              className={`flex flex-col items-center gap-1 p-1 border-2 rounded-md transition-colors duration-200 ${
+                isSelected
+                  ? 'border-blue-600 bg-blue-50'
+                  : 'border-gray-300 bg-white hover:border-gray-500'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+            >
+              {/* Thumbnail in the template's proportions and colours */}
+              <span className="w-full aspect-square flex items-center justify-center">
+                <span
+                  className="block max-w-full max-h-full"
+                  style={{
+                    aspectRatio: `${template.width} / ${template.height}`,
+                    width: template.width >= template.height ? '100%' : 'auto',
+                    height: template.width >= template.height ? 'auto' : '100%',
+                    background: template.colors.background,
+                    border: `3px solid ${template.colors.frame}`,
+                    borderRadius: 4,
+                  }}
+                />
+              </span>
+              <span className="text-xs leading-tight truncate w-full text-center">{template.label}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CardTemplatePicker;
@@ -1,50 +1,65 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
+import { renderCardToBlob, downloadBlob, cardFileName } from '../../lib/cardRenderer';
+import type { CardField } from '../../lib/cardRenderer';
+import { getCardTemplate } from '../../lib/cardTemplates';
+import { pixelArtToSvgBlob } from '../../lib/pixelSvg';
+import type { CardTemplateId } from '../../lib/cardTemplates';
+import { CardPreview } from '../card';
 
 interface FramedPhotoProps {
   imageSrc: string;
   name: string;
+  fields?: CardField[]; // Badge details shown under the name
+  templateId: CardTemplateId;
+  gridSize: number; // Art pixels per side, used to trace the SVG export
+  cardUrl?: string; // Link for the card's QR code, known once the card is saved
   onRetake: () => void;
   onReset: () => void;
+  onSave?: () => void;
+  isSaving?: boolean;
+  isSaved?: boolean;
 }
 
-const FramedPhoto: React.FC<FramedPhotoProps> = ({ imageSrc, name, onRetake, onReset }) => {
+const FramedPhoto: React.FC<FramedPhotoProps> = ({ imageSrc, name, fields, templateId, gridSize, cardUrl, onRetake, onReset, onSave, isSaving = false, isSaved = false }) => {
 
-  const handleDownload = useCallback(() => {
-    const link = document.createElement('a');
-    link.download = `${name.toLowerCase().replace(/ /g, '_')}_pixel_art.png`;
-    link.href = imageSrc;
-    link.click();
-  }, [name, imageSrc]);
+  const template = getCardTemplate(templateId);
+  const content = useMemo(() => ({ name, imageSrc, fields, qrUrl: cardUrl }), [name, imageSrc, fields, cardUrl]);
+  const [isDownloading, setIsDownloading] = useState<boolean>(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
 
-  return (
-    <div className="flex flex-col items-center gap-6">
-        <div className="bg-white text-black p-4 border-8 border-blue-200 rounded-3xl w-full max-w-sm mx-auto shadow-[0_0_20px_8px_rgba(147,197,253,0.6)]">
-            {/* Header */}
-            <div className="flex items-center justify-center my-2">
-                <span className="mx-4 text-2xl tracking-widest uppercase text-center">{name}</span>
-            </div>
+  // Download the whole framed card, rendered at print scale
+  const handleDownload = useCallback(async () => {
+    setIsDownloading(true);
+    setDownloadError(null);
+    try {
+      const blob = await renderCardToBlob(template, content);
+      downloadBlob(blob, cardFileName(name));
+    } catch (err) {
+      console.error('Failed to render card for download:', err);
+      setDownloadError('Could not create the card image. Please try again.');
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [template, content, name]);
 
-            {/* Image */}
-            <div className="border border-gray-300 p-1 aspect-square bg-white">
-                <img 
-                    src={imageSrc} 
-                    alt="Pixelated capture" 
-                    className="w-full h-full object-contain transform -scale-x-100" // Use object-contain to respect transparency
-                    style={{ imageRendering: 'pixelated' }} // CSS for crisp edges
-                />
-            </div>
+  // Download the pixel art alone as a lossless SVG
+  const handleDownloadSvg = useCallback(async () => {
+    setIsDownloading(true);
+    setDownloadError(null);
+    try {
+      const blob = await pixelArtToSvgBlob(imageSrc, gridSize, { title: name });
+      downloadBlob(blob, cardFileName(name, 'svg'));
+    } catch (err) {
+      console.error('Failed to export pixel art as SVG:', err);
+      setDownloadError('Could not create the SVG. Please try again.');
+    } finally {
+      setIsDownloading(false);
+    }
+  }, [imageSrc, gridSize, name]);
 
-            {/* Footer Section */}
-            <div className="border border-gray-300 mt-3 p-1 flex items-stretch gap-1 text-xs rounded-lg">
-                <div className="bg-gray-100 p-2 text-center leading-tight w-2/5 rounded-md flex items-center justify-center uppercase">
-                    <span className="break-words">BUILD WITH LOVE ❤️ BY NO-SPACE</span>
-                </div>
-                <div className="p-2 text-center leading-tight w-3/5 break-words flex items-center justify-center uppercase">
-                    <span className="font-semibold tracking-wider">Scan My ID Using No-Space App 📱</span>
-                </div>
-            </div>
-            <div className="h-1.5 bg-blue-200 rounded-full mt-2 mx-4"></div>
-        </div>
+  return (
+    <div className="flex flex-col items-center gap-6">
+        <CardPreview template={template} content={content} className="mx-auto" />
 
         <div className="flex flex-wrap items-center justify-center gap-4">
             <button
@@ -59,13 +74,31 @@ const FramedPhoto: React.FC<FramedPhotoProps> = ({ imageSrc, name, onRetake, onR
             >
                 Start Over
             </button>
+            {onSave && (
+                <button
+                    onClick={onSave}
+                    disabled={isSaving || isSaved}
+                    className="bg-purple-600 text-white text-lg font-bold py-2 px-6 rounded-md hover:bg-purple-500 active:bg-purple-700 transition-all duration-200 disabled:bg-gray-300 disabled:text-gray-500"
+                >
+                    {isSaved ? 'Saved ✓' : isSaving ? 'Saving...' : 'Save to Gallery'}
+                </button>
+            )}
             <button
                 onClick={handleDownload}
-                className="bg-green-600 text-white text-lg font-bold py-2 px-6 rounded-md hover:bg-green-500 active:bg-green-700 transition-all duration-200"
+                disabled={isDownloading}
+                className="bg-green-600 text-white text-lg font-bold py-2 px-6 rounded-md hover:bg-green-500 active:bg-green-700 transition-all duration-200 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+                {isDownloading ? 'Preparing...' : 'Download 💾'}
+            </button>
+            <button
+                onClick={handleDownloadSvg}
+                disabled={isDownloading}
+                className="bg-teal-600 text-white text-lg font-bold py-2 px-6 rounded-md hover:bg-teal-500 active:bg-teal-700 transition-all duration-200 disabled:bg-gray-300 disabled:text-gray-500"
             >
-                Download 💾
+                SVG ✂️
             </button>
         </div>
+        {downloadError && <p className="text-red-500 text-sm">{downloadError}</p>}
     </div>
   );
 };
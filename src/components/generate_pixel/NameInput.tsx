@@ -1,27 +1,41 @@
 import React, { useState, useEffect } from 'react';
-import { validateUserName, sanitizeUserName, VALIDATION_LIMITS } from '../../lib/validation';
+import { validateUserName, validateCardDetails, sanitizeUserName, VALIDATION_LIMITS } from '../../lib/validation';
+import { cardDetailsToRequest, EMPTY_CARD_DETAILS } from '../../lib/cardDetails';
+import type { CardDetailKey, CardDetails } from '../../lib/cardDetails';
 
 interface NameInputProps {
-  onSubmit: (name: string) => void;
+  onSubmit: (name: string, details: CardDetails) => void;
 }
 
+const DETAIL_INPUTS: { key: CardDetailKey; label: string; type: 'text' | 'date'; placeholder?: string; maxLength?: number }[] = [
+  { key: 'jobTitle', label: 'Job title', type: 'text', placeholder: 'e.g. Designer', maxLength: VALIDATION_LIMITS.CARD_DETAIL_MAX_LENGTH },
+  { key: 'team', label: 'Team or department', type: 'text', placeholder: 'e.g. Product', maxLength: VALIDATION_LIMITS.CARD_DETAIL_MAX_LENGTH },
+  { key: 'organization', label: 'Organisation', type: 'text', placeholder: 'e.g. No-Space', maxLength: VALIDATION_LIMITS.CARD_DETAIL_MAX_LENGTH },
+  { key: 'badgeNumber', label: 'Badge number', type: 'text', placeholder: 'Assigned automatically', maxLength: VALIDATION_LIMITS.BADGE_NUMBER_MAX_LENGTH },
+  { key: 'issueDate', label: 'Issue date', type: 'date' },
+  { key: 'expiryDate', label: 'Expiry date', type: 'date' },
+];
+
 const NameInput: React.FC<NameInputProps> = ({ onSubmit }) => {
   const [name, setName] = useState('');
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [isValid, setIsValid] = useState(false);
   const [showErrors, setShowErrors] = useState(false);
+  const [details, setDetails] = useState<CardDetails>(EMPTY_CARD_DETAILS);
+  const [showDetails, setShowDetails] = useState(false);
 
-  // Validate name in real-time
+  // Validate name and badge details in real-time
   useEffect(() => {
+    const detailsValidation = validateCardDetails.validate(cardDetailsToRequest(details));
     if (name.length > 0) {
       const validation = validateUserName.validate(name);
-      setValidationErrors(validation.errors);
-      setIsValid(validation.isValid);
+      setValidationErrors([...validation.errors, ...detailsValidation.errors]);
+      setIsValid(validation.isValid && detailsValidation.isValid);
     } else {
-      setValidationErrors([]);
+      setValidationErrors(detailsValidation.errors);
       setIsValid(false);
     }
-  }, [name]);
+  }, [name, details]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -34,9 +48,15 @@ const NameInput: React.FC<NameInputProps> = ({ onSubmit }) => {
     setShowErrors(false);
   };
 
+  const handleDetailChange = (key: CardDetailKey) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setDetails(current => ({ ...current, [key]: value }));
+    setShowErrors(false);
+  };
+
   const handleInputBlur = () => {
     // Show validation errors when user leaves the input field
-    if (name.length > 0) {
+    if (name.length > 0 || validationErrors.length > 0) {
       setShowErrors(true);
     }
   };
@@ -47,7 +67,7 @@ const NameInput: React.FC<NameInputProps> = ({ onSubmit }) => {
 
     if (isValid && name.trim()) {
       const sanitizedName = sanitizeUserName(name);
-      onSubmit(sanitizedName);
+      onSubmit(sanitizedName, details);
     }
   };
 
@@ -88,6 +108,35 @@ const NameInput: React.FC<NameInputProps> = ({ onSubmit }) => {
           </div>
         </div>
 
+        {/* Optional badge details */}
+        {showDetails ? (
+          <fieldset className="border border-gray-200 rounded-md p-3 grid grid-cols-2 gap-3">
+            <legend className="text-sm text-gray-700 px-1">Badge details (optional)</legend>
+            {DETAIL_INPUTS.map(({ key, label, type, placeholder, maxLength }) => (
+              <label key={key} className={`flex flex-col gap-1 text-xs text-gray-600 ${type === 'text' ? 'col-span-2' : ''}`}>
+                {label}
+                <input
+                  type={type}
+                  value={details[key]}
+                  onChange={handleDetailChange(key)}
+                  onBlur={handleInputBlur}
+                  placeholder={placeholder}
+                  maxLength={maxLength}
+                  className="w-full bg-white border border-gray-300 text-black text-sm p-2 rounded-md focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                />
+              </label>
+            ))}
+          </fieldset>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setShowDetails(true)}
+            className="text-sm text-blue-600 hover:text-blue-800 underline"
+          >
+            + Add job title, team, badge number and dates
+          </button>
+        )}
+
         {/* Validation errors */}
         {showErrors && validationErrors.length > 0 && (
           <div className="bg-red-50 border border-red-200 rounded-md p-3">
@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { loadImage } from '../../lib/imageCanvas';
+import {
+  clampCropTransform,
+  cropTransformToCss,
+  initialCropTransform,
+  panCropTransform,
+  renderCrop,
+  CROP_LIMITS,
+} from '../../lib/cropTransform';
+import type { CropTransform } from '../../lib/cropTransform';
+
+interface PhotoEditorProps {
+  imageDataUrl: string; // Full captured frame or uploaded photo
+  onConfirm: (croppedDataUrl: string) => void;
+  onCancel: () => void;
+}
+
+const ZOOM_STEP = 0.1;
+const ROTATION_STEP = 1;
+const PAN_STEP = 10; // Viewport pixels per arrow key press
+
+const PhotoEditor: React.FC<PhotoEditorProps> = ({ imageDataUrl, onConfirm, onCancel }) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const pinchDistanceRef = useRef<number | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [transform, setTransform] = useState<CropTransform | null>(null);
+  const [viewportSize, setViewportSize] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageDataUrl)
+      .then(loaded => {
+        if (cancelled) return;
+        setImage(loaded);
+        setTransform(initialCropTransform({ width: loaded.naturalWidth, height: loaded.naturalHeight }));
+      })
+      .catch(err => {
+        console.error('Error loading photo for editing:', err);
+        if (!cancelled) setError('Could not load the photo. Please retake it.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageDataUrl]);
+
+  // Track the rendered viewport size so the preview matches the output crop
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const observer = new ResizeObserver(() => setViewportSize(viewport.clientWidth));
+    observer.observe(viewport);
+    setViewportSize(viewport.clientWidth);
+    return () => observer.disconnect();
+  }, [image]);
+
+  // React wheel listeners are passive, so register one that can stop the page scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !image) return;
+
+    const size = { width: image.naturalWidth, height: image.naturalHeight };
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor = event.deltaY < 0 ? 1 + ZOOM_STEP : 1 / (1 + ZOOM_STEP);
+      setTransform(current => current && clampCropTransform({ ...current, zoom: current.zoom * factor }, size));
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [image]);
+
+  const imageSize = image ? { width: image.naturalWidth, height: image.naturalHeight } : null;
+
+  const update = (next: (current: CropTransform) => CropTransform) => {
+    if (!imageSize) return;
+    setTransform(current => current && clampCropTransform(next(current), imageSize));
+  };
+
+  const pan = (dx: number, dy: number) => {
+    if (!imageSize || viewportSize === 0) return;
+    setTransform(current => current && panCropTransform(current, imageSize, dx, dy, viewportSize));
+  };
+
+  const zoomBy = (factor: number) => update(current => ({ ...current, zoom: current.zoom * factor }));
+  const rotateTo = (rotation: number) => update(current => ({ ...current, rotation }));
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    pinchDistanceRef.current = null;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (pointers.size === 1) {
+      pan(event.clientX - previous.x, event.clientY - previous.y);
+      return;
+    }
+
+    // Two fingers: zoom by the change in distance between them
+    const [first, second] = [...pointers.values()];
+    const distance = Math.hypot(first.x - second.x, first.y - second.y);
+    if (pinchDistanceRef.current !== null && pinchDistanceRef.current > 0) {
+      zoomBy(distance / pinchDistanceRef.current);
+    }
+    pinchDistanceRef.current = distance;
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(event.pointerId);
+    pinchDistanceRef.current = null;
+  };
+
+  const handleConfirm = () => {
+    if (!image || !transform) return;
+    try {
+      onConfirm(renderCrop(image, transform));
+    } catch (err) {
+      console.error('Error cropping photo:', err);
+      setError('Failed to crop the photo. Please try again.');
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? PAN_STEP * 4 : PAN_STEP;
+    const handled: Record<string, () => void> = {
+      ArrowLeft: () => pan(step, 0),
+      ArrowRight: () => pan(-step, 0),
+      ArrowUp: () => pan(0, step),
+      ArrowDown: () => pan(0, -step),
+      '+': () => zoomBy(1 + ZOOM_STEP),
+      '=': () => zoomBy(1 + ZOOM_STEP),
+      '-': () => zoomBy(1 / (1 + ZOOM_STEP)),
+      '[': () => update(current => ({ ...current, rotation: current.rotation - ROTATION_STEP })),
+      ']': () => update(current => ({ ...current, rotation: current.rotation + ROTATION_STEP })),
+      '{': () => update(current => ({ ...current, rotation: current.rotation - 90 })),
+      '}': () => update(current => ({ ...current, rotation: current.rotation + 90 })),
+      Enter: handleConfirm,
+      Escape: onCancel,
+    };
+
+    const action = handled[event.key];
+    if (action) {
+      event.preventDefault();
+      action();
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="w-full max-w-md mx-auto flex flex-col items-center gap-4 text-center">
+        <p className="text-red-500 text-sm">{error}</p>
+        <button
+          onClick={onCancel}
+          className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-500 font-bold tracking-wider transition-colors duration-200"
+        >
+          RETAKE
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md mx-auto flex flex-col items-center gap-4">
+      <div
+        ref={viewportRef}
+        tabIndex={0}
+        role="application"
+        aria-label="Photo crop. Drag or use arrow keys to move, + and - to zoom, [ and ] to rotate (shift for 90 degrees), Enter to confirm."
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        className="w-full aspect-square rounded-lg overflow-hidden bg-gray-900 relative border-4 border-gray-300 cursor-move touch-none select-none focus:outline-none focus:border-blue-500"
+      >
+        {image && transform && imageSize && viewportSize > 0 ? (
+          <img
+            src={imageDataUrl}
+            alt="Photo being cropped"
+            draggable={false}
+            className="absolute top-0 left-0 max-w-none pointer-events-none"
+            style={{
+              width: imageSize.width,
+              height: imageSize.height,
+              transformOrigin: '0 0',
+              transform: cropTransformToCss(transform, imageSize, viewportSize),
+            }}
+          />
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+          </div>
+        )}
+
+        {/* Rule-of-thirds guide */}
+        <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+          {Array.from({ length: 9 }, (_, index) => (
+            <div key={index} className="border border-white/20" />
+          ))}
+        </div>
+      </div>
+
+      {transform && (
+        <div className="w-full flex flex-col gap-3 text-sm text-gray-700">
+          <label className="flex items-center gap-3">
+            <span className="w-16 tracking-wide">Zoom</span>
+            <input
+              type="range"
+              min={1}
+              max={CROP_LIMITS.MAX_ZOOM}
+              step={0.01}
+              value={transform.zoom}
+              onChange={event => update(current => ({ ...current, zoom: Number(event.target.value) }))}
+              className="flex-1"
+            />
+          </label>
+          <label className="flex items-center gap-3">
+            <span className="w-16 tracking-wide">Rotate</span>
+            <input
+              type="range"
+              min={CROP_LIMITS.ROTATION_MIN}
+              max={CROP_LIMITS.ROTATION_MAX}
+              step={ROTATION_STEP}
+              value={transform.rotation}
+              onChange={event => rotateTo(Number(event.target.value))}
+              className="flex-1"
+            />
+            <span className="w-12 text-right">{Math.round(transform.rotation)}°</span>
+          </label>
+          <div className="flex justify-center gap-2">
+            <button
+              type="button"
+              onClick={() => rotateTo(transform.rotation - 90)}
+              className="bg-gray-200 text-black py-1 px-3 rounded-md hover:bg-gray-300 border border-gray-400"
+            >
+              ↺ 90°
+            </button>
+            <button
+              type="button"
+              onClick={() => rotateTo(transform.rotation + 90)}
+              className="bg-gray-200 text-black py-1 px-3 rounded-md hover:bg-gray-300 border border-gray-400"
+            >
+              ↻ 90°
+            </button>
+            <button
+              type="button"
+              onClick={() => imageSize && setTransform(initialCropTransform(imageSize))}
+              className="bg-gray-200 text-black py-1 px-3 rounded-md hover:bg-gray-300 border border-gray-400"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="w-full flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 text-black py-3 px-4 rounded-md font-bold tracking-wider hover:bg-gray-300 transition-colors duration-200 border border-gray-400"
+        >
+          Retake
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={!transform}
+          className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-md font-bold tracking-wider hover:bg-blue-500 active:bg-blue-700 transition-colors duration-200 disabled:bg-gray-300 disabled:text-gray-500"
+        >
+          Use this crop
+        </button>
+      </div>
+
+      <div className="text-xs text-gray-500 text-center max-w-xs">
+        Drag to move, pinch or scroll to zoom. Keep your whole head inside the square.
+      </div>
+    </div>
+  );
+};
+
+export default PhotoEditor;
@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { loadPhotoFile } from '../../lib/photoUpload';
+import { VALIDATION_LIMITS } from '../../lib/validation';
+
+interface PhotoUploadProps {
+  onCapture: (imageDataUrl: string) => void;
+  compact?: boolean; // Single-line drop zone shown under the camera
+}
+
+const PhotoUpload: React.FC<PhotoUploadProps> = ({ onCapture, compact = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || isReading) return;
+
+    setIsReading(true);
+    setError(null);
+
+    try {
+      onCapture(await loadPhotoFile(file));
+    } catch (err) {
+      console.error('Error loading photo:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load photo. Please try another file.');
+    } finally {
+      setIsReading(false);
+      if (inputRef.current) {
+        inputRef.current.value = ''; // Allow picking the same file again
+      }
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    handleFile(event.dataTransfer.files[0]);
+  };
+
+  return (
+    <div className="w-full">
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={event => {
+          if (event.key === 'Enter' || event.key === ' ') {
+            event.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={event => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`w-full border-2 border-dashed rounded-md text-center cursor-pointer transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          compact ? 'py-3 px-4' : 'py-8 px-4'
+        } ${
+          isDragging ? 'border-blue-600 bg-blue-50' : 'border-gray-300 bg-white hover:border-blue-400'
+        }`}
+      >
+        {isReading ? (
+          <div className="flex items-center justify-center gap-2 text-gray-600 text-sm">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            Preparing photo...
+          </div>
+        ) : compact ? (
+          <p className="text-sm text-gray-600">
+            or <span className="text-blue-600 font-semibold underline">upload a photo</span> / drop one here
+          </p>
+        ) : (
+          <>
+            <div className="text-4xl mb-2">🖼️</div>
+            <p className="text-gray-800 font-semibold">Upload a photo</p>
+            <p className="text-xs text-gray-500 mt-1">
+              Drop a PNG or JPEG here or click to choose a file
+            </p>
+          </>
+        )}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={VALIDATION_LIMITS.ALLOWED_MIME_TYPES.join(',')}
+        className="hidden"
+        onChange={event => handleFile(event.target.files?.[0])}
+      />
+
+      {error && <p className="text-red-500 text-sm mt-2 text-center">{error}</p>}
+    </div>
+  );
+};
+
+export default PhotoUpload;
@@ -1,37 +1,197 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { pixelateImageWithBackgroundRemoval } from '../../services/geminiService';
+import { getImageStylizer, getFallbackImageStylizer } from '../../services/imageStylizer';
+import type { ImageStylizer } from '../../services/imageStylizer';
 import { pixelCardService } from '../../services/pixelCardService';
+import { candidateGenerator } from '../../services/candidateGenerator';
+import { backdropCompositor } from '../../services/backdropCompositor';
+import { generationEventService } from '../../services/generationEventService';
+import { cardVerificationService } from '../../services/cardVerificationService';
+import type { GeneratedCandidate } from '../../services/candidateGenerator';
 import { validateImageData } from '../../lib/validation';
+import { ERROR_CODES } from '../../lib/typeUtils';
+import { getGenerationErrorMessage, isImageGenerationError } from '../../lib/generationErrors';
+import { getStylePreset, DEFAULT_STYLE_PRESET_ID } from '../../lib/stylePresets';
+import type { StylePresetId } from '../../lib/stylePresets';
+import { DEFAULT_BACKDROP_ID } from '../../lib/backdrops';
+import type { BackdropId } from '../../lib/backdrops';
+import { DEFAULT_CARD_TEMPLATE_ID } from '../../lib/cardTemplates';
+import type { CardTemplateId } from '../../lib/cardTemplates';
+import { pixelCardUrl } from '../../lib/cardRenderer';
+import { cardVerifyUrl } from '../../lib/cardToken';
+import { cardDetailFields, cardDetailsToRequest, EMPTY_CARD_DETAILS } from '../../lib/cardDetails';
+import type { CardDetails } from '../../lib/cardDetails';
+import type { GenerationEvent, GenerationEventType } from '../../types/supabase';
 import NameInput from './NameInput';
 import CameraView from './CameraView';
+import PhotoEditor from './PhotoEditor';
 import FramedPhoto from './FramedPhoto';
 import LoadingSpinner from './LoadingSpinner';
+import StylePresetPicker from './StylePresetPicker';
+import CandidatePicker from './CandidatePicker';
+import BackdropPicker from './BackdropPicker';
+import CardTemplatePicker from './CardTemplatePicker';
 
-type AppStep = 'input' | 'capture' | 'display';
+type AppStep = 'input' | 'capture' | 'edit' | 'select' | 'display';
+
+// Prompt A/B events only make sense for candidates generated from a prompt
+const toGenerationEvents = (candidates: GeneratedCandidate[], eventType: GenerationEventType): GenerationEvent[] => {
+  return candidates.flatMap(candidate => candidate.provenance.promptVersion
+    ? [{
+        generationId: candidate.generationId,
+        candidateId: candidate.id,
+        eventType,
+        promptVersion: candidate.provenance.promptVersion,
+        provider: candidate.provenance.provider
+      }]
+    : []);
+};
 
 const PixelIDCardGenerator: React.FC = () => {
   const navigate = useNavigate();
   const [step, setStep] = useState<AppStep>('input');
   const [userName, setUserName] = useState<string>('');
+  const [cardDetails, setCardDetails] = useState<CardDetails>(EMPTY_CARD_DETAILS);
+  const [stylePresetId, setStylePresetId] = useState<StylePresetId>(DEFAULT_STYLE_PRESET_ID);
+  const [capturedPhoto, setCapturedPhoto] = useState<string | null>(null);
+  const [capturedMirrored, setCapturedMirrored] = useState<boolean>(false);
+  const [candidates, setCandidates] = useState<GeneratedCandidate[]>([]);
+  const [candidateProgress, setCandidateProgress] = useState<{ ready: number; total: number }>({ ready: 0, total: 0 });
+  const [selectedCandidate, setSelectedCandidate] = useState<GeneratedCandidate | null>(null);
+  const [backdropId, setBackdropId] = useState<BackdropId>(DEFAULT_BACKDROP_ID);
+  const [backdropError, setBackdropError] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState<CardTemplateId>(DEFAULT_CARD_TEMPLATE_ID);
   const [processedImage, setProcessedImage] = useState<string | null>(null);
+  const [isComposing, setIsComposing] = useState<boolean>(false);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [saveSuccess, setSaveSuccess] = useState<boolean>(false);
+  // Link encoded in the saved card's QR code, and the badge number the database assigned
+  const [savedCard, setSavedCard] = useState<{ url: string; badgeNumber: string | null } | null>(null);
+  const saveSuccess = savedCard !== null;
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [qualityWarning, setQualityWarning] = useState<boolean>(false);
+  const generationControllerRef = useRef<AbortController | null>(null);
+  const latestBackdropRef = useRef<BackdropId>(DEFAULT_BACKDROP_ID);
+  const shownCandidatesRef = useRef<GeneratedCandidate[]>([]);
+
+  // Abort any in-flight generation when leaving the page
+  useEffect(() => {
+    return () => generationControllerRef.current?.abort();
+  }, []);
+
+  // Once saved, the card shows the badge number it was given
+  const cardFields = useMemo(() => cardDetailFields({
+    ...cardDetails,
+    badgeNumber: savedCard?.badgeNumber ?? cardDetails.badgeNumber,
+  }), [cardDetails, savedCard]);
 
-  const handleNameSubmit = (name: string) => {
+  const cancelGeneration = () => {
+    generationControllerRef.current?.abort();
+    generationControllerRef.current = null;
+  };
+
+  const handleNameSubmit = (name: string, details: CardDetails) => {
     if (name.trim()) {
       setUserName(name.trim());
+      setCardDetails(details);
       setStep('capture');
       setError(null);
     }
   };
 
+  const handleCandidateSelect = useCallback((candidate: GeneratedCandidate) => {
+    void generationEventService.recordEvents(toGenerationEvents([candidate], 'selected'));
+    latestBackdropRef.current = DEFAULT_BACKDROP_ID;
+    setSelectedCandidate(candidate);
+    setBackdropId(DEFAULT_BACKDROP_ID);
+    setBackdropError(null);
+    setIsComposing(false);
+    setProcessedImage(candidate.imageData);
+    setQualityWarning(candidate.qualityReport?.passed === false);
+    setCandidates([]);
+    setStep('display');
+    setSavedCard(null);
+    setSaveError(null);
+  }, []);
+
+  const handleBackdropChange = useCallback(async (nextBackdropId: BackdropId) => {
+    if (!selectedCandidate) return;
+
+    latestBackdropRef.current = nextBackdropId;
+    setBackdropId(nextBackdropId);
+    setBackdropError(null);
+    setIsComposing(true);
+
+    try {
+      const composed = await backdropCompositor.compose(selectedCandidate.imageData, nextBackdropId);
+      // Ignore results of backdrops the user has already moved on from
+      if (latestBackdropRef.current === nextBackdropId) {
+        setProcessedImage(composed);
+      }
+    } catch (composeErr) {
+      if (latestBackdropRef.current === nextBackdropId) {
+        setBackdropError(composeErr instanceof Error ? composeErr.message : 'Failed to apply the backdrop');
+      }
+    } finally {
+      if (latestBackdropRef.current === nextBackdropId) {
+        setIsComposing(false);
+      }
+    }
+  }, [selectedCandidate]);
+
+  const handleSave = useCallback(async () => {
+    if (!selectedCandidate || !processedImage || isComposing) return;
+
+    setIsSaving(true);
+    setSavedCard(null);
+    setSaveError(null);
+
+    // Only the chosen candidate, composited onto its backdrop, is saved to storage
+    try {
+      const saved = await pixelCardService.savePixelCard({
+        userName: userName,
+        imageData: processedImage,
+        stylePreset: stylePresetId,
+        palette: selectedCandidate.pixelArt?.palette,
+        gridSize: selectedCandidate.pixelArt?.gridSize,
+        backdropId: backdropId,
+        isMirrored: capturedMirrored,
+        templateId: templateId,
+        ...cardDetailsToRequest(cardDetails),
+        provider: selectedCandidate.provenance.provider,
+        modelId: selectedCandidate.provenance.modelId,
+        promptVersion: selectedCandidate.provenance.promptVersion ?? undefined,
+        generationLatencyMs: selectedCandidate.provenance.latencyMs,
+        retryCount: selectedCandidate.provenance.retryCount,
+        postProcessed: selectedCandidate.provenance.postProcessed
+      });
+
+      // An unsigned card still works; its QR code links to the gallery page instead
+      let cardUrl = pixelCardUrl(saved.id);
+      try {
+        const { token } = await cardVerificationService.signCard(saved.id);
+        cardUrl = cardVerifyUrl(token);
+      } catch (signErr) {
+        console.warn('Failed to sign pixel card, falling back to an unsigned QR code:', signErr);
+      }
+      setSavedCard({ url: cardUrl, badgeNumber: saved.badgeNumber });
+    } catch (saveErr) {
+      console.error('Failed to save pixel card:', saveErr);
+      setSaveError(saveErr instanceof Error ? saveErr.message : 'Failed to save pixel card');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [userName, cardDetails, stylePresetId, selectedCandidate, processedImage, backdropId, capturedMirrored, templateId, isComposing]);
+
   const handlePhotoCapture = useCallback(async (imageDataUrl: string) => {
+    generationControllerRef.current?.abort();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+
     setIsLoading(true);
     setError(null);
-    setSaveSuccess(false);
+    setSavedCard(null);
     setSaveError(null);
 
     try {
@@ -41,52 +201,123 @@ const PixelIDCardGenerator: React.FC = () => {
         throw new Error(`Invalid image: ${validation.errors.join(', ')}`);
       }
 
-      // Generate pixel art
-      const pixelatedImageResult = await pixelateImageWithBackgroundRemoval(imageDataUrl);
+      const generateWith = (stylizer: ImageStylizer) => {
+        setCandidateProgress({ ready: 0, total: candidateGenerator.plannedCount(stylizer) });
+        return candidateGenerator.generate(imageDataUrl, {
+          stylizer,
+          preset: getStylePreset(stylePresetId),
+          signal: controller.signal,
+          onCandidate: () => setCandidateProgress(progress => ({ ...progress, ready: progress.ready + 1 }))
+        });
+      };
 
-      // Validate the processed image
-      const processedValidation = validateImageData.validate(pixelatedImageResult);
-      if (!processedValidation.isValid) {
-        throw new Error('Generated image failed validation. Please try again.');
+      // Generate pixel art variants with the configured stylizer backend
+      const stylizer = getImageStylizer();
+      let generated: GeneratedCandidate[];
+      try {
+        generated = await generateWith(stylizer);
+      } catch (generateErr) {
+        // In auto mode an unreachable or unconfigured endpoint falls back to the local pixelator
+        const fallback = getFallbackImageStylizer(stylizer, generateErr);
+        if (!fallback || controller.signal.aborted) throw generateErr;
+        console.warn(`${stylizer.label} is unavailable, falling back to ${fallback.label}:`, generateErr);
+        generated = await generateWith(fallback);
       }
+      shownCandidatesRef.current = generated;
+      void generationEventService.recordEvents(toGenerationEvents(generated, 'generated'));
 
-      setProcessedImage(pixelatedImageResult);
-      setStep('display');
-
-      // Save the generated pixel card to storage
-      try {
-        await pixelCardService.savePixelCard({
-          userName: userName,
-          imageData: pixelatedImageResult
-        });
-        setSaveSuccess(true);
-      } catch (saveErr) {
-        console.error('Failed to save pixel card:', saveErr);
-        setSaveError(saveErr instanceof Error ? saveErr.message : 'Failed to save pixel card');
+      if (generated.length === 1) {
+        handleCandidateSelect(generated[0]);
+      } else {
+        setCandidates(generated);
+        setStep('select');
       }
     } catch (err) {
-      console.error('Failed to generate pixel card:', err);
-      setError(err instanceof Error ? err.message : 'Failed to generate pixel card');
+      // A newer capture or a reset owns the UI now
+      if (generationControllerRef.current !== controller && controller.signal.aborted) {
+        return;
+      }
+
+      if (isImageGenerationError(err) && err.code === ERROR_CODES.CANCELLED) {
+        setError(null);
+      } else {
+        console.error('Failed to generate pixel card:', err);
+        setError(getGenerationErrorMessage(err));
+      }
       setStep('capture');
     } finally {
-      setIsLoading(false);
+      if (generationControllerRef.current === controller) {
+        generationControllerRef.current = null;
+        setIsLoading(false);
+      }
     }
-  }, [userName]);
+  }, [stylePresetId, handleCandidateSelect]);
+
+  // Captures and uploads go through the crop editor before generation
+  const handlePhotoTaken = (imageDataUrl: string, isMirrored: boolean) => {
+    setCapturedPhoto(imageDataUrl);
+    setCapturedMirrored(isMirrored);
+    setError(null);
+    setStep('edit');
+  };
+
+  const handleCropConfirm = (croppedDataUrl: string) => {
+    setStep('capture');
+    handlePhotoCapture(croppedDataUrl);
+  };
+
+  const handleCropCancel = () => {
+    setCapturedPhoto(null);
+    setCapturedMirrored(false);
+    setStep('capture');
+  };
+
+  const handleCancelGeneration = () => {
+    cancelGeneration();
+    setIsLoading(false);
+    setError(null);
+  };
 
   const handleRetake = () => {
+    cancelGeneration();
+    // A selected candidate already has its event; counting it as retaken too would skew the stats
+    const rejected = shownCandidatesRef.current.filter(candidate => candidate.id !== selectedCandidate?.id);
+    void generationEventService.recordEvents(toGenerationEvents(rejected, 'retaken'));
+    shownCandidatesRef.current = [];
+    setCapturedPhoto(null);
+    setCapturedMirrored(false);
+    setCandidates([]);
+    setSelectedCandidate(null);
+    setBackdropId(DEFAULT_BACKDROP_ID);
+    setBackdropError(null);
+    setIsComposing(false);
     setProcessedImage(null);
+    setQualityWarning(false);
     setError(null);
-    setSaveSuccess(false);
+    setSavedCard(null);
     setSaveError(null);
     setIsLoading(false);
     setStep('capture');
   };
 
   const handleReset = () => {
+    cancelGeneration();
+    shownCandidatesRef.current = [];
+    setCapturedPhoto(null);
+    setCapturedMirrored(false);
     setUserName('');
+    setCardDetails(EMPTY_CARD_DETAILS);
+    setStylePresetId(DEFAULT_STYLE_PRESET_ID);
+    setCandidates([]);
+    setSelectedCandidate(null);
+    setBackdropId(DEFAULT_BACKDROP_ID);
+    setTemplateId(DEFAULT_CARD_TEMPLATE_ID);
+    setBackdropError(null);
+    setIsComposing(false);
     setProcessedImage(null);
+    setQualityWarning(false);
     setError(null);
-    setSaveSuccess(false);
+    setSavedCard(null);
     setSaveError(null);
     setIsLoading(false);
     setStep('input');
@@ -103,15 +334,28 @@ const PixelIDCardGenerator: React.FC = () => {
               <div className="flex flex-col items-center justify-center h-96 bg-gray-100 rounded-lg text-center p-4 border border-gray-200">
                 <LoadingSpinner />
                 <p className="text-black text-xl mt-4 tracking-wider font-semibold">Pixelating your image...</p>
-                <p className="text-gray-600 text-sm mt-2">This may take a few moments</p>
+                <p className="text-gray-600 text-sm mt-2">
+                  {candidateProgress.total > 1
+                    ? `${candidateProgress.ready} of ${candidateProgress.total} variants ready`
+                    : 'This may take a few moments'}
+                </p>
                 <div className="mt-4 bg-blue-50 border border-blue-200 rounded-md p-3 max-w-xs">
                   <p className="text-blue-800 text-xs">
                     💡 Tip: Keep this tab active for faster processing
                   </p>
                 </div>
+                <button
+                  onClick={handleCancelGeneration}
+                  className="mt-4 bg-gray-800 text-white py-2 px-6 font-bold tracking-wider rounded-md hover:bg-gray-700 active:bg-gray-900 transition-colors duration-200"
+                >
+                  Cancel
+                </button>
               </div>
             ) : (
-              <CameraView onCapture={handlePhotoCapture} />
+              <div className="flex flex-col gap-4">
+                <StylePresetPicker value={stylePresetId} onChange={setStylePresetId} />
+                <CameraView onCapture={handlePhotoTaken} />
+              </div>
             )}
             {error && (
               <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-4">
@@ -132,6 +376,22 @@ const PixelIDCardGenerator: React.FC = () => {
             )}
           </div>
         );
+      case 'edit':
+        return capturedPhoto ? (
+          <PhotoEditor
+            imageDataUrl={capturedPhoto}
+            onConfirm={handleCropConfirm}
+            onCancel={handleCropCancel}
+          />
+        ) : null;
+      case 'select':
+        return (
+          <CandidatePicker
+            candidates={candidates}
+            onSelect={handleCandidateSelect}
+            onRetake={handleRetake}
+          />
+        );
       case 'display':
         if (processedImage) {
           return (
@@ -153,11 +413,42 @@ const PixelIDCardGenerator: React.FC = () => {
                   ⚠️ Your card was generated but couldn't be saved: {saveError}
                 </div>
               )}
+              {qualityWarning && (
+                <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 text-yellow-800 rounded-md text-center text-sm">
+                  This result didn't pass every automatic quality check. Retake if it doesn't look right.
+                </div>
+              )}
+              {backdropError && (
+                <div className="mb-4 p-3 bg-yellow-100 border border-yellow-400 text-yellow-700 rounded-md text-center">
+                  ⚠️ {backdropError}
+                </div>
+              )}
+              <div className="mb-6">
+                <BackdropPicker
+                  value={backdropId}
+                  onChange={handleBackdropChange}
+                  disabled={isSaving || saveSuccess}
+                />
+              </div>
+              <div className="mb-6">
+                <CardTemplatePicker
+                  value={templateId}
+                  onChange={setTemplateId}
+                  disabled={isSaving || saveSuccess}
+                />
+              </div>
               <FramedPhoto 
                 imageSrc={processedImage} 
                 name={userName} 
+                fields={cardFields}
+                templateId={templateId}
+                gridSize={selectedCandidate?.pixelArt?.gridSize ?? getStylePreset(stylePresetId).resolution}
+                cardUrl={savedCard?.url}
                 onRetake={handleRetake} 
                 onReset={handleReset}
+                onSave={handleSave}
+                isSaving={isSaving || isComposing}
+                isSaved={saveSuccess}
               />
             </div>
           );
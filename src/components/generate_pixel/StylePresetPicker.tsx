@@ -0,0 +1,55 @@
+import React from 'react';
+import { listStylePresets } from '../../lib/stylePresets';
+import type { StylePresetId } from '../../lib/stylePresets';
+
+interface StylePresetPickerProps {
+  value: StylePresetId;
+  onChange: (presetId: StylePresetId) => void;
+  disabled?: boolean;
+}
+
+const StylePresetPicker: React.FC<StylePresetPickerProps> = ({ value, onChange, disabled = false }) => {
+  return (
+    <div className="w-full">
+      <p className="text-sm text-gray-700 mb-2 tracking-wide">Art style:</p>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2" role="radiogroup" aria-label="Art style">
+        {listStylePresets().map((preset) => {
+          const isSelected = preset.id === value;
+
+          return (
+            <button
+              key={preset.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              disabled={disabled}
+              onClick={() => onChange(preset.id)}
+              title={preset.description}
+              className={`text-left p-2 border-2 rounded-md transition-colors duration-200 ${
+                isSelected
+                  ? 'border-blue-600 bg-blue-50'
+                  : 'border-gray-300 bg-white hover:border-gray-500'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+            >
+              <div className="font-bold tracking-wider text-sm">{preset.label}</div>
+              <div className="text-xs text-gray-500 leading-tight">{preset.description}</div>
+              {preset.palette.colors && (
+                <div className="flex mt-1">
+                  {preset.palette.colors.slice(0, 8).map((color) => (
+                    <span
+                      key={color}
+                      className="w-2 h-2"
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StylePresetPicker;
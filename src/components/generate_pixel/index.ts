@@ -1,5 +1,11 @@
 export { default as PixelIDCardGenerator } from './PixelIDCardGenerator';
 export { default as CameraView } from './CameraView';
+export { default as PhotoUpload } from './PhotoUpload';
+export { default as PhotoEditor } from './PhotoEditor';
 export { default as FramedPhoto } from './FramedPhoto';
 export { default as LoadingSpinner } from './LoadingSpinner';
-export { default as NameInput } from './NameInput';
\ No newline at end of file
+export { default as NameInput } from './NameInput';
+export { default as StylePresetPicker } from './StylePresetPicker';
+export { default as CandidatePicker } from './CandidatePicker';
+export { default as BackdropPicker } from './BackdropPicker';
+export { default as CardTemplatePicker } from './CardTemplatePicker';
\ No newline at end of file
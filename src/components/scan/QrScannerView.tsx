@@ -0,0 +1,204 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useCameraStream } from '../../hooks/useCameraStream';
+import { parsePixelCardUrl } from '../../lib/cardRenderer';
+import { parseCardVerifyUrl } from '../../lib/cardToken';
+import { pixelCardRepository } from '../../services/pixelCardRepository';
+import { qrDecoderService } from '../../services/qrDecoderService';
+
+// Frames are shrunk to this longest side before decoding; card codes stay readable and phones stay cool
+const SCAN_FRAME_SIZE = 640;
+const SCAN_INTERVAL_MS = 200;
+const SCAN_RETRY_DELAY_MS = 2000;
+
+/**
+ * Scans card QR codes with the camera and opens the matching card
+ */
+const QrScannerView: React.FC = () => {
+  const navigate = useNavigate();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastCodeRef = useRef<string | null>(null); // Last code handled, so a code held in view is looked up once
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState<boolean>(false);
+
+  const { videoRef, cameraReady, error, permissionDenied, devices, startCamera } = useCameraStream({
+    deviceId,
+    resolution: 'medium',
+    facingMode: 'environment',
+    onDeviceUnavailable: () => setDeviceId(null),
+  });
+
+  useEffect(() => {
+    return () => qrDecoderService.release();
+  }, []);
+
+  /**
+   * Open the card or verify page a scanned code points at, or explain why it can't be opened
+   */
+  const handleCode = async (text: string) => {
+    // Signed cards are checked on the verify page, which does its own lookups
+    const token = parseCardVerifyUrl(text);
+    if (token) {
+      navigate(`/verify/${token}`);
+      return;
+    }
+
+    const id = parsePixelCardUrl(text);
+    if (!id) {
+      setScanError("This QR code isn't a Pixel ID card. Scan the code printed on a card.");
+      return;
+    }
+
+    setIsLookingUp(true);
+    setScanError(null);
+    try {
+      const card = await pixelCardRepository.getPixelCardById(id);
+      if (!card) {
+        setScanError('No card was found for this code. It may have been deleted.');
+        return;
+      }
+      navigate(`/pixel-card/${card.id}`);
+    } catch (err) {
+      console.error('Failed to look up scanned card:', err);
+      setScanError('Could not look up the card. Check your connection and scan again.');
+      lastCodeRef.current = null; // Let the same code be retried
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  // Grab a frame, decode it in the worker, repeat; one frame in flight at a time
+  useEffect(() => {
+    if (!cameraReady || isLookingUp) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (cancelled || !video || !canvas || video.videoWidth === 0) return;
+
+      try {
+        const scale = Math.min(1, SCAN_FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight));
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (!context) throw new Error('Could not read camera frames');
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+        const text = await qrDecoderService.decode(context.getImageData(0, 0, canvas.width, canvas.height));
+        if (cancelled) return;
+        if (text && text !== lastCodeRef.current) {
+          lastCodeRef.current = text;
+          // A lookup cancels this loop and starts a new one when it finishes;
+          // a rejected code doesn't, so keep scanning (lastCodeRef skips that code)
+          await handleCode(text);
+          if (cancelled) return;
+        }
+      } catch (err) {
+        console.error('QR scan failed:', err);
+        if (cancelled) return;
+        setScanError(err instanceof Error ? err.message : 'Scanning failed. Please try again.');
+        // The decoder restarts its worker on the next frame; back off before trying it
+        timer = setTimeout(scan, SCAN_RETRY_DELAY_MS);
+        return;
+      }
+
+      timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    timer = setTimeout(scan, SCAN_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [cameraReady, isLookingUp]);
+
+  const header = (
+    <div className="w-full max-w-md flex justify-between items-center mb-6 pt-4">
+      <button
+        onClick={() => navigate('/')}
+        className="bg-gray-100 text-black py-2 px-4 font-bold tracking-wider hover:bg-gray-200 transition-colors duration-200 border border-gray-300"
+      >
+        ← HOME
+      </button>
+      <h1 className="text-2xl font-bold tracking-wider">SCAN CARD</h1>
+    </div>
+  );
+
+  if (error) {
+    return (
+      <div className="bg-white min-h-screen w-full flex flex-col items-center p-4 text-black font-mono">
+        {header}
+        <div className="w-full max-w-md aspect-square bg-gray-100 rounded-lg flex flex-col items-center justify-center text-center p-4 border border-gray-200">
+          <div className="text-6xl mb-4">📷</div>
+          <p className="text-red-600 font-semibold mb-2">Camera Error</p>
+          <p className="text-red-500 text-sm mb-4">{error}</p>
+          <button
+            onClick={startCamera}
+            className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-500 font-bold tracking-wider transition-colors duration-200"
+          >
+            {permissionDenied ? 'TRY AGAIN' : 'RETRY'}
+          </button>
+          {permissionDenied && (
+            <div className="text-xs text-gray-600 max-w-xs mt-2">
+              Scanning needs camera access. Check your browser settings to allow it for this site.
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white min-h-screen w-full flex flex-col items-center p-4 text-black font-mono selection:bg-blue-500 selection:text-white">
+      {header}
+
+      <div className="w-full max-w-md aspect-square rounded-lg overflow-hidden bg-gray-900 relative border-4 border-gray-300">
+        {!cameraReady && (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-300 tracking-wider">
+            STARTING CAMERA...
+          </div>
+        )}
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+        {/* Viewfinder */}
+        <div className="absolute inset-[20%] border-4 border-white/80 rounded-lg pointer-events-none" />
+        {isLookingUp && (
+          <div className="absolute inset-0 bg-black/60 flex items-center justify-center text-white font-bold tracking-wider">
+            OPENING CARD...
+          </div>
+        )}
+      </div>
+      <canvas ref={canvasRef} className="hidden" />
+
+      <p className="text-gray-600 text-sm tracking-wide mt-4 text-center max-w-md">
+        Point the camera at the QR code on a Pixel ID card.
+      </p>
+      {scanError && (
+        <p className="text-red-500 text-sm tracking-wide mt-2 text-center max-w-md" role="alert">{scanError}</p>
+      )}
+
+      {devices.length > 1 && (
+        <label className="flex items-center gap-2 text-sm mt-4">
+          <span className="text-gray-600 tracking-wide">Camera:</span>
+          <select
+            value={deviceId ?? ''}
+            onChange={event => setDeviceId(event.target.value || null)}
+            className="border border-gray-300 px-2 py-1 bg-white max-w-[16rem]"
+          >
+            <option value="">Back camera</option>
+            {devices.map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label || `Camera ${index + 1}`}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default QrScannerView;
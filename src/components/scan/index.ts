@@ -0,0 +1 @@
+export { default as QrScannerView } from './QrScannerView';
\ No newline at end of file
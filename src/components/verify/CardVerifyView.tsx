@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { decodeCardToken, evaluateCardVerification } from '../../lib/cardToken';
+import type { CardTokenPayload, CardVerificationChecks, CardVerificationStatus } from '../../lib/cardToken';
+import { cardContentFromPixelCard } from '../../lib/cardRenderer';
+import { getCardTemplate } from '../../lib/cardTemplates';
+import { cardVerificationService } from '../../services/cardVerificationService';
+import { pixelCardRepository } from '../../services/pixelCardRepository';
+import type { PixelCard } from '../../types/supabase';
+import { CardPreview } from '../card';
+
+interface VerificationResult {
+  status: CardVerificationStatus;
+  checks: CardVerificationChecks | null; // Null when the token couldn't be read
+  payload: CardTokenPayload | null;
+  card: PixelCard | null;
+}
+
+const STATUS_DISPLAY: Record<CardVerificationStatus, { icon: string; title: string; message: string; className: string }> = {
+  valid: {
+    icon: '✅',
+    title: 'VALID CARD',
+    message: 'This card was issued by No-Space and matches our records.',
+    className: 'bg-green-50 border-green-500 text-green-800',
+  },
+  expired: {
+    icon: '⌛',
+    title: 'EXPIRED',
+    message: 'This card was genuine, but it has passed its expiry date.',
+    className: 'bg-yellow-50 border-yellow-500 text-yellow-800',
+  },
+  revoked: {
+    icon: '⛔',
+    title: 'REVOKED',
+    message: 'This card has been revoked and is no longer valid.',
+    className: 'bg-red-50 border-red-500 text-red-800',
+  },
+  mismatch: {
+    icon: '⚠️',
+    title: 'DOES NOT MATCH',
+    message: 'The signature is genuine, but the card on record has changed since it was signed.',
+    className: 'bg-red-50 border-red-500 text-red-800',
+  },
+  invalid_signature: {
+    icon: '❌',
+    title: 'NOT GENUINE',
+    message: 'This code was not signed by No-Space. The card may be forged.',
+    className: 'bg-red-50 border-red-500 text-red-800',
+  },
+  not_found: {
+    icon: '❓',
+    title: 'CARD NOT FOUND',
+    message: 'The signature is genuine, but the card no longer exists.',
+    className: 'bg-red-50 border-red-500 text-red-800',
+  },
+  malformed: {
+    icon: '❌',
+    title: 'UNREADABLE CODE',
+    message: "This link isn't a valid card code. Scan the code printed on the card again.",
+    className: 'bg-red-50 border-red-500 text-red-800',
+  },
+};
+
+const CHECK_LABELS: [keyof CardVerificationChecks, string][] = [
+  ['signature', 'Signed by No-Space'],
+  ['cardFound', 'Card exists'],
+  ['notRevoked', 'Not revoked'],
+  ['name', 'Name matches'],
+  ['issuedAt', 'Issue date matches'],
+  ['imageHash', 'Photo matches'],
+  ['notExpired', 'Not expired'],
+];
+
+const formatDate = (date: Date): string => {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+/**
+ * Checks a scanned card token against the server's signature and the stored card
+ */
+const CardVerifyView: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState<number>(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const verify = async () => {
+      setResult(null);
+      setError(null);
+
+      const decoded = token ? decodeCardToken(token) : null;
+      if (!token || !decoded) {
+        setResult({ status: 'malformed', checks: null, payload: null, card: null });
+        return;
+      }
+
+      try {
+        const [signatureValid, card] = await Promise.all([
+          cardVerificationService.verifySignature(token),
+          pixelCardRepository.getPixelCardById(decoded.payload.cardId),
+        ]);
+
+        // An unreadable image fails the photo check rather than the whole verification
+        let imageHash: string | null = null;
+        if (card) {
+          try {
+            imageHash = await cardVerificationService.hashImage(card.imageUrl);
+          } catch (hashErr) {
+            console.error('Error hashing card image:', hashErr);
+          }
+        }
+
+        const { status, checks } = evaluateCardVerification({ payload: decoded.payload, signatureValid, card, imageHash });
+        if (!cancelled) {
+          setResult({ status, checks, payload: decoded.payload, card });
+        }
+      } catch (err) {
+        console.error('Error verifying card:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to verify the card');
+        }
+      }
+    };
+
+    verify();
+    return () => {
+      cancelled = true;
+    };
+  }, [token, attempt]);
+
+  const cardContent = useMemo(() => result?.card && cardContentFromPixelCard(result.card), [result]);
+
+  const header = (
+    <div className="w-full max-w-md flex justify-between items-center mb-6 pt-4">
+      <button
+        onClick={() => navigate('/')}
+        className="bg-gray-100 text-black py-2 px-4 font-bold tracking-wider hover:bg-gray-200 transition-colors duration-200 border border-gray-300"
+      >
+        ← HOME
+      </button>
+      <h1 className="text-2xl font-bold tracking-wider">VERIFY CARD</h1>
+    </div>
+  );
+
+  if (error) {
+    return (
+      <div className="bg-white min-h-screen w-full flex flex-col items-center p-4 text-black font-mono">
+        {header}
+        <div className="w-full max-w-md text-center space-y-4">
+          <div className="text-6xl">⚠️</div>
+          <p className="text-red-600 font-semibold tracking-wide">Could not verify this card</p>
+          <p className="text-gray-600 text-sm tracking-wide">{error}</p>
+          <button
+            onClick={() => setAttempt(value => value + 1)}
+            className="w-full bg-black text-white py-3 px-6 font-bold tracking-widest hover:bg-gray-800 transition-colors duration-200"
+          >
+            TRY AGAIN
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="bg-white min-h-screen w-full flex flex-col items-center p-4 text-black font-mono">
+        {header}
+        <div className="flex flex-col items-center space-y-4 mt-16">
+          <div className="animate-spin w-8 h-8 border-2 border-gray-400 border-t-black rounded-full"></div>
+          <p className="text-lg tracking-wider">VERIFYING...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const display = STATUS_DISPLAY[result.status];
+
+  return (
+    <div className="bg-white min-h-screen w-full flex flex-col items-center p-4 text-black font-mono selection:bg-blue-500 selection:text-white">
+      {header}
+
+      <div className="w-full max-w-md space-y-6">
+        <div className={`border-2 p-4 text-center space-y-2 ${display.className}`} role="status">
+          <div className="text-5xl">{display.icon}</div>
+          <h2 className="text-2xl font-bold tracking-wider">{display.title}</h2>
+          <p className="text-sm tracking-wide">{display.message}</p>
+        </div>
+
+        {result.checks && (
+          <ul className="border border-gray-300 divide-y divide-gray-200">
+            {CHECK_LABELS.map(([key, label]) => (
+              <li key={key} className="flex justify-between items-center px-4 py-2 text-sm tracking-wide">
+                <span className="text-gray-600">{label}</span>
+                <span className={result.checks![key] ? 'text-green-600 font-bold' : 'text-red-600 font-bold'}>
+                  {result.checks![key] ? '✓' : '✗'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* What the card claims; only trustworthy when the signature check passed */}
+        {result.payload && (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between py-1 border-b border-gray-200 gap-4">
+              <span className="text-gray-600 tracking-wide">Name:</span>
+              <span className="tracking-wider text-right break-all">{result.payload.name}</span>
+            </div>
+            <div className="flex justify-between py-1 border-b border-gray-200">
+              <span className="text-gray-600 tracking-wide">Issued:</span>
+              <span className="tracking-wider">{formatDate(result.payload.issuedAt)}</span>
+            </div>
+            <div className="flex justify-between py-1 border-b border-gray-200">
+              <span className="text-gray-600 tracking-wide">Expires:</span>
+              <span className="tracking-wider">{formatDate(result.payload.expiresAt)}</span>
+            </div>
+            {result.card?.revokedAt && (
+              <div className="flex justify-between py-1 border-b border-gray-200">
+                <span className="text-gray-600 tracking-wide">Revoked:</span>
+                <span className="tracking-wider text-red-600">{formatDate(result.card.revokedAt)}</span>
+              </div>
+            )}
+            <div className="flex justify-between py-1 border-b border-gray-200 gap-4">
+              <span className="text-gray-600 tracking-wide">Card ID:</span>
+              <span className="tracking-wider text-right break-all text-xs">{result.payload.cardId}</span>
+            </div>
+          </div>
+        )}
+
+        {result.card && cardContent && (
+          <>
+            <CardPreview template={getCardTemplate(result.card.templateId)} content={cardContent} className="mx-auto" />
+            <button
+              onClick={() => navigate(`/pixel-card/${result.card!.id}`)}
+              className="w-full bg-gray-100 text-black py-3 px-4 font-bold tracking-wider hover:bg-gray-200 transition-colors duration-200 border-2 border-gray-300"
+            >
+              VIEW CARD
+            </button>
+          </>
+        )}
+
+        <button
+          onClick={() => navigate('/scan')}
+          className="w-full bg-black text-white py-3 px-6 font-bold tracking-widest hover:bg-gray-800 transition-colors duration-200"
+        >
+          SCAN ANOTHER CARD
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CardVerifyView;
@@ -0,0 +1 @@
+export { default as CardVerifyView } from './CardVerifyView';
\ No newline at end of file
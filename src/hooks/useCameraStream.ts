@@ -0,0 +1,155 @@
+import { useRef, useEffect, useCallback, useState } from 'react';
+import { buildVideoConstraints, DEFAULT_CAMERA_SETTINGS } from '../lib/cameraSettings';
+import type { CameraFacingMode, CameraResolutionId } from '../lib/cameraSettings';
+
+interface CameraStreamOptions {
+  deviceId: string | null;
+  resolution: CameraResolutionId;
+  facingMode?: CameraFacingMode; // Used when no device is chosen
+  onDeviceUnavailable: () => void; // The chosen camera is gone; callers should clear deviceId
+}
+
+/**
+ * Camera stream shared by the photo capture and the QR scanner
+ * Starts the camera whenever the device or resolution changes, recovers from
+ * hot-plugging and stops every track on unmount.
+ */
+export function useCameraStream({
+  deviceId,
+  resolution,
+  facingMode = 'user',
+  onDeviceUnavailable,
+}: CameraStreamOptions) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const startRequestRef = useRef(0);
+  const onDeviceUnavailableRef = useRef(onDeviceUnavailable);
+  const [error, setError] = useState<string | null>(null);
+  const [cameraReady, setCameraReady] = useState(false);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  onDeviceUnavailableRef.current = onDeviceUnavailable;
+
+  const stopStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  /**
+   * List video inputs; labels are only filled in once camera permission is granted
+   */
+  const refreshDevices = useCallback(async (): Promise<MediaDeviceInfo[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+    const cameras = (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'videoinput');
+    setDevices(cameras);
+    return cameras;
+  }, []);
+
+  const startCamera = useCallback(async () => {
+    const request = ++startRequestRef.current;
+    stopStream();
+
+    try {
+      setError(null);
+      setPermissionDenied(false);
+      setCameraReady(false);
+
+      // Check if getUserMedia is supported
+      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+        throw new Error('Camera access is not supported in this browser');
+      }
+
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: buildVideoConstraints({ ...DEFAULT_CAMERA_SETTINGS, deviceId, resolution }, facingMode),
+        });
+      } catch (err) {
+        // The saved camera is gone: forget it, which restarts with the default camera
+        if (deviceId && err instanceof Error && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+          console.warn('Saved camera is unavailable, falling back to the default:', err);
+          onDeviceUnavailableRef.current();
+          return;
+        }
+        throw err;
+      }
+
+      // A newer start (e.g. a settings change) superseded this one
+      if (request !== startRequestRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        videoRef.current.onloadedmetadata = () => {
+          setCameraReady(true);
+        };
+      }
+
+      await refreshDevices();
+    } catch (err) {
+      if (request !== startRequestRef.current) return;
+      console.error('Camera error:', err);
+
+      // Set component state
+      if (err instanceof Error) {
+        if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
+          setPermissionDenied(true);
+        }
+        setError(err.message);
+      } else {
+        setError('Failed to access camera');
+      }
+    }
+  }, [deviceId, resolution, facingMode, refreshDevices]);
+
+  // (Re)start whenever the device or resolution changes
+  useEffect(() => {
+    startCamera();
+  }, [startCamera]);
+
+  useEffect(() => {
+    return () => {
+      // Cleanup: stop camera stream when component unmounts
+      startRequestRef.current++;
+      stopStream();
+    };
+  }, []);
+
+  // Hot-plugged cameras: refresh the list, recover a lost stream, drop an unplugged choice
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+
+    const handleDeviceChange = async () => {
+      const cameras = await refreshDevices();
+
+      if (deviceId && !cameras.some(camera => camera.deviceId === deviceId)) {
+        onDeviceUnavailableRef.current();
+        return;
+      }
+
+      const track = streamRef.current?.getVideoTracks()[0];
+      if ((!track || track.readyState === 'ended') && !permissionDenied && cameras.length > 0) {
+        startCamera();
+      }
+    };
+
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [deviceId, permissionDenied, refreshDevices, startCamera]);
+
+  return {
+    videoRef,
+    cameraReady,
+    error,
+    setError, // Lets callers report frame-level failures in the same place as stream errors
+    permissionDenied,
+    devices,
+    startCamera,
+  };
+}
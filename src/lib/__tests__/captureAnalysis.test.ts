@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeCapture,
+  checkBrightness,
+  checkContrast,
+  checkFraming,
+  checkSharpness,
+  getCaptureWarnings,
+  measureSharpness,
+  pickSharpestFrame,
+  toGray,
+  DEFAULT_CAPTURE_ANALYSIS_THRESHOLDS as THRESHOLDS,
+} from '../captureAnalysis';
+import type { CaptureReport, GrayImage } from '../captureAnalysis';
+import type { PixelBuffer } from '../pixelArt';
+
+const SIZE = 96;
+
+/**
+ * Grey RGBA frame whose value at each pixel comes from shade
+ */
+const frame = (shade: (x: number, y: number) => number, width = SIZE, height = SIZE): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      data[offset] = data[offset + 1] = data[offset + 2] = shade(x, y);
+      data[offset + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const checker = (cell: number, dark = 40, light = 220) => (x: number, y: number) =>
+  (Math.floor(x / cell) + Math.floor(y / cell)) % 2 === 0 ? dark : light;
+
+/**
+ * Box blur of radius r, applied horizontally then vertically
+ */
+const boxBlur = (gray: GrayImage, radius: number): GrayImage => {
+  const { width, height } = gray;
+  const pass = (source: Float32Array, dx: number, dy: number) => {
+    const target = new Float32Array(source.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = Math.min(width - 1, Math.max(0, x + k * dx));
+          const sy = Math.min(height - 1, Math.max(0, y + k * dy));
+          sum += source[sy * width + sx];
+        }
+        target[y * width + x] = sum / (radius * 2 + 1);
+      }
+    }
+    return target;
+  };
+  return { width, height, data: pass(pass(gray.data, 1, 0), 0, 1) };
+};
+
+/**
+ * Textured square on a flat background, centred at (cx, cy)
+ */
+const blob = (cx: number, cy: number, half = 12) => (x: number, y: number) =>
+  Math.abs(x - cx) < half && Math.abs(y - cy) < half ? checker(3)(x, y) : 128;
+
+const report = (sharpness: number): CaptureReport => ({
+  passed: true,
+  checks: [{ check: 'sharpness', passed: true, value: sharpness, threshold: THRESHOLDS.minSharpness, message: '' }],
+});
+
+describe('checkBrightness', () => {
+  it('fails a dark frame against the lower bound', () => {
+    const result = checkBrightness(toGray(frame(checker(8, 10, 60))), THRESHOLDS);
+
+    expect(result.passed).toBe(false);
+    expect(result.value).toBeCloseTo(35, 0);
+    expect(result.threshold).toBe(THRESHOLDS.minBrightness);
+    expect(result.message).toMatch(/too dark/i);
+  });
+
+  it('fails a bright frame against the upper bound', () => {
+    const result = checkBrightness(toGray(frame(checker(8, 200, 250))), THRESHOLDS);
+
+    expect(result.passed).toBe(false);
+    expect(result.threshold).toBe(THRESHOLDS.maxBrightness);
+    expect(result.message).toMatch(/too bright/i);
+  });
+
+  it('passes a frame between the bounds, inclusive', () => {
+    expect(checkBrightness(toGray(frame(checker(8))), THRESHOLDS).passed).toBe(true);
+    expect(checkBrightness(toGray(frame(() => THRESHOLDS.minBrightness)), THRESHOLDS).passed).toBe(true);
+    expect(checkBrightness(toGray(frame(() => THRESHOLDS.maxBrightness)), THRESHOLDS).passed).toBe(true);
+  });
+});
+
+describe('checkContrast', () => {
+  it('fails a flat frame', () => {
+    const result = checkContrast(toGray(frame(() => 128)), THRESHOLDS);
+
+    expect(result.passed).toBe(false);
+    expect(result.value).toBe(0);
+    expect(result.message).toMatch(/flat/i);
+  });
+
+  it('passes a two-tone frame with the spread as its standard deviation', () => {
+    const result = checkContrast(toGray(frame(checker(8))), THRESHOLDS);
+
+    expect(result.passed).toBe(true);
+    expect(result.value).toBeCloseTo(90, 0);
+  });
+});
+
+describe('checkSharpness', () => {
+  it('passes a checkerboard and fails a box-blurred copy of it', () => {
+    const sharp = toGray(frame(checker(8)));
+    const blurred = boxBlur(boxBlur(sharp, 3), 3);
+
+    expect(checkSharpness(sharp, THRESHOLDS).passed).toBe(true);
+    const result = checkSharpness(blurred, THRESHOLDS);
+    expect(result.passed).toBe(false);
+    expect(result.message).toMatch(/blurry/i);
+    expect(measureSharpness(blurred)).toBeLessThan(measureSharpness(sharp) / 10);
+  });
+
+  it('reports zero for frames too small for the kernel', () => {
+    expect(measureSharpness(toGray(frame(checker(1), 2, 2)))).toBe(0);
+  });
+});
+
+describe('checkFraming', () => {
+  it('passes a centred subject', () => {
+    const result = checkFraming(toGray(frame(blob(SIZE / 2, SIZE / 2))), THRESHOLDS);
+
+    expect(result.passed).toBe(true);
+    expect(result.value).toBeLessThan(0.02);
+  });
+
+  it('fails an off-centre subject and advises a move as seen in the preview', () => {
+    const gray = toGray(frame(blob(SIZE * 0.2, SIZE / 2)));
+    const mirrored = checkFraming(gray, THRESHOLDS);
+
+    expect(mirrored.passed).toBe(false);
+    expect(mirrored.value).toBeGreaterThan(THRESHOLDS.maxCenterOffset);
+    expect(mirrored.message).toContain('Move left');
+    expect(checkFraming(gray, THRESHOLDS, false).message).toContain('Move right');
+  });
+
+  it('advises a vertical move when the subject is mostly above or below', () => {
+    const result = checkFraming(toGray(frame(blob(SIZE / 2, SIZE * 0.8))), THRESHOLDS);
+
+    expect(result.passed).toBe(false);
+    expect(result.message).toContain('Move up');
+  });
+
+  it('treats a featureless frame as centred', () => {
+    expect(checkFraming(toGray(frame(() => 128)), THRESHOLDS).value).toBe(0);
+  });
+});
+
+describe('analyzeCapture', () => {
+  it('passes a well-lit, sharp, centred frame', () => {
+    const result = analyzeCapture(frame(checker(8)));
+
+    expect(result.passed).toBe(true);
+    expect(result.checks.map(check => check.check)).toEqual(['brightness', 'contrast', 'sharpness', 'framing']);
+    expect(getCaptureWarnings(result)).toEqual([]);
+  });
+
+  it('lists the failed checks in order', () => {
+    const result = analyzeCapture(frame(() => 20));
+
+    expect(result.passed).toBe(false);
+    expect(getCaptureWarnings(result)).toHaveLength(3);
+    expect(getCaptureWarnings(result)[0]).toMatch(/too dark/i);
+  });
+});
+
+describe('pickSharpestFrame', () => {
+  it('returns the index of the sharpest report', () => {
+    expect(pickSharpestFrame([report(120), report(480), report(300)])).toBe(1);
+  });
+
+  it('keeps the first of equally sharp reports', () => {
+    expect(pickSharpestFrame([report(200), report(200)])).toBe(0);
+  });
+
+  it('ranks missing reports below any measured frame', () => {
+    expect(pickSharpestFrame([null, report(5), null])).toBe(1);
+    expect(pickSharpestFrame([null, null])).toBe(0);
+  });
+
+  it('returns -1 for no frames', () => {
+    expect(pickSharpestFrame([])).toBe(-1);
+  });
+});
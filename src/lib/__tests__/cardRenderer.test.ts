@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { layoutCard } from '../cardRenderer';
+import type { CardContent, CardShape, TextMeasurer } from '../cardRenderer';
+import { CARD_TEMPLATES } from '../cardTemplates';
+import { cardVerifyUrl, encodeCardToken, encodeCardTokenPayload, toBase64Url } from '../cardToken';
+import { encodeQr } from '../qrCode';
+
+// Cards draw a two-module quiet zone on each side of the code
+const QUIET_MODULES = 4;
+
+// Monospace-ish widths are enough for layout; nothing is drawn
+const measure: TextMeasurer = (text, font) => text.length * font.size * 0.6;
+
+const NAME = 'Maximiliana Evangelina Featherstonehaugh-Whitmore'.padEnd(50, 'x');
+
+/**
+ * Verify link for a signed card whose holder has a 50-character name
+ */
+const verifyUrl = (origin: string) => {
+  const signedBytes = encodeCardTokenPayload({
+    cardId: '3f2b8a1c-9d4e-4f6a-8b2c-1d2e3f4a5b6c',
+    name: NAME,
+    issuedAt: new Date('2026-05-01T12:30:00Z'),
+    expiresAt: new Date('2027-05-01T12:30:00Z'),
+    imageHash: toBase64Url(new Uint8Array(16)),
+  });
+  return cardVerifyUrl(encodeCardToken(signedBytes, new Uint8Array(16)), origin);
+};
+
+const qrShape = (content: CardContent) => {
+  const scene = layoutCard(CARD_TEMPLATES.classic, content, measure);
+  return scene.shapes.find((shape): shape is Extract<CardShape, { kind: 'qr' }> => shape.kind === 'qr');
+};
+
+const content = (qrUrl: string): CardContent => ({ name: NAME, imageSrc: 'data:image/png;base64,iVBORw0KGgo=', qrUrl });
+
+describe('layoutCard QR code', () => {
+  it('encodes a verify link at level M when it fits', () => {
+    const url = verifyUrl('https://cards.example');
+    const shape = qrShape(content(url));
+
+    expect(shape).toBeDefined();
+    expect(shape!.modules).toBe(encodeQr(url, { errorCorrection: 'M' }).size + QUIET_MODULES);
+  });
+
+  it('falls back to level L for a verify link on a long origin', () => {
+    const url = verifyUrl(`https://${'badges-'.repeat(9)}events.example.org`);
+    expect(() => encodeQr(url)).toThrow(/too long/);
+
+    const shape = qrShape(content(url));
+    expect(shape).toBeDefined();
+    expect(shape!.modules).toBe(encodeQr(url, { errorCorrection: 'L' }).size + QUIET_MODULES);
+  });
+
+  it('lays the card out without a QR code when the link fits no level', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const url = verifyUrl(`https://${'badges-'.repeat(18)}events.example.org`);
+
+    const scene = layoutCard(CARD_TEMPLATES.classic, content(url), measure);
+    expect(scene.shapes.some(shape => shape.kind === 'qr')).toBe(false);
+    expect(scene.shapes.some(shape => shape.kind === 'image')).toBe(true);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
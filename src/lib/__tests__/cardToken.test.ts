@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeCardToken,
+  encodeCardToken,
+  encodeCardTokenPayload,
+  evaluateCardVerification,
+  fromBase64Url,
+  parseCardVerifyUrl,
+  toBase64Url,
+  CARD_IMAGE_HASH_BYTES,
+  CARD_SIGNATURE_BYTES,
+  CARD_TOKEN_VERSION,
+} from '../cardToken';
+import type { CardTokenPayload, CardVerificationInput } from '../cardToken';
+
+const CARD_ID = '3f2b8a1c-9d4e-4f6a-8b2c-1d2e3f4a5b6c';
+const IMAGE_HASH = toBase64Url(Uint8Array.from({ length: CARD_IMAGE_HASH_BYTES }, (_, i) => i * 17));
+const SIGNATURE = Uint8Array.from({ length: CARD_SIGNATURE_BYTES }, (_, i) => 255 - i);
+
+const payload = (overrides: Partial<CardTokenPayload> = {}): CardTokenPayload => ({
+  cardId: CARD_ID,
+  name: 'Ada Lovelace',
+  issuedAt: new Date('2026-05-01T12:30:00Z'),
+  expiresAt: new Date('2027-05-01T12:30:00Z'),
+  imageHash: IMAGE_HASH,
+  ...overrides,
+});
+
+const tokenFor = (value: CardTokenPayload) => encodeCardToken(encodeCardTokenPayload(value), SIGNATURE);
+
+/**
+ * Re-encode a token after changing its raw bytes
+ */
+const tamper = (token: string, change: (bytes: Uint8Array) => Uint8Array) => toBase64Url(change(fromBase64Url(token)!));
+
+describe('base64url', () => {
+  it('round-trips every byte value without padding or URL-unsafe characters', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    const text = toBase64Url(bytes);
+
+    expect(text).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(Array.from(fromBase64Url(text)!)).toEqual(Array.from(bytes));
+  });
+
+  it('rejects text that is not base64url', () => {
+    expect(fromBase64Url('abc+')).toBeNull();
+    expect(fromBase64Url('abc=')).toBeNull();
+    expect(fromBase64Url('abcde')).toBeNull();
+  });
+});
+
+describe('encodeCardToken / decodeCardToken', () => {
+  it('round-trips the payload and signature', () => {
+    const original = payload();
+    const decoded = decodeCardToken(tokenFor(original));
+
+    expect(decoded?.payload).toEqual(original);
+    expect(Array.from(decoded!.signature)).toEqual(Array.from(SIGNATURE));
+    expect(Array.from(decoded!.signedBytes)).toEqual(Array.from(encodeCardTokenPayload(original)));
+    expect(decoded!.signedBytes[0]).toBe(CARD_TOKEN_VERSION);
+  });
+
+  it('round-trips non-ASCII names as UTF-8', () => {
+    for (const name of ['Zoë Ångström', '山田 太郎', 'Nguyễn 🎮']) {
+      expect(decodeCardToken(tokenFor(payload({ name })))?.payload.name).toBe(name);
+    }
+  });
+
+  it('drops sub-second precision from the dates', () => {
+    const decoded = decodeCardToken(tokenFor(payload({ issuedAt: new Date('2026-05-01T12:30:00.999Z') })));
+
+    expect(decoded?.payload.issuedAt.toISOString()).toBe('2026-05-01T12:30:00.000Z');
+  });
+
+  it('rejects an image hash of the wrong length', () => {
+    expect(() => encodeCardTokenPayload(payload({ imageHash: toBase64Url(new Uint8Array(8)) }))).toThrow(/image hash/i);
+  });
+
+  it('rejects an unknown version byte', () => {
+    const token = tamper(tokenFor(payload()), bytes => {
+      bytes[0] = CARD_TOKEN_VERSION + 1;
+      return bytes;
+    });
+
+    expect(decodeCardToken(token)).toBeNull();
+  });
+
+  it('rejects truncated tokens', () => {
+    const token = tokenFor(payload({ name: '' }));
+
+    expect(decodeCardToken(token)).not.toBeNull();
+    expect(decodeCardToken(tamper(token, bytes => bytes.slice(0, bytes.length - 1)))).toBeNull();
+    expect(decodeCardToken('')).toBeNull();
+  });
+
+  it('rejects names that are not valid UTF-8', () => {
+    const token = tamper(tokenFor(payload({ name: 'A' })), bytes => {
+      bytes[bytes.length - CARD_SIGNATURE_BYTES - 1] = 0xff;
+      return bytes;
+    });
+
+    expect(decodeCardToken(token)).toBeNull();
+  });
+});
+
+describe('parseCardVerifyUrl', () => {
+  it('extracts the token from verify links only', () => {
+    expect(parseCardVerifyUrl(' https://cards.example/verify/abc_-123/ ')).toBe('abc_-123');
+    expect(parseCardVerifyUrl('https://cards.example/card/abc')).toBeNull();
+    expect(parseCardVerifyUrl('javascript:/verify/abc')).toBeNull();
+    expect(parseCardVerifyUrl('not a url')).toBeNull();
+  });
+});
+
+describe('evaluateCardVerification', () => {
+  const NOW = new Date('2026-10-01T00:00:00Z');
+
+  const input = (overrides: Partial<CardVerificationInput> = {}): CardVerificationInput => ({
+    payload: payload(),
+    signatureValid: true,
+    card: { id: CARD_ID.toUpperCase(), userName: 'Ada Lovelace', createdAt: new Date('2026-05-01T12:30:00.250Z'), revokedAt: null },
+    imageHash: IMAGE_HASH,
+    now: NOW,
+    ...overrides,
+  });
+
+  const card = input().card!;
+  const EXPIRED = payload({ expiresAt: new Date('2026-09-30T00:00:00Z') });
+  const REVOKED = { ...card, revokedAt: new Date('2026-06-01T00:00:00Z') };
+  const RENAMED = { ...card, userName: 'Someone Else' };
+
+  it('accepts a card that matches its token', () => {
+    const { status, checks } = evaluateCardVerification(input());
+
+    expect(status).toBe('valid');
+    expect(Object.values(checks).every(Boolean)).toBe(true);
+  });
+
+  it('ranks a bad signature above every other problem', () => {
+    expect(evaluateCardVerification(input({ signatureValid: false })).status).toBe('invalid_signature');
+    expect(evaluateCardVerification(input({ signatureValid: false, card: null, payload: EXPIRED })).status)
+      .toBe('invalid_signature');
+  });
+
+  it('ranks a missing card above revocation, mismatch and expiry', () => {
+    expect(evaluateCardVerification(input({ card: null, imageHash: null, payload: EXPIRED })).status).toBe('not_found');
+    expect(evaluateCardVerification(input({ card: { ...card, id: '00000000-0000-4000-8000-000000000000' } })).status)
+      .toBe('not_found');
+  });
+
+  it('ranks revocation above mismatch and expiry', () => {
+    expect(evaluateCardVerification(input({ card: REVOKED })).status).toBe('revoked');
+    expect(evaluateCardVerification(input({ card: { ...REVOKED, userName: 'Someone Else' }, payload: EXPIRED })).status)
+      .toBe('revoked');
+  });
+
+  it('reports a mismatch in name, issue date or image above expiry', () => {
+    expect(evaluateCardVerification(input({ card: RENAMED })).status).toBe('mismatch');
+    expect(evaluateCardVerification(input({ card: { ...card, createdAt: new Date('2026-05-01T12:30:01Z') } })).status)
+      .toBe('mismatch');
+    expect(evaluateCardVerification(input({ imageHash: toBase64Url(new Uint8Array(CARD_IMAGE_HASH_BYTES)) })).status)
+      .toBe('mismatch');
+    expect(evaluateCardVerification(input({ imageHash: null })).status).toBe('mismatch');
+    expect(evaluateCardVerification(input({ card: RENAMED, payload: EXPIRED })).status).toBe('mismatch');
+  });
+
+  it('reports expiry only for an otherwise valid card', () => {
+    const { status, checks } = evaluateCardVerification(input({ payload: EXPIRED }));
+
+    expect(status).toBe('expired');
+    expect(checks.notExpired).toBe(false);
+    expect(evaluateCardVerification(input({ now: EXPIRED.expiresAt, payload: EXPIRED })).status).toBe('expired');
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { buildPdf, POINTS_PER_MM } from '../pdfWriter';
+import type { PdfJpeg, PdfPage } from '../pdfWriter';
+
+// Stand-in image bytes, including values that aren't valid UTF-8
+const jpeg = (seed: number): PdfJpeg => ({
+  width: 4,
+  height: 2,
+  data: Uint8Array.from({ length: 64 }, (_, i) => (i * 37 + seed) % 256),
+});
+
+/**
+ * One character per byte, so string offsets equal byte offsets
+ */
+const asBinaryText = (bytes: Uint8Array): string => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+const parseXref = (text: string) => {
+  const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+  const [header, ...lines] = text.slice(startxref).split('\n');
+  const [, count] = lines[0].split(' ').map(Number);
+  const entries = lines.slice(1, count + 1);
+  return { startxref, header, count, entries };
+};
+
+const cardImage = jpeg(1);
+const pages: PdfPage[] = [
+  {
+    width: 85.6 * POINTS_PER_MM,
+    height: 54 * POINTS_PER_MM,
+    trimBox: { x: 8.5, y: 8.5, width: 153, height: 242.6 },
+    bleedBox: { x: 0, y: 0, width: 170, height: 259.6 },
+    images: [{ x: 0, y: 0, width: 170, height: 259.6, image: cardImage }],
+    lines: [{ x1: 0, y1: 8.5, x2: -0.0001, y2: 8.5 }],
+  },
+  {
+    width: 595.28,
+    height: 841.89,
+    images: [
+      { x: 10, y: 10, width: 100, height: 150, image: cardImage },
+      { x: 120, y: 10, width: 100, height: 150, image: jpeg(2) },
+    ],
+    lines: [],
+  },
+];
+
+describe('buildPdf', () => {
+  const bytes = buildPdf(pages, { title: 'Badges – Zoë', creator: 'Pixel Cards' });
+  const text = asBinaryText(bytes);
+
+  it('starts with a binary-marked header and ends with the trailer', () => {
+    expect(text.startsWith('%PDF-1.4\n%')).toBe(true);
+    expect(bytes[10]).toBeGreaterThan(127);
+    expect(text.endsWith('%%EOF\n')).toBe(true);
+  });
+
+  it('points every xref entry at its "N 0 obj"', () => {
+    const { startxref, header, count, entries } = parseXref(text);
+
+    expect(header).toBe('xref');
+    expect(text.slice(startxref)).toMatch(/^xref\n0 \d+\n0000000000 65535 f \n/);
+    // Catalog, page tree, info, two images, then a page and content stream per page
+    expect(count).toBe(1 + 3 + 2 + pages.length * 2);
+    entries.slice(1).forEach((entry, index) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/);
+      const offset = Number(entry.slice(0, 10));
+      expect(text.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true);
+    });
+    expect(text).toContain(`/Size ${count}`);
+  });
+
+  it('keeps xref entries at 20 bytes each', () => {
+    const { startxref, count } = parseXref(text);
+    const table = text.slice(startxref, text.indexOf('trailer', startxref));
+
+    expect(table.length).toBe(`xref\n0 ${count}\n`.length + count * 20);
+  });
+
+  it('embeds each image once with its exact length and reuses it across pages', () => {
+    expect(text.match(/\/Subtype \/Image/g)).toHaveLength(2);
+    expect(text).toContain(`/Length ${cardImage.data.length} >>\nstream\n${asBinaryText(cardImage.data)}\nendstream`);
+    expect(text.match(/\/Im1 4 0 R/g)).toHaveLength(2);
+    expect(text).toContain('/Im2 5 0 R');
+  });
+
+  it('gives content streams their byte length', () => {
+    const streams = [...text.matchAll(/<< \/Length (\d+) >>\nstream\n/g)];
+
+    expect(streams).toHaveLength(pages.length);
+    streams.forEach(match => {
+      const start = match.index! + match[0].length;
+      expect(text.slice(start + Number(match[1]), start + Number(match[1]) + 10)).toBe('\nendstream');
+    });
+  });
+
+  it('writes page boxes, placements and hairlines with tidy numbers', () => {
+    expect(text).toContain('/TrimBox [8.5 8.5 161.5 251.1]');
+    expect(text).toContain('/BleedBox [0 0 170 259.6]');
+    expect(text).toContain('170 0 0 259.6 0 0 cm\n/Im1 Do');
+    expect(text).toContain('0.25 w\n1 1 1 1 K\n0 8.5 m 0 8.5 l\nS');
+    expect(text).not.toContain('-0 ');
+  });
+
+  it('encodes the document info as UTF-16BE', () => {
+    expect(text).toContain('/Title <FEFF004200610064006700650073002020130020005A006F00EB>');
+    expect(text).toContain('/Creator <FEFF');
+  });
+
+  it('refuses to write an empty document', () => {
+    expect(() => buildPdf([])).toThrow(/at least one page/);
+  });
+});
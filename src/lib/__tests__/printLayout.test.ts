@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cardsPerSheet,
+  imposeCards,
+  validatePrintOptions,
+  CR80_CARD_SIZE,
+  PRINT_LIMITS,
+  PRINT_SHEETS,
+} from '../printLayout';
+import type { PrintOptions, PrintRect, PrintSheetId } from '../printLayout';
+
+const options = (overrides: Partial<PrintOptions> = {}): PrintOptions => ({
+  cardSize: CR80_CARD_SIZE,
+  bleed: 3,
+  cropMarks: true,
+  sheet: 'a4',
+  backs: false,
+  ...overrides,
+});
+
+const LANDSCAPE_CR80 = { width: CR80_CARD_SIZE.height, height: CR80_CARD_SIZE.width };
+
+const contains = (outer: PrintRect, inner: PrintRect) =>
+  inner.x >= outer.x - 1e-9
+  && inner.y >= outer.y - 1e-9
+  && inner.x + inner.width <= outer.x + outer.width + 1e-9
+  && inner.y + inner.height <= outer.y + outer.height + 1e-9;
+
+describe('cardsPerSheet', () => {
+  const cases: [PrintSheetId, typeof CR80_CARD_SIZE, number, number][] = [
+    ['a4', CR80_CARD_SIZE, 0, 9],
+    ['a4', CR80_CARD_SIZE, 3, 9],
+    ['a4', LANDSCAPE_CR80, 0, 10],
+    ['a4', LANDSCAPE_CR80, 3, 8],
+    ['letter', CR80_CARD_SIZE, 0, 9],
+    ['letter', CR80_CARD_SIZE, 3, 6],
+    ['letter', LANDSCAPE_CR80, 0, 8],
+    ['letter', LANDSCAPE_CR80, 3, 8],
+    ['card', CR80_CARD_SIZE, 3, 1],
+  ];
+
+  it.each(cases)('fits CR80 on %s (%o) with %dmm bleed %d times', (sheet, cardSize, bleed, expected) => {
+    expect(cardsPerSheet(options({ sheet, cardSize, bleed }))).toBe(expected);
+  });
+});
+
+describe('validatePrintOptions', () => {
+  it('accepts the defaults', () => {
+    expect(validatePrintOptions(options())).toEqual([]);
+  });
+
+  it('rejects card sides, bleed and sheets out of range', () => {
+    expect(validatePrintOptions(options({ cardSize: { width: 10, height: 85.6 } }))).toHaveLength(1);
+    expect(validatePrintOptions(options({ bleed: PRINT_LIMITS.MAX_BLEED + 1 }))).toHaveLength(1);
+    expect(validatePrintOptions(options({ bleed: -1 }))).toHaveLength(1);
+    expect(validatePrintOptions(options({ cardSize: { width: 195, height: 100 } }))[0]).toContain('A4');
+    expect(validatePrintOptions(options({ sheet: 'card', cardSize: { width: 195, height: 100 } }))).toEqual([]);
+  });
+
+  it('makes imposeCards throw', () => {
+    expect(() => imposeCards(1, options({ bleed: NaN }))).toThrow(/bleed/i);
+  });
+});
+
+describe('imposeCards', () => {
+  it('fills sheets row by row and starts a new sheet when one is full', () => {
+    const sheets = imposeCards(20, options({ sheet: 'letter' }));
+
+    expect(sheets.map(sheet => sheet.slots.length)).toEqual([6, 6, 6, 2]);
+    expect(sheets.flatMap(sheet => sheet.slots.map(slot => slot.cardIndex))).toEqual(Array.from({ length: 20 }, (_, i) => i));
+    expect(sheets.every(sheet => sheet.width === PRINT_SHEETS.letter.width && sheet.side === 'front')).toBe(true);
+
+    const [first, second, , fourth] = sheets[0].slots;
+    expect(second.trim.y).toBe(first.trim.y);
+    expect(second.trim.x).toBeCloseTo(first.trim.x + CR80_CARD_SIZE.width + 6);
+    expect(fourth.trim.x).toBe(first.trim.x);
+    expect(fourth.trim.y).toBeCloseTo(first.trim.y + CR80_CARD_SIZE.height + 6);
+  });
+
+  it('centres the grid and grows each trim by the bleed', () => {
+    const { slots, width, height } = imposeCards(9, options())[0];
+    const left = Math.min(...slots.map(slot => slot.bleed.x));
+    const right = Math.max(...slots.map(slot => slot.bleed.x + slot.bleed.width));
+    const top = Math.min(...slots.map(slot => slot.bleed.y));
+    const bottom = Math.max(...slots.map(slot => slot.bleed.y + slot.bleed.height));
+
+    expect(left).toBeCloseTo(width - right);
+    expect(top).toBeCloseTo(height - bottom);
+    expect(left).toBeGreaterThanOrEqual(PRINT_LIMITS.SHEET_MARGIN);
+    slots.forEach(({ trim, bleed }) => {
+      expect(bleed).toEqual({ x: trim.x - 3, y: trim.y - 3, width: trim.width + 6, height: trim.height + 6 });
+    });
+  });
+
+  it('sizes single-card pages to the bleed plus room for crop marks', () => {
+    const markSpace = PRINT_LIMITS.MARK_OFFSET + PRINT_LIMITS.MARK_LENGTH;
+    const [withMarks] = imposeCards(1, options({ sheet: 'card' }));
+    const [plain] = imposeCards(1, options({ sheet: 'card', cropMarks: false }));
+
+    expect(withMarks.width).toBeCloseTo(CR80_CARD_SIZE.width + 2 * (3 + markSpace));
+    expect(withMarks.slots[0].trim.x).toBeCloseTo(3 + markSpace);
+    expect(plain.width).toBeCloseTo(CR80_CARD_SIZE.width + 6);
+    expect(plain.slots[0].bleed).toEqual({ x: 0, y: 0, width: plain.width, height: plain.height });
+    expect(plain.marks).toEqual([]);
+  });
+
+  it('follows each front sheet with a back sheet that mirrors slot x positions', () => {
+    const sheets = imposeCards(8, options({ sheet: 'letter', backs: true }));
+
+    expect(sheets.map(sheet => sheet.side)).toEqual(['front', 'back', 'front', 'back']);
+    for (let i = 0; i < sheets.length; i += 2) {
+      const [front, back] = [sheets[i], sheets[i + 1]];
+      expect(back.slots.map(slot => slot.cardIndex)).toEqual(front.slots.map(slot => slot.cardIndex));
+      back.slots.forEach((slot, index) => {
+        const facing = front.slots[index];
+        expect(slot.trim.x).toBeCloseTo(front.width - facing.trim.x - facing.trim.width);
+        expect(slot.bleed.x).toBeCloseTo(front.width - facing.bleed.x - facing.bleed.width);
+        expect(slot.trim.y).toBe(facing.trim.y);
+      });
+      back.marks.forEach((mark, index) => {
+        expect(mark.x1).toBeCloseTo(front.width - front.marks[index].x1);
+        expect(mark.y1).toBe(front.marks[index].y1);
+      });
+    }
+  });
+
+  it('puts the first card of a row on the right of the back sheet', () => {
+    const [front, back] = imposeCards(3, options({ backs: true }));
+
+    expect(front.slots[0].trim.x).toBeLessThan(front.slots[2].trim.x);
+    expect(back.slots[0].trim.x).toBeCloseTo(front.slots[2].trim.x);
+  });
+});
+
+describe('crop marks', () => {
+  it('sit outside every bleed area, offset from the grid edge', () => {
+    for (const bleed of [0, 3]) {
+      const { slots, marks } = imposeCards(6, options({ bleed }))[0];
+      const bottom = Math.max(...slots.map(slot => slot.bleed.y + slot.bleed.height));
+
+      expect(marks.length).toBeGreaterThan(0);
+      marks.forEach(mark => {
+        const rect: PrintRect = {
+          x: Math.min(mark.x1, mark.x2),
+          y: Math.min(mark.y1, mark.y2),
+          width: Math.abs(mark.x2 - mark.x1),
+          height: Math.abs(mark.y2 - mark.y1),
+        };
+        expect(Math.hypot(rect.width, rect.height)).toBeCloseTo(PRINT_LIMITS.MARK_LENGTH);
+        slots.forEach(slot => {
+          const overlaps = rect.x < slot.bleed.x + slot.bleed.width
+            && rect.x + rect.width > slot.bleed.x
+            && rect.y < slot.bleed.y + slot.bleed.height
+            && rect.y + rect.height > slot.bleed.y;
+          expect(overlaps).toBe(false);
+        });
+      });
+
+      const belowGrid = marks.filter(mark => mark.y1 > bottom);
+      expect(belowGrid.every(mark => mark.y1 === bottom + PRINT_LIMITS.MARK_OFFSET)).toBe(true);
+    }
+  });
+
+  it('line up with every trim edge, sharing marks between cards without bleed', () => {
+    const withBleed = imposeCards(9, options())[0].marks;
+    const noBleed = imposeCards(9, options({ bleed: 0 }))[0].marks;
+    const vertical = (marks: typeof noBleed) => marks.filter(mark => mark.x1 === mark.x2);
+
+    // Two marks (top and bottom) per trim line
+    expect(vertical(withBleed)).toHaveLength(3 * 2 * 2);
+    expect(vertical(noBleed)).toHaveLength(4 * 2);
+    expect(withBleed).toHaveLength(3 * 2 * 2 + 3 * 2 * 2);
+  });
+
+  it('stay on the sheet', () => {
+    for (const sheet of ['a4', 'letter', 'card'] as const) {
+      const [page] = imposeCards(9, options({ sheet }));
+      const onSheet: PrintRect = { x: 0, y: 0, width: page.width, height: page.height };
+      page.marks.forEach(mark => {
+        expect(contains(onSheet, { x: mark.x1, y: mark.y1, width: 0, height: 0 })).toBe(true);
+        expect(contains(onSheet, { x: mark.x2, y: mark.y2, width: 0, height: 0 })).toBe(true);
+      });
+    }
+  });
+
+  it('are left out when disabled', () => {
+    expect(imposeCards(9, options({ cropMarks: false }))[0].marks).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import jsQR from 'jsqr';
+import { encodeQr, qrToPath, QR_MAX_VERSION, QR_QUIET_ZONE } from '../qrCode';
+import type { QrCode, QrErrorCorrection } from '../qrCode';
+
+const SCALE = 4;
+
+/**
+ * Draw a code as RGBA at SCALE pixels per module, with the quiet zone
+ */
+const toRgba = (code: QrCode) => {
+  const side = (code.size + QR_QUIET_ZONE * 2) * SCALE;
+  const data = new Uint8ClampedArray(side * side * 4).fill(255);
+  for (let y = 0; y < side; y++) {
+    for (let x = 0; x < side; x++) {
+      const moduleX = Math.floor(x / SCALE) - QR_QUIET_ZONE;
+      const moduleY = Math.floor(y / SCALE) - QR_QUIET_ZONE;
+      const inside = moduleX >= 0 && moduleY >= 0 && moduleX < code.size && moduleY < code.size;
+      if (inside && code.modules[moduleY * code.size + moduleX]) {
+        const offset = (y * side + x) * 4;
+        data[offset] = data[offset + 1] = data[offset + 2] = 0;
+      }
+    }
+  }
+  return { data, side };
+};
+
+const decode = (code: QrCode): string | null => {
+  const { data, side } = toRgba(code);
+  return jsQR(data, side, side, { inversionAttempts: 'dontInvert' })?.data ?? null;
+};
+
+const LEVELS: QrErrorCorrection[] = ['L', 'M', 'Q', 'H'];
+const CARD_URL = 'https://example.com/pixel-card/3f2b8a1c-9d4e-4f6a-8b2c-1d2e3f4a5b6c';
+
+describe('encodeQr', () => {
+  it.each(LEVELS)('round-trips a card link at level %s', level => {
+    const code = encodeQr(CARD_URL, { errorCorrection: level });
+    expect(code.size).toBe(code.version * 4 + 17);
+    expect(decode(code)).toBe(CARD_URL);
+  });
+
+  it('picks the smallest version that fits', () => {
+    expect(encodeQr('hi').version).toBe(1);
+    expect(encodeQr(CARD_URL).version).toBeGreaterThan(1);
+  });
+
+  it.each(LEVELS)('round-trips a version 7+ payload with version info bits at level %s', level => {
+    // Version 7 is the first with version information blocks; each length overflows version 6
+    const text = 'x'.repeat({ L: 140, M: 110, Q: 78, H: 60 }[level]);
+    const code = encodeQr(text, { errorCorrection: level });
+    expect(code.version).toBeGreaterThanOrEqual(7);
+    expect(decode(code)).toBe(text);
+  });
+
+  it('round-trips UTF-8 text', () => {
+    const text = 'Zoë — 名前 ✓';
+    expect(decode(encodeQr(text))).toBe(text);
+  });
+
+  it('round-trips the largest version', () => {
+    const text = 'y'.repeat(200);
+    const code = encodeQr(text, { errorCorrection: 'M' });
+    expect(code.version).toBe(QR_MAX_VERSION);
+    expect(decode(code)).toBe(text);
+  });
+
+  it('rejects text too long for the largest version', () => {
+    expect(() => encodeQr('z'.repeat(300), { errorCorrection: 'L' })).toThrow(/too long/);
+    expect(() => encodeQr('z'.repeat(200), { errorCorrection: 'H' })).toThrow(/too long/);
+  });
+});
+
+describe('qrToPath', () => {
+  it('draws one unit square per dark module, offset by the quiet zone', () => {
+    const code = encodeQr('hi');
+    const path = qrToPath(code, 2);
+    // Runs are drawn as "M x y h w v 1 h -w z"
+    const runs = [...path.matchAll(/M(\d+) (\d+)h(\d+)/g)];
+    const dark = runs.reduce((total, [, , , width]) => total + Number(width), 0);
+    expect(dark).toBe(code.modules.reduce((total, module) => total + module, 0));
+    expect(Math.min(...runs.map(([, x]) => Number(x)))).toBeGreaterThanOrEqual(2);
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Pixel-art backdrops composited behind transparent portraits
+ * Backdrops are drawn procedurally at the portrait's grid resolution so they
+ * share its pixel size and need no image assets.
+ */
+
+import { createPixelBuffer, hexToRgb } from './pixelArt';
+import type { PixelBuffer, RGB } from './pixelArt';
+
+export type BackdropId =
+  | 'none'
+  | 'office'
+  | 'space'
+  | 'forest'
+  | 'brand-blue'
+  | 'brand-sky'
+  | 'brand-charcoal'
+  | 'brand-green'
+  | 'sunset-gradient'
+  | 'ocean-gradient';
+
+export type BackdropKind = 'none' | 'solid' | 'gradient' | 'scene';
+
+export interface Backdrop {
+  id: BackdropId;
+  label: string;
+  kind: BackdropKind;
+  swatch: string; // CSS background used for the picker preview
+  render: (width: number, height: number) => PixelBuffer;
+}
+
+const fillRect = (buffer: PixelBuffer, x0: number, y0: number, x1: number, y1: number, color: RGB): void => {
+  for (let y = Math.max(0, Math.round(y0)); y < Math.min(buffer.height, Math.round(y1)); y++) {
+    for (let x = Math.max(0, Math.round(x0)); x < Math.min(buffer.width, Math.round(x1)); x++) {
+      setPixel(buffer, x, y, color);
+    }
+  }
+};
+
+const setPixel = (buffer: PixelBuffer, x: number, y: number, color: RGB): void => {
+  if (x < 0 || y < 0 || x >= buffer.width || y >= buffer.height) return;
+  const i = (y * buffer.width + x) * 4;
+  buffer.data[i] = color[0];
+  buffer.data[i + 1] = color[1];
+  buffer.data[i + 2] = color[2];
+  buffer.data[i + 3] = 255;
+};
+
+const fillCircle = (buffer: PixelBuffer, cx: number, cy: number, radius: number, color: RGB): void => {
+  for (let y = Math.floor(cy - radius); y <= Math.ceil(cy + radius); y++) {
+    for (let x = Math.floor(cx - radius); x <= Math.ceil(cx + radius); x++) {
+      if ((x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2 <= radius ** 2) {
+        setPixel(buffer, x, y, color);
+      }
+    }
+  }
+};
+
+/**
+ * Small seeded PRNG so scenes look identical on every render
+ */
+const seededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const mix = (a: RGB, b: RGB, t: number): RGB => [
+  Math.round(a[0] + (b[0] - a[0]) * t),
+  Math.round(a[1] + (b[1] - a[1]) * t),
+  Math.round(a[2] + (b[2] - a[2]) * t),
+];
+
+/**
+ * Vertical gradient in hard colour bands, the way pixel art does it
+ */
+const fillBandedGradient = (
+  buffer: PixelBuffer,
+  y0: number,
+  y1: number,
+  stops: string[],
+  bands: number
+): void => {
+  const colors = stops.map(hexToRgb);
+  const top = Math.max(0, Math.round(y0));
+  const bottom = Math.min(buffer.height, Math.round(y1));
+  const span = Math.max(1, bottom - top);
+
+  for (let y = top; y < bottom; y++) {
+    const band = Math.min(bands - 1, Math.floor(((y - top) / span) * bands));
+    const position = (band / Math.max(1, bands - 1)) * (colors.length - 1);
+    const index = Math.min(colors.length - 2, Math.floor(position));
+    const color = colors.length === 1 ? colors[0] : mix(colors[index], colors[index + 1], position - index);
+    fillRect(buffer, 0, y, buffer.width, y + 1, color);
+  }
+};
+
+const solid = (hex: string) => (width: number, height: number): PixelBuffer => {
+  const buffer = createPixelBuffer(width, height);
+  fillRect(buffer, 0, 0, width, height, hexToRgb(hex));
+  return buffer;
+};
+
+const gradient = (stops: string[]) => (width: number, height: number): PixelBuffer => {
+  const buffer = createPixelBuffer(width, height);
+  fillBandedGradient(buffer, 0, height, stops, 8);
+  return buffer;
+};
+
+const renderOffice = (width: number, height: number): PixelBuffer => {
+  const buffer = createPixelBuffer(width, height);
+  const floorTop = height * 0.78;
+
+  // Wall with a darker skirting line
+  fillRect(buffer, 0, 0, width, floorTop, hexToRgb('#d9cba3'));
+  fillRect(buffer, 0, floorTop - Math.max(1, height * 0.03), width, floorTop, hexToRgb('#b8a67c'));
+
+  // Window with frame, sky and a cloud
+  const frame = hexToRgb('#5b4636');
+  fillRect(buffer, width * 0.06, height * 0.1, width * 0.42, height * 0.46, frame);
+  fillRect(buffer, width * 0.08, height * 0.12, width * 0.4, height * 0.44, hexToRgb('#8fd3ff'));
+  fillRect(buffer, width * 0.12, height * 0.2, width * 0.26, height * 0.25, hexToRgb('#ffffff'));
+  fillRect(buffer, width * 0.23, height * 0.12, width * 0.25, height * 0.44, frame);
+  fillRect(buffer, width * 0.08, height * 0.27, width * 0.4, height * 0.29, frame);
+
+  // Shelf with books
+  const shelfY = height * 0.34;
+  fillRect(buffer, width * 0.6, shelfY, width * 0.94, shelfY + Math.max(1, height * 0.03), frame);
+  const books = ['#c0392b', '#2e86de', '#27ae60', '#f1c40f', '#8e44ad'].map(hexToRgb);
+  const bookWidth = Math.max(1, (width * 0.3) / books.length);
+  books.forEach((color, index) => {
+    const x = width * 0.62 + index * bookWidth;
+    const bookHeight = height * (0.1 + (index % 2) * 0.03);
+    fillRect(buffer, x, shelfY - bookHeight, x + bookWidth - (bookWidth > 2 ? 1 : 0), shelfY, color);
+  });
+
+  // Plant in the corner
+  fillRect(buffer, width * 0.84, floorTop - height * 0.1, width * 0.94, floorTop, hexToRgb('#a0522d'));
+  fillCircle(buffer, width * 0.89, floorTop - height * 0.16, width * 0.07, hexToRgb('#3e8e41'));
+
+  // Carpet floor
+  fillRect(buffer, 0, floorTop, width, height, hexToRgb('#7a6a8f'));
+  const random = seededRandom(7);
+  for (let y = Math.ceil(floorTop); y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (random() < 0.08) setPixel(buffer, x, y, hexToRgb('#6a5a7f'));
+    }
+  }
+
+  return buffer;
+};
+
+const renderSpace = (width: number, height: number): PixelBuffer => {
+  const buffer = createPixelBuffer(width, height);
+  fillBandedGradient(buffer, 0, height, ['#0b1026', '#1b1f4a', '#2d1b4e'], 6);
+
+  const random = seededRandom(42);
+  const bright = hexToRgb('#ffffff');
+  const dim = hexToRgb('#9aa4d6');
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const roll = random();
+      if (roll < 0.01) setPixel(buffer, x, y, bright);
+      else if (roll < 0.03) setPixel(buffer, x, y, dim);
+    }
+  }
+
+  // Planet with a highlight and a ring
+  const cx = width * 0.8;
+  const cy = height * 0.2;
+  const radius = Math.max(2, width * 0.12);
+  fillRect(buffer, cx - radius * 1.7, cy, cx + radius * 1.7, cy + Math.max(1, radius * 0.2), hexToRgb('#f2cc8f'));
+  fillCircle(buffer, cx, cy, radius, hexToRgb('#e07a5f'));
+  fillCircle(buffer, cx - radius * 0.35, cy - radius * 0.35, radius * 0.35, hexToRgb('#f4a582'));
+
+  return buffer;
+};
+
+const renderForest = (width: number, height: number): PixelBuffer => {
+  const buffer = createPixelBuffer(width, height);
+  const groundTop = height * 0.8;
+  fillBandedGradient(buffer, 0, groundTop, ['#7ec8f0', '#d4f1ff'], 5);
+
+  // Two rows of pine trees, the far row darker
+  const drawPine = (cx: number, baseY: number, treeHeight: number, color: RGB) => {
+    for (let row = 0; row < treeHeight; row++) {
+      const halfWidth = ((row + 1) / treeHeight) * treeHeight * 0.35;
+      fillRect(buffer, cx - halfWidth, baseY - treeHeight + row, cx + halfWidth, baseY - treeHeight + row + 1, color);
+    }
+    fillRect(buffer, cx - Math.max(0.5, width * 0.01), baseY, cx + Math.max(0.5, width * 0.01), baseY + height * 0.04, hexToRgb('#6b4423'));
+  };
+
+  const far = hexToRgb('#2f5d3a');
+  const near = hexToRgb('#3f7f46');
+  for (let i = 0; i < 7; i++) {
+    drawPine(width * (0.07 + i * 0.15), groundTop - height * 0.08, height * 0.3, far);
+  }
+  for (let i = 0; i < 4; i++) {
+    drawPine(width * (0.02 + i * 0.32), groundTop, height * 0.42, near);
+  }
+
+  // Grass with scattered lighter blades
+  fillRect(buffer, 0, groundTop, width, height, hexToRgb('#4a8f3c'));
+  const random = seededRandom(11);
+  for (let y = Math.ceil(groundTop); y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (random() < 0.12) setPixel(buffer, x, y, hexToRgb('#5fae4b'));
+    }
+  }
+
+  return buffer;
+};
+
+export const BACKDROPS: Record<BackdropId, Backdrop> = {
+  'none': {
+    id: 'none',
+    label: 'Transparent',
+    kind: 'none',
+    swatch: 'repeating-conic-gradient(#e5e7eb 0% 25%, #ffffff 0% 50%) 50% / 8px 8px',
+    render: (width, height) => createPixelBuffer(width, height),
+  },
+  'office': {
+    id: 'office',
+    label: 'Office',
+    kind: 'scene',
+    swatch: 'linear-gradient(#d9cba3 78%, #7a6a8f 78%)',
+    render: renderOffice,
+  },
+  'space': {
+    id: 'space',
+    label: 'Space',
+    kind: 'scene',
+    swatch: 'linear-gradient(#0b1026, #2d1b4e)',
+    render: renderSpace,
+  },
+  'forest': {
+    id: 'forest',
+    label: 'Forest',
+    kind: 'scene',
+    swatch: 'linear-gradient(#7ec8f0 50%, #3f7f46 50%)',
+    render: renderForest,
+  },
+  'brand-blue': {
+    id: 'brand-blue',
+    label: 'Blue',
+    kind: 'solid',
+    swatch: '#2563eb',
+    render: solid('#2563eb'),
+  },
+  'brand-sky': {
+    id: 'brand-sky',
+    label: 'Sky',
+    kind: 'solid',
+    swatch: '#bfdbfe',
+    render: solid('#bfdbfe'),
+  },
+  'brand-charcoal': {
+    id: 'brand-charcoal',
+    label: 'Charcoal',
+    kind: 'solid',
+    swatch: '#1f2937',
+    render: solid('#1f2937'),
+  },
+  'brand-green': {
+    id: 'brand-green',
+    label: 'Green',
+    kind: 'solid',
+    swatch: '#16a34a',
+    render: solid('#16a34a'),
+  },
+  'sunset-gradient': {
+    id: 'sunset-gradient',
+    label: 'Sunset',
+    kind: 'gradient',
+    swatch: 'linear-gradient(#3b1c5a, #ff6f59, #ffd166)',
+    render: gradient(['#3b1c5a', '#ff6f59', '#ffd166']),
+  },
+  'ocean-gradient': {
+    id: 'ocean-gradient',
+    label: 'Ocean',
+    kind: 'gradient',
+    swatch: 'linear-gradient(#38bdf8, #1e3a8a)',
+    render: gradient(['#38bdf8', '#1e3a8a']),
+  },
+};
+
+export const DEFAULT_BACKDROP_ID: BackdropId = 'none';
+
+/**
+ * Type guard for checking if a value is a known backdrop id
+ */
+export function isBackdropId(value: unknown): value is BackdropId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BACKDROPS, value);
+}
+
+/**
+ * Returns the backdrop for an id, falling back to no backdrop for unknown ids
+ */
+export function getBackdrop(id?: string | null): Backdrop {
+  return isBackdropId(id) ? BACKDROPS[id] : BACKDROPS[DEFAULT_BACKDROP_ID];
+}
+
+/**
+ * All backdrops in display order
+ */
+export function listBackdrops(): Backdrop[] {
+  return Object.values(BACKDROPS);
+}
+
+/**
+ * Draws an overlay on top of a base buffer of the same size using alpha blending
+ */
+export function compositeOver(base: PixelBuffer, overlay: PixelBuffer): PixelBuffer {
+  if (base.width !== overlay.width || base.height !== overlay.height) {
+    throw new Error('Cannot composite buffers of different sizes');
+  }
+
+  const data = new Uint8ClampedArray(base.data);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = overlay.data[i + 3] / 255;
+    if (alpha === 0) continue;
+
+    const baseAlpha = (data[i + 3] / 255) * (1 - alpha);
+    const outAlpha = alpha + baseAlpha;
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = Math.round((overlay.data[i + c] * alpha + data[i + c] * baseAlpha) / outAlpha);
+    }
+    data[i + 3] = Math.round(outAlpha * 255);
+  }
+
+  return { width: base.width, height: base.height, data };
+}
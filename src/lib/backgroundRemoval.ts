@@ -0,0 +1,146 @@
+/**
+ * Background-to-alpha conversion for pixel portraits
+ * The stylizer paints a plain background; this flood-fills it from the image
+ * border to transparency and cleans up the leftover halo and specks.
+ */
+
+import type { PixelBuffer, RGB } from './pixelArt';
+
+export interface BackgroundRemovalOptions {
+  backgroundColor: RGB;
+  tolerance: number; // Max per-channel distance for the flood fill
+  fringeTolerance: number; // Looser distance for anti-aliased pixels touching the background
+  maxSpeckSize: number; // Opaque islands up to this many pixels are removed
+}
+
+export const DEFAULT_BACKGROUND_REMOVAL_OPTIONS: BackgroundRemovalOptions = {
+  backgroundColor: [255, 255, 255],
+  tolerance: 40,
+  fringeTolerance: 96,
+  maxSpeckSize: 2,
+};
+
+const channelDistance = (data: Uint8ClampedArray, i: number, color: RGB): number => {
+  return Math.max(
+    Math.abs(data[i] - color[0]),
+    Math.abs(data[i + 1] - color[1]),
+    Math.abs(data[i + 2] - color[2])
+  );
+};
+
+const neighbours = (index: number, width: number, height: number): number[] => {
+  const x = index % width;
+  const y = Math.floor(index / width);
+  const result: number[] = [];
+  if (x > 0) result.push(index - 1);
+  if (x < width - 1) result.push(index + 1);
+  if (y > 0) result.push(index - width);
+  if (y < height - 1) result.push(index + width);
+  return result;
+};
+
+/**
+ * Marks every pixel connected to the border whose colour is within tolerance of the background
+ */
+export function findBackground(buffer: PixelBuffer, backgroundColor: RGB, tolerance: number): Uint8Array {
+  const { width, height, data } = buffer;
+  const isBackground = new Uint8Array(width * height);
+  const queue: number[] = [];
+
+  const matches = (index: number) => {
+    const i = index * 4;
+    return data[i + 3] < 16 || channelDistance(data, i, backgroundColor) <= tolerance;
+  };
+
+  const enqueue = (index: number) => {
+    if (!isBackground[index] && matches(index)) {
+      isBackground[index] = 1;
+      queue.push(index);
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    enqueue(x);
+    enqueue((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    enqueue(y * width);
+    enqueue(y * width + width - 1);
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    for (const next of neighbours(queue[head], width, height)) {
+      enqueue(next);
+    }
+  }
+
+  return isBackground;
+}
+
+/**
+ * Converts the connected background to transparency with edge cleanup
+ * Interior areas that happen to match the background colour (eyes, teeth)
+ * stay opaque because they aren't connected to the border.
+ */
+export function removeBackground(
+  source: PixelBuffer,
+  options: Partial<BackgroundRemovalOptions> = {}
+): PixelBuffer {
+  const settings = { ...DEFAULT_BACKGROUND_REMOVAL_OPTIONS, ...options };
+  const { width, height } = source;
+  const data = new Uint8ClampedArray(source.data);
+  const transparent = findBackground(source, settings.backgroundColor, settings.tolerance);
+
+  // Defringe: drop light halo pixels that touch the removed background
+  const fringe: number[] = [];
+  for (let index = 0; index < width * height; index++) {
+    if (transparent[index]) continue;
+    const touchesBackground = neighbours(index, width, height).some(next => transparent[next]);
+    if (touchesBackground && channelDistance(data, index * 4, settings.backgroundColor) <= settings.fringeTolerance) {
+      fringe.push(index);
+    }
+  }
+  fringe.forEach(index => { transparent[index] = 1; });
+
+  // Remove tiny opaque specks floating in the background
+  const visited = new Uint8Array(width * height);
+  for (let start = 0; start < width * height; start++) {
+    if (transparent[start] || visited[start]) continue;
+
+    const island: number[] = [start];
+    visited[start] = 1;
+    for (let head = 0; head < island.length; head++) {
+      for (const next of neighbours(island[head], width, height)) {
+        if (!transparent[next] && !visited[next]) {
+          visited[next] = 1;
+          island.push(next);
+        }
+      }
+    }
+
+    if (island.length <= settings.maxSpeckSize) {
+      island.forEach(index => { transparent[index] = 1; });
+    }
+  }
+
+  for (let index = 0; index < width * height; index++) {
+    if (transparent[index]) {
+      data[index * 4] = 0;
+      data[index * 4 + 1] = 0;
+      data[index * 4 + 2] = 0;
+      data[index * 4 + 3] = 0;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Whether a buffer has any transparent pixels
+ */
+export function hasTransparency(buffer: PixelBuffer): boolean {
+  for (let i = 3; i < buffer.data.length; i += 4) {
+    if (buffer.data[i] < 255) return true;
+  }
+  return false;
+}
@@ -0,0 +1,103 @@
+/**
+ * Camera and capture preferences, persisted in local storage between visits
+ */
+
+export type CameraResolutionId = 'low' | 'medium' | 'high';
+
+export interface CameraResolution {
+  id: CameraResolutionId;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const CAMERA_RESOLUTIONS: Record<CameraResolutionId, CameraResolution> = {
+  low: { id: 'low', label: 'Low (640×480)', width: 640, height: 480 },
+  medium: { id: 'medium', label: 'Medium (1280×720)', width: 1280, height: 720 },
+  high: { id: 'high', label: 'High (1920×1080)', width: 1920, height: 1080 },
+};
+
+// Front camera for portraits, back camera for scanning cards
+export type CameraFacingMode = 'user' | 'environment';
+
+export const COUNTDOWN_OPTIONS = [0, 3, 5, 10] as const;
+
+export type CountdownSeconds = typeof COUNTDOWN_OPTIONS[number];
+
+export interface CameraSettings {
+  deviceId: string | null; // Null lets the browser pick the front camera
+  resolution: CameraResolutionId;
+  mirrored: boolean; // Show and capture the image as a mirror
+  countdownSeconds: CountdownSeconds;
+  burstMode: boolean;
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  resolution: 'low',
+  mirrored: true,
+  countdownSeconds: 0,
+  burstMode: false,
+};
+
+export const CAMERA_SETTINGS_STORAGE_KEY = 'pixel-id:camera-settings';
+
+export const isCameraResolutionId = (value: unknown): value is CameraResolutionId => {
+  return typeof value === 'string' && value in CAMERA_RESOLUTIONS;
+};
+
+const isCountdownSeconds = (value: unknown): value is CountdownSeconds => {
+  return COUNTDOWN_OPTIONS.includes(value as CountdownSeconds);
+};
+
+/**
+ * Read saved settings, falling back to defaults field by field for missing or invalid values
+ */
+export function loadCameraSettings(storage: Storage | undefined = globalThis.localStorage): CameraSettings {
+  try {
+    const raw = storage?.getItem(CAMERA_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_CAMERA_SETTINGS;
+
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_CAMERA_SETTINGS;
+
+    return {
+      deviceId: typeof parsed.deviceId === 'string' && parsed.deviceId.length > 0 ? parsed.deviceId : null,
+      resolution: isCameraResolutionId(parsed.resolution) ? parsed.resolution : DEFAULT_CAMERA_SETTINGS.resolution,
+      mirrored: typeof parsed.mirrored === 'boolean' ? parsed.mirrored : DEFAULT_CAMERA_SETTINGS.mirrored,
+      countdownSeconds: isCountdownSeconds(parsed.countdownSeconds) ? parsed.countdownSeconds : DEFAULT_CAMERA_SETTINGS.countdownSeconds,
+      burstMode: typeof parsed.burstMode === 'boolean' ? parsed.burstMode : DEFAULT_CAMERA_SETTINGS.burstMode,
+    };
+  } catch (error) {
+    console.warn('Ignoring unreadable camera settings:', error);
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+}
+
+/**
+ * Persist settings; failures (private mode, full quota) only cost the preference
+ */
+export function saveCameraSettings(settings: CameraSettings, storage: Storage | undefined = globalThis.localStorage): void {
+  try {
+    storage?.setItem(CAMERA_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save camera settings:', error);
+  }
+}
+
+/**
+ * getUserMedia video constraints for the settings
+ * A chosen device is required exactly so an unplugged camera fails loudly
+ * instead of silently switching to another one.
+ */
+export function buildVideoConstraints(
+  settings: CameraSettings,
+  facingMode: CameraFacingMode = 'user'
+): MediaTrackConstraints {
+  const resolution = CAMERA_RESOLUTIONS[settings.resolution];
+  return {
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode }),
+    width: { ideal: resolution.width },
+    height: { ideal: resolution.height },
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Capture-time checks on camera frames: lighting, contrast, blur and framing
+ * Pure functions over pixel buffers so they run on synthetic data as well as
+ * on frames grabbed from the video canvas.
+ */
+
+import { luminance } from './pixelArt';
+import type { PixelBuffer } from './pixelArt';
+
+export type CaptureCheckId = 'brightness' | 'contrast' | 'sharpness' | 'framing';
+
+export interface CaptureCheckResult {
+  check: CaptureCheckId;
+  passed: boolean;
+  value: number;
+  threshold: number; // The bound that was tested (the violated one for ranges)
+  message: string; // Actionable advice when the check fails
+}
+
+export interface CaptureReport {
+  passed: boolean;
+  checks: CaptureCheckResult[];
+}
+
+export interface CaptureAnalysisThresholds {
+  minBrightness: number; // Mean luma, 0-255
+  maxBrightness: number;
+  minContrast: number; // Standard deviation of luma
+  minSharpness: number; // Variance of the Laplacian at the analysis size
+  maxCenterOffset: number; // Distance of the subject from the centre, as a share of the frame size
+}
+
+export const DEFAULT_CAPTURE_ANALYSIS_THRESHOLDS: CaptureAnalysisThresholds = {
+  minBrightness: 70,
+  maxBrightness: 200,
+  minContrast: 28,
+  minSharpness: 90,
+  maxCenterOffset: 0.18,
+};
+
+// Frames are scaled to this longest side first so sharpness values don't depend on camera resolution
+export const CAPTURE_ANALYSIS_SIZE = 160;
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array; // Luma, 0-255
+}
+
+/**
+ * Convert RGBA pixels to luma
+ */
+export function toGray(buffer: PixelBuffer): GrayImage {
+  const data = new Float32Array(buffer.width * buffer.height);
+  for (let i = 0, p = 0; p < data.length; i += 4, p++) {
+    data[p] = luminance(buffer.data[i], buffer.data[i + 1], buffer.data[i + 2]);
+  }
+  return { width: buffer.width, height: buffer.height, data };
+}
+
+const mean = (values: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length > 0 ? sum / values.length : 0;
+};
+
+const variance = (values: Float32Array): number => {
+  const average = mean(values);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += (values[i] - average) ** 2;
+  return values.length > 0 ? sum / values.length : 0;
+};
+
+/**
+ * Mean luma of the frame
+ */
+export function measureBrightness(gray: GrayImage): number {
+  return mean(gray.data);
+}
+
+/**
+ * RMS contrast: the standard deviation of luma
+ */
+export function measureContrast(gray: GrayImage): number {
+  return Math.sqrt(variance(gray.data));
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian; low values mean few sharp edges, i.e. blur
+ */
+export function measureSharpness(gray: GrayImage): number {
+  const { width, height, data } = gray;
+  if (width < 3 || height < 3) return 0;
+
+  const laplacian = new Float32Array((width - 2) * (height - 2));
+  let p = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      laplacian[p++] = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i];
+    }
+  }
+  return variance(laplacian);
+}
+
+/**
+ * Where the subject sits, estimated as the centroid of gradient energy
+ * Faces and hair carry more detail than a typical plain background, so the
+ * centroid follows the subject without needing face detection. Offsets are
+ * relative to the frame size; (0, 0) is the centre.
+ */
+export function measureSubjectOffset(gray: GrayImage): { x: number; y: number; distance: number } {
+  const { width, height, data } = gray;
+  let total = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = data[i + 1] - data[i - 1];
+      const gy = data[i + width] - data[i - width];
+      const energy = Math.hypot(gx, gy);
+      total += energy;
+      sumX += energy * x;
+      sumY += energy * y;
+    }
+  }
+
+  if (total === 0) {
+    return { x: 0, y: 0, distance: 0 };
+  }
+
+  const x = sumX / total / (width - 1) - 0.5;
+  const y = sumY / total / (height - 1) - 0.5;
+  return { x, y, distance: Math.hypot(x, y) };
+}
+
+export function checkBrightness(gray: GrayImage, thresholds: CaptureAnalysisThresholds): CaptureCheckResult {
+  const brightness = measureBrightness(gray);
+  const tooDark = brightness < thresholds.minBrightness;
+  const tooBright = brightness > thresholds.maxBrightness;
+
+  return {
+    check: 'brightness',
+    passed: !tooDark && !tooBright,
+    value: brightness,
+    threshold: tooBright ? thresholds.maxBrightness : thresholds.minBrightness,
+    message: tooDark
+      ? 'Too dark. Face a window or lamp, or turn on more lights.'
+      : tooBright
+        ? 'Too bright. Move away from direct light or a bright window behind the camera.'
+        : `Lighting looks good (brightness ${Math.round(brightness)})`,
+  };
+}
+
+export function checkContrast(gray: GrayImage, thresholds: CaptureAnalysisThresholds): CaptureCheckResult {
+  const contrast = measureContrast(gray);
+  const passed = contrast >= thresholds.minContrast;
+
+  return {
+    check: 'contrast',
+    passed,
+    value: contrast,
+    threshold: thresholds.minContrast,
+    message: passed
+      ? `Contrast looks good (${contrast.toFixed(1)})`
+      : 'The picture looks flat. Avoid backlighting and stand out from the background.',
+  };
+}
+
+export function checkSharpness(gray: GrayImage, thresholds: CaptureAnalysisThresholds): CaptureCheckResult {
+  const sharpness = measureSharpness(gray);
+  const passed = sharpness >= thresholds.minSharpness;
+
+  return {
+    check: 'sharpness',
+    passed,
+    value: sharpness,
+    threshold: thresholds.minSharpness,
+    message: passed
+      ? `Image is sharp (${Math.round(sharpness)})`
+      : 'Blurry. Hold still, wipe the lens and make sure the camera has focused.',
+  };
+}
+
+export function checkFraming(
+  gray: GrayImage,
+  thresholds: CaptureAnalysisThresholds,
+  mirrored: boolean = true
+): CaptureCheckResult {
+  const offset = measureSubjectOffset(gray);
+  const passed = offset.distance <= thresholds.maxCenterOffset;
+
+  // In a mirrored preview a subject right of centre in the frame appears on the
+  // left of the screen and should move right, as in a mirror
+  const movesRight = mirrored ? offset.x > 0 : offset.x < 0;
+  const advice = Math.abs(offset.x) >= Math.abs(offset.y)
+    ? (movesRight ? 'right' : 'left')
+    : (offset.y > 0 ? 'up' : 'down');
+
+  return {
+    check: 'framing',
+    passed,
+    value: offset.distance,
+    threshold: thresholds.maxCenterOffset,
+    message: passed
+      ? 'Subject is centred'
+      : `Off-centre. Move ${advice} a little so your face is in the middle.`,
+  };
+}
+
+/**
+ * Runs every check on a frame and combines them into a report
+ */
+export function analyzeCapture(
+  buffer: PixelBuffer,
+  thresholds: CaptureAnalysisThresholds = DEFAULT_CAPTURE_ANALYSIS_THRESHOLDS,
+  mirrored: boolean = true // Whether the user sees the frame mirrored, for framing advice
+): CaptureReport {
+  const gray = toGray(buffer);
+  const checks = [
+    checkBrightness(gray, thresholds),
+    checkContrast(gray, thresholds),
+    checkSharpness(gray, thresholds),
+    checkFraming(gray, thresholds, mirrored),
+  ];
+
+  return {
+    passed: checks.every(check => check.passed),
+    checks,
+  };
+}
+
+/**
+ * Index of the report with the highest sharpness, e.g. to pick the best frame of a burst
+ * Frames without a report count as not sharp; returns -1 for an empty list.
+ */
+export function pickSharpestFrame(reports: (CaptureReport | null)[]): number {
+  let best = -1;
+  let bestSharpness = -Infinity;
+
+  reports.forEach((report, index) => {
+    const sharpness = report?.checks.find(check => check.check === 'sharpness')?.value ?? 0;
+    if (sharpness > bestSharpness) {
+      best = index;
+      bestSharpness = sharpness;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Messages of the failed checks, in check order
+ */
+export function getCaptureWarnings(report: CaptureReport): string[] {
+  return report.checks.filter(check => !check.passed).map(check => check.message);
+}
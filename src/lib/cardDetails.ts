@@ -0,0 +1,53 @@
+/**
+ * Optional badge details: job title, team, organisation, badge number and dates
+ * Forms hold every detail as text, blank when not given; saved cards hold
+ * null instead. Both render to the same card field rows.
+ */
+
+import type { CardField } from './cardRenderer';
+import type { CreatePixelCardRequest } from '../types/supabase';
+
+export type CardDetailKey = 'jobTitle' | 'team' | 'organization' | 'badgeNumber' | 'issueDate' | 'expiryDate';
+
+export type CardDetails = Record<CardDetailKey, string>;
+
+export const EMPTY_CARD_DETAILS: CardDetails = {
+  jobTitle: '',
+  team: '',
+  organization: '',
+  badgeNumber: '',
+  issueDate: '',
+  expiryDate: '',
+};
+
+// Card labels in priority order; templates show as many rows as their fields region holds
+export const CARD_DETAIL_LABELS: [CardDetailKey, string][] = [
+  ['jobTitle', 'Title'],
+  ['team', 'Team'],
+  ['badgeNumber', 'Badge No.'],
+  ['expiryDate', 'Expires'],
+  ['organization', 'Org'],
+  ['issueDate', 'Issued'],
+];
+
+/**
+ * Field rows for the details that were given
+ */
+export function cardDetailFields(details: Partial<Record<CardDetailKey, string | null>>): CardField[] {
+  return CARD_DETAIL_LABELS.flatMap(([key, label]) => {
+    const value = details[key]?.trim();
+    return value ? [{ label, value }] : [];
+  });
+}
+
+/**
+ * Request fields for the details that were given; blanks are left out
+ */
+export function cardDetailsToRequest(details: CardDetails): Pick<CreatePixelCardRequest, CardDetailKey> {
+  const request: Pick<CreatePixelCardRequest, CardDetailKey> = {};
+  (Object.keys(details) as CardDetailKey[]).forEach(key => {
+    const value = details[key].trim();
+    if (value) request[key] = value;
+  });
+  return request;
+}
@@ -0,0 +1,614 @@
+/**
+ * Card layout and canvas renderer shared by the on-screen card and downloads
+ * A template and the card's content are laid out once into a scene of
+ * rectangles, text lines and the portrait; the preview draws the scene as SVG
+ * and exports draw it on a canvas, so both show the same card.
+ */
+
+import { createCanvas, loadImage } from './imageCanvas';
+import { CARD_FONT_STACKS } from './cardTemplates';
+import { encodeQr, qrToPath } from './qrCode';
+import type { QrCode } from './qrCode';
+import { cardVerifyUrl } from './cardToken';
+import { cardDetailFields } from './cardDetails';
+import type { CardRegion, CardTemplate, CardTextStyle } from './cardTemplates';
+import type { PixelCard } from '../types/supabase';
+
+export interface CardField {
+  label: string;
+  value: string;
+}
+
+export interface CardContent {
+  name: string;
+  imageSrc: string; // Data URL or remote URL of the pixel portrait
+  fields?: CardField[]; // Rows drawn in the template's fields region
+  qrUrl?: string; // Encoded in the template's QR region; unsaved cards have none
+}
+
+/**
+ * Absolute link to a saved card's gallery page
+ */
+export const pixelCardUrl = (id: string, origin: string = window.location.origin): string => {
+  return `${origin}/pixel-card/${id}`;
+};
+
+const CARD_PATH_PATTERN = /^\/pixel-card\/([0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12})\/?$/i;
+
+/**
+ * Card id from a scanned link made by pixelCardUrl, or null if the text isn't one
+ * Any origin is accepted so cards printed from another deployment still resolve here.
+ */
+export function parsePixelCardUrl(text: string): string | null {
+  try {
+    const url = new URL(text.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return url.pathname.match(CARD_PATH_PATTERN)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * What a saved card shows on its face
+ */
+export function cardContentFromPixelCard(card: PixelCard): CardContent {
+  return {
+    name: card.userName,
+    imageSrc: card.imageUrl,
+    fields: cardDetailFields(card),
+    // Signed cards link to their verify page; older, unsigned cards to their gallery page
+    qrUrl: card.verificationToken ? cardVerifyUrl(card.verificationToken) : pixelCardUrl(card.id),
+  };
+}
+
+export interface CardFont {
+  family: string;
+  size: number;
+  weight: number;
+  letterSpacing: number; // In px
+}
+
+export type CardShape =
+  | {
+      kind: 'rect';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      radius: number;
+      fill: string | null;
+      stroke: string | null;
+    }
+  | {
+      kind: 'glow';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      radius: number;
+      color: string;
+      blur: number;
+    }
+  | {
+      kind: 'text';
+      lines: string[];
+      x: number; // Anchor for the alignment
+      y: number; // Top of the first line
+      lineHeight: number;
+      font: CardFont;
+      color: string;
+      align: 'left' | 'center' | 'right';
+    }
+  | {
+      kind: 'image';
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      radius: number;
+      src: string;
+    }
+  | {
+      kind: 'qr';
+      x: number;
+      y: number;
+      size: number;
+      modules: number; // Modules per side, including the quiet zone
+      path: string; // Dark modules, one unit per module
+      dark: string;
+      light: string;
+    };
+
+export interface CardScene {
+  width: number; // Includes room for the glow around the card
+  height: number;
+  shapes: CardShape[];
+}
+
+/**
+ * Width of a string in CSS px, excluding letter spacing
+ */
+export type TextMeasurer = (text: string, font: CardFont) => number;
+
+// The on-screen classic card is 384 CSS px wide; 4x is well over 300 DPI at ID-card size
+export const CARD_EXPORT_SCALE = 4;
+
+const ELLIPSIS = '…';
+
+// Two light modules instead of the spec's four leave bigger modules in the small tile
+const CARD_QR_QUIET_ZONE = 2;
+
+export const cardFontSpec = (font: CardFont): string => `${font.weight} ${font.size}px ${font.family}`;
+
+/**
+ * Measures text with a 2D canvas context
+ */
+export function createCanvasMeasurer(): TextMeasurer {
+  const { context } = createCanvas(1, 1);
+  return (text, font) => {
+    context.font = cardFontSpec(font);
+    return context.measureText(text).width;
+  };
+}
+
+const textWidth = (measure: TextMeasurer, text: string, font: CardFont): number => {
+  return measure(text, font) + [...text].length * font.letterSpacing;
+};
+
+/**
+ * Break text into lines no wider than maxWidth, splitting words that don't fit on their own
+ */
+export function wrapText(measure: TextMeasurer, text: string, font: CardFont, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  const pushWord = (word: string) => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(measure, candidate, font) <= maxWidth) {
+      line = candidate;
+      return;
+    }
+    if (line) lines.push(line);
+
+    // Hard-break words longer than a whole line
+    line = '';
+    for (const char of word) {
+      if (line && textWidth(measure, line + char, font) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  };
+
+  text.split(/\s+/).filter(Boolean).forEach(pushWord);
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [''];
+}
+
+/**
+ * Shorten a line with an ellipsis until it fits
+ */
+export function truncateText(measure: TextMeasurer, text: string, font: CardFont, maxWidth: number): string {
+  if (textWidth(measure, text, font) <= maxWidth) return text;
+
+  const chars = [...text];
+  while (chars.length > 0 && textWidth(measure, chars.join('') + ELLIPSIS, font) > maxWidth) {
+    chars.pop();
+  }
+  return chars.join('').trimEnd() + ELLIPSIS;
+}
+
+const toFont = (style: CardTextStyle, size: number): CardFont => ({
+  family: CARD_FONT_STACKS[style.font],
+  size,
+  weight: style.weight,
+  letterSpacing: style.letterSpacing * size,
+});
+
+/**
+ * Lay text out in a region: the largest size between style.size and style.minSize
+ * at which it fits, vertically centred; at the minimum size extra lines are cut
+ */
+export function fitText(
+  measure: TextMeasurer,
+  value: string,
+  style: CardTextStyle,
+  region: CardRegion
+): Extract<CardShape, { kind: 'text' }> {
+  const content = style.uppercase ? value.toUpperCase() : value;
+
+  let size = style.size;
+  let lines = wrapText(measure, content, toFont(style, size), region.width);
+  while (size > style.minSize) {
+    const fitsLines = lines.length <= style.maxLines;
+    const fitsHeight = Math.min(lines.length, style.maxLines) * size * style.lineHeight <= region.height;
+    if (fitsLines && fitsHeight) break;
+    size -= 1;
+    lines = wrapText(measure, content, toFont(style, size), region.width);
+  }
+
+  const font = toFont(style, size);
+  const maxLines = Math.max(1, Math.min(style.maxLines, Math.floor(region.height / (size * style.lineHeight))));
+  if (lines.length > maxLines) {
+    lines = [...lines.slice(0, maxLines - 1), truncateText(measure, lines.slice(maxLines - 1).join(' '), font, region.width)];
+  }
+
+  const lineHeight = size * style.lineHeight;
+  const anchorX = style.align === 'left'
+    ? region.x
+    : style.align === 'right'
+      ? region.x + region.width
+      : region.x + region.width / 2;
+
+  return {
+    kind: 'text',
+    lines,
+    x: anchorX,
+    y: region.y + (region.height - lines.length * lineHeight) / 2,
+    lineHeight,
+    font,
+    color: style.color,
+    align: style.align,
+  };
+}
+
+const offsetRegion = (region: CardRegion, offset: number): CardRegion => ({
+  ...region,
+  x: region.x + offset,
+  y: region.y + offset,
+});
+
+const insetRegion = (region: CardRegion, inset: number): CardRegion => ({
+  x: region.x + inset,
+  y: region.y + inset,
+  width: Math.max(0, region.width - 2 * inset),
+  height: Math.max(0, region.height - 2 * inset),
+});
+
+export interface CardLayoutOptions {
+  glow?: boolean; // Print exports leave the on-screen glow out
+}
+
+/**
+ * Glow, frame and background shared by both sides of a card
+ * Returns the margin left around the card for the glow.
+ */
+const layoutCardBody = (template: CardTemplate, shapes: CardShape[], glow: boolean): number => {
+  const { frame, colors } = template;
+  const margin = glow && frame.glow ? frame.glow.blur + frame.glow.spread : 0;
+
+  if (glow && frame.glow) {
+    shapes.push({
+      kind: 'glow',
+      x: margin - frame.glow.spread,
+      y: margin - frame.glow.spread,
+      width: template.width + 2 * frame.glow.spread,
+      height: template.height + 2 * frame.glow.spread,
+      radius: frame.radius + frame.glow.spread,
+      color: frame.glow.color,
+      blur: frame.glow.blur,
+    });
+  }
+
+  // Frame colour, then the card background inside it
+  shapes.push({ kind: 'rect', x: margin, y: margin, width: template.width, height: template.height, radius: frame.radius, fill: colors.frame, stroke: null });
+  shapes.push({
+    kind: 'rect',
+    x: margin + frame.width,
+    y: margin + frame.width,
+    width: template.width - 2 * frame.width,
+    height: template.height - 2 * frame.width,
+    radius: Math.max(0, frame.radius - frame.width),
+    fill: colors.background,
+    stroke: null,
+  });
+
+  return margin;
+};
+
+/**
+ * Footer: an optional outline around cells laid out left to right
+ */
+const layoutFooter = (template: CardTemplate, footer: CardRegion, shapes: CardShape[], measure: TextMeasurer) => {
+  const { colors } = template;
+  if (colors.footerBorder) {
+    shapes.push({ kind: 'rect', ...footer, radius: template.footerRadius, fill: null, stroke: colors.footerBorder });
+  }
+  const footerPadding = colors.footerBorder ? 5 : 0;
+  const gap = 4;
+  const inner = insetRegion(footer, footerPadding);
+  const cellsWidth = inner.width - gap * (template.footerCells.length - 1);
+  let cellX = inner.x;
+  template.footerCells.forEach(cell => {
+    const cellRegion: CardRegion = { x: cellX, y: inner.y, width: cellsWidth * cell.share, height: inner.height };
+    if (cell.background) {
+      shapes.push({ kind: 'rect', ...cellRegion, radius: Math.max(0, template.footerRadius - 2), fill: cell.background, stroke: null });
+    }
+    const textPadding = cell.background || template.footerCells.length > 1 ? 8 : 0;
+    shapes.push(fitText(measure, cell.text, cell.style, insetRegion(cellRegion, textPadding)));
+    cellX += cellRegion.width + gap;
+  });
+};
+
+/**
+ * Encode the card's link, dropping to level L when M can't hold it
+ * Long deployment origins can push verify links past both; the card then has no code.
+ */
+const encodeCardQr = (url: string): QrCode | null => {
+  for (const errorCorrection of ['M', 'L'] as const) {
+    try {
+      return encodeQr(url, { errorCorrection });
+    } catch {
+      // Too long for this level
+    }
+  }
+  console.warn(`Card link is too long for a QR code, leaving it off: ${url}`);
+  return null;
+};
+
+/**
+ * Lay out a card from its template and content
+ */
+export function layoutCard(
+  template: CardTemplate,
+  content: CardContent,
+  measure: TextMeasurer,
+  options: CardLayoutOptions = {}
+): CardScene {
+  const { regions, fonts, colors } = template;
+  const shapes: CardShape[] = [];
+  const margin = layoutCardBody(template, shapes, options.glow ?? true);
+  const at = (region: CardRegion) => offsetRegion(region, margin);
+
+  if (regions.logo && template.logoText) {
+    shapes.push(fitText(measure, template.logoText, fonts.logo, at(regions.logo)));
+  }
+
+  shapes.push(fitText(measure, content.name, fonts.name, at(regions.name)));
+
+  const photo = at(regions.photo);
+  shapes.push({ kind: 'rect', ...photo, radius: template.photoRadius, fill: colors.photoBackground, stroke: colors.photoBorder });
+  shapes.push({ kind: 'image', ...insetRegion(photo, template.photoInset), radius: template.photoRadius, src: content.imageSrc });
+
+  // Fields fill rows top to bottom; rows that don't fit the region are dropped
+  const fieldsRegion = at(regions.fields);
+  const rowCount = Math.floor(fieldsRegion.height / template.fieldRowHeight);
+  (content.fields ?? []).slice(0, rowCount).forEach((field, index) => {
+    const row: CardRegion = {
+      x: fieldsRegion.x,
+      y: fieldsRegion.y + index * template.fieldRowHeight,
+      width: fieldsRegion.width,
+      height: template.fieldRowHeight,
+    };
+
+    if (template.fieldLayout === 'stacked') {
+      const labelHeight = Math.round(row.height * 0.4);
+      shapes.push(fitText(measure, field.label, fonts.fieldLabel, { ...row, height: labelHeight }));
+      shapes.push(fitText(measure, field.value, fonts.fieldValue, { ...row, y: row.y + labelHeight, height: row.height - labelHeight }));
+      return;
+    }
+
+    shapes.push(fitText(measure, field.label, fonts.fieldLabel, { ...row, width: row.width * 0.45 }));
+    shapes.push(fitText(measure, field.value, fonts.fieldValue, { ...row, x: row.x + row.width * 0.45, width: row.width * 0.55 }));
+  });
+
+  layoutFooter(template, at(regions.footer), shapes, measure);
+
+  const code = regions.qr && content.qrUrl ? encodeCardQr(content.qrUrl) : null;
+  if (regions.qr && code) {
+    const qr = at(regions.qr);
+    shapes.push({
+      kind: 'qr',
+      x: qr.x,
+      y: qr.y,
+      size: Math.min(qr.width, qr.height),
+      modules: code.size + 2 * CARD_QR_QUIET_ZONE,
+      path: qrToPath(code, CARD_QR_QUIET_ZONE),
+      dark: colors.qrDark,
+      light: colors.qrLight,
+    });
+  }
+
+  if (regions.stripe) {
+    const stripe = at(regions.stripe);
+    shapes.push({ kind: 'rect', ...stripe, radius: stripe.height / 2, fill: colors.stripe, stroke: null });
+  }
+
+  return {
+    width: template.width + 2 * margin,
+    height: template.height + 2 * margin,
+    shapes,
+  };
+}
+
+/**
+ * Lay out the back of a card: the template's frame and footer around a centred wordmark
+ */
+export function layoutCardBack(template: CardTemplate, measure: TextMeasurer, options: CardLayoutOptions = {}): CardScene {
+  const { regions, fonts, frame } = template;
+  const shapes: CardShape[] = [];
+  const margin = layoutCardBody(template, shapes, options.glow ?? true);
+  const inset = frame.width + 16;
+  const wordmark: CardRegion = {
+    x: margin + inset,
+    y: margin + inset,
+    width: template.width - 2 * inset,
+    height: regions.footer.y - inset,
+  };
+
+  shapes.push(fitText(measure, template.logoText ?? 'No-Space', {
+    ...fonts.logo,
+    size: fonts.logo.size * 2,
+    minSize: fonts.logo.size,
+    align: 'center',
+    maxLines: 1,
+  }, wordmark));
+  layoutFooter(template, offsetRegion(regions.footer, margin), shapes, measure);
+
+  return {
+    width: template.width + 2 * margin,
+    height: template.height + 2 * margin,
+    shapes,
+  };
+}
+
+/**
+ * Position of an image of the given size contained (letterboxed) in a box
+ */
+export function containImage(
+  box: { x: number; y: number; width: number; height: number },
+  imageWidth: number,
+  imageHeight: number
+): { x: number; y: number; width: number; height: number } {
+  const fit = Math.min(box.width / imageWidth, box.height / imageHeight);
+  const width = imageWidth * fit;
+  const height = imageHeight * fit;
+  return { x: box.x + (box.width - width) / 2, y: box.y + (box.height - height) / 2, width, height };
+}
+
+/**
+ * Draw a laid-out scene; images must already be loaded, keyed by src
+ */
+export function drawCardScene(
+  context: CanvasRenderingContext2D,
+  scene: CardScene,
+  images: Map<string, HTMLImageElement>,
+  scale: number
+): void {
+  context.save();
+  context.scale(scale, scale);
+
+  scene.shapes.forEach(shape => {
+    switch (shape.kind) {
+      case 'glow': {
+        // Only the blurred shadow should show, so the shape itself is drawn off
+        // canvas and its shadow offset back; shadows ignore the transform
+        const offset = scene.width + shape.width;
+        context.save();
+        context.shadowColor = shape.color;
+        context.shadowBlur = shape.blur * scale;
+        context.shadowOffsetX = offset * scale;
+        context.fillStyle = shape.color;
+        context.beginPath();
+        context.roundRect(shape.x - offset, shape.y, shape.width, shape.height, shape.radius);
+        context.fill();
+        context.restore();
+        break;
+      }
+      case 'rect':
+        if (shape.fill) {
+          context.fillStyle = shape.fill;
+          context.beginPath();
+          context.roundRect(shape.x, shape.y, shape.width, shape.height, shape.radius);
+          context.fill();
+        }
+        if (shape.stroke) {
+          context.strokeStyle = shape.stroke;
+          context.lineWidth = 1;
+          context.beginPath();
+          context.roundRect(shape.x + 0.5, shape.y + 0.5, shape.width - 1, shape.height - 1, shape.radius);
+          context.stroke();
+        }
+        break;
+      case 'text':
+        context.font = cardFontSpec(shape.font);
+        context.letterSpacing = `${shape.font.letterSpacing}px`;
+        context.fillStyle = shape.color;
+        context.textAlign = shape.align;
+        context.textBaseline = 'middle';
+        shape.lines.forEach((line, index) => {
+          context.fillText(line, shape.x, shape.y + shape.lineHeight * (index + 0.5));
+        });
+        break;
+      case 'image': {
+        const image = images.get(shape.src);
+        if (!image) break;
+        const target = containImage(shape, image.naturalWidth, image.naturalHeight);
+        context.save();
+        context.beginPath();
+        context.roundRect(shape.x, shape.y, shape.width, shape.height, shape.radius);
+        context.clip();
+        context.imageSmoothingEnabled = false; // Keep pixel art crisp when scaled up
+        context.drawImage(image, target.x, target.y, target.width, target.height);
+        context.restore();
+        break;
+      }
+      case 'qr': {
+        const moduleSize = shape.size / shape.modules;
+        context.save();
+        context.fillStyle = shape.light;
+        context.fillRect(shape.x, shape.y, shape.size, shape.size);
+        context.translate(shape.x, shape.y);
+        context.scale(moduleSize, moduleSize);
+        context.fillStyle = shape.dark;
+        context.fill(new Path2D(shape.path));
+        context.restore();
+        break;
+      }
+    }
+  });
+
+  context.restore();
+}
+
+/**
+ * Render a card into a new canvas at the given scale
+ */
+export async function renderCard(
+  template: CardTemplate,
+  content: CardContent,
+  scale: number = CARD_EXPORT_SCALE
+): Promise<HTMLCanvasElement> {
+  const portrait = await loadImage(content.imageSrc);
+  await document.fonts?.ready;
+
+  const scene = layoutCard(template, content, createCanvasMeasurer());
+  const { canvas, context } = createCanvas(Math.round(scene.width * scale), Math.round(scene.height * scale));
+  drawCardScene(context, scene, new Map([[content.imageSrc, portrait]]), scale);
+  return canvas;
+}
+
+/**
+ * Render the card as a PNG blob
+ */
+export async function renderCardToBlob(
+  template: CardTemplate,
+  content: CardContent,
+  scale: number = CARD_EXPORT_SCALE
+): Promise<Blob> {
+  const canvas = await renderCard(template, content, scale);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode card image'));
+      }
+    }, 'image/png');
+  });
+}
+
+/**
+ * File name for a downloaded card, e.g. "ada_lovelace_pixel_id.png"
+ */
+export const cardFileName = (name: string, extension: string = 'png'): string => {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${slug || 'card'}_pixel_id.${extension}`;
+};
+
+/**
+ * Save a blob through a temporary link
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
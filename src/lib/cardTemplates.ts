@@ -0,0 +1,344 @@
+/**
+ * ID card templates: size, regions, fonts and colours of each card layout
+ * Coordinates are CSS pixels of the card at 1x, with (0, 0) at the card's
+ * top-left corner. The on-screen card and every export are laid out from
+ * these definitions by ./cardRenderer.
+ */
+
+export type CardTemplateId = 'classic' | 'midnight' | 'badge' | 'minimal';
+
+export interface CardRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type CardFontId = 'mono' | 'sans';
+
+export const CARD_FONT_STACKS: Record<CardFontId, string> = {
+  mono: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace',
+  sans: 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+};
+
+export interface CardTextStyle {
+  font: CardFontId;
+  size: number; // Preferred size; text shrinks towards minSize to fit its region
+  minSize: number;
+  weight: 400 | 600 | 700;
+  letterSpacing: number; // In em
+  lineHeight: number; // Multiple of the font size
+  color: string;
+  uppercase: boolean;
+  align: 'left' | 'center' | 'right';
+  maxLines: number; // Text beyond this is cut with an ellipsis
+}
+
+export interface CardFooterCell {
+  text: string;
+  share: number; // Fraction of the footer width
+  background: string | null;
+  style: CardTextStyle;
+}
+
+export interface CardTemplate {
+  id: CardTemplateId;
+  label: string;
+  description: string;
+  width: number;
+  height: number;
+  regions: {
+    logo: CardRegion | null;
+    name: CardRegion;
+    photo: CardRegion;
+    fields: CardRegion;
+    footer: CardRegion;
+    stripe: CardRegion | null; // Decorative bar
+    qr: CardRegion | null; // Square QR code linking to the card's page
+  };
+  fonts: {
+    logo: CardTextStyle;
+    name: CardTextStyle;
+    fieldLabel: CardTextStyle;
+    fieldValue: CardTextStyle;
+  };
+  colors: {
+    background: string;
+    frame: string;
+    stripe: string;
+    photoBorder: string | null;
+    photoBackground: string | null;
+    footerBorder: string | null;
+    qrDark: string;
+    qrLight: string; // Tile behind the code, which also forms its quiet zone
+  };
+  frame: {
+    width: number;
+    radius: number;
+    glow: { color: string; blur: number; spread: number } | null;
+  };
+  photoInset: number; // Gap between the photo region's edge and the image
+  photoRadius: number;
+  logoText: string | null;
+  fieldLayout: 'inline' | 'stacked'; // Label and value on one line, or label above value
+  fieldRowHeight: number;
+  footerRadius: number;
+  footerCells: CardFooterCell[];
+}
+
+const text = (style: Partial<CardTextStyle> & Pick<CardTextStyle, 'size' | 'color'>): CardTextStyle => ({
+  font: 'mono',
+  minSize: style.size,
+  weight: 400,
+  letterSpacing: 0,
+  lineHeight: 1.25,
+  uppercase: false,
+  align: 'left',
+  maxLines: 1,
+  ...style,
+});
+
+const CREDIT_TEXT = 'Build with love ❤️ by No-Space';
+const SCAN_TEXT = 'Scan My ID Using No-Space App 📱';
+
+export const CARD_TEMPLATES: Record<CardTemplateId, CardTemplate> = {
+  classic: {
+    id: 'classic',
+    label: 'Classic',
+    description: 'White card with a glowing blue frame',
+    width: 384,
+    height: 590,
+    regions: {
+      logo: null,
+      name: { x: 24, y: 24, width: 336, height: 64 },
+      photo: { x: 24, y: 88, width: 336, height: 336 },
+      fields: { x: 24, y: 436, width: 336, height: 40 },
+      footer: { x: 24, y: 488, width: 264, height: 64 },
+      stripe: { x: 40, y: 560, width: 304, height: 6 },
+      qr: { x: 296, y: 488, width: 64, height: 64 },
+    },
+    fonts: {
+      logo: text({ size: 14, color: '#000000' }),
+      name: text({ size: 24, minSize: 14, letterSpacing: 0.1, lineHeight: 4 / 3, color: '#000000', uppercase: true, align: 'center', maxLines: 2 }),
+      fieldLabel: text({ size: 12, letterSpacing: 0.025, color: '#4b5563', uppercase: true }),
+      fieldValue: text({ size: 12, weight: 600, letterSpacing: 0.05, color: '#000000', align: 'right' }),
+    },
+    colors: {
+      background: '#ffffff',
+      frame: '#bfdbfe',
+      stripe: '#bfdbfe',
+      photoBorder: '#d1d5db',
+      photoBackground: null,
+      footerBorder: '#d1d5db',
+      qrDark: '#000000',
+      qrLight: '#ffffff',
+    },
+    frame: {
+      width: 8,
+      radius: 24,
+      glow: { color: 'rgba(147, 197, 253, 0.6)', blur: 20, spread: 8 },
+    },
+    photoInset: 5,
+    photoRadius: 0,
+    logoText: null,
+    fieldLayout: 'inline',
+    fieldRowHeight: 20,
+    footerRadius: 8,
+    footerCells: [
+      {
+        text: CREDIT_TEXT,
+        share: 0.4,
+        background: '#f3f4f6',
+        style: text({ size: 12, minSize: 9, lineHeight: 4 / 3, color: '#000000', uppercase: true, align: 'center', maxLines: 3 }),
+      },
+      {
+        text: SCAN_TEXT,
+        share: 0.6,
+        background: null,
+        style: text({ size: 12, minSize: 9, weight: 600, letterSpacing: 0.05, lineHeight: 4 / 3, color: '#000000', uppercase: true, align: 'center', maxLines: 3 }),
+      },
+    ],
+  },
+  midnight: {
+    id: 'midnight',
+    label: 'Midnight',
+    description: 'Dark card with an indigo glow and the name under the photo',
+    width: 384,
+    height: 600,
+    regions: {
+      logo: { x: 24, y: 20, width: 336, height: 24 },
+      name: { x: 24, y: 400, width: 336, height: 56 },
+      photo: { x: 24, y: 52, width: 336, height: 336 },
+      fields: { x: 24, y: 464, width: 256, height: 60 },
+      footer: { x: 24, y: 536, width: 336, height: 40 },
+      stripe: null,
+      qr: { x: 296, y: 464, width: 64, height: 64 },
+    },
+    fonts: {
+      logo: text({ font: 'sans', size: 14, weight: 700, letterSpacing: 0.3, color: '#a5b4fc', uppercase: true }),
+      name: text({ font: 'sans', size: 28, minSize: 16, weight: 700, lineHeight: 1, color: '#ffffff', align: 'center', maxLines: 2 }),
+      fieldLabel: text({ font: 'sans', size: 12, color: '#94a3b8', uppercase: true, letterSpacing: 0.05 }),
+      fieldValue: text({ font: 'sans', size: 13, weight: 600, color: '#e2e8f0', align: 'right' }),
+    },
+    colors: {
+      background: '#0f172a',
+      frame: '#6366f1',
+      stripe: '#6366f1',
+      photoBorder: null,
+      photoBackground: '#1e293b',
+      footerBorder: null,
+      qrDark: '#0f172a',
+      qrLight: '#ffffff',
+    },
+    frame: {
+      width: 4,
+      radius: 20,
+      glow: { color: 'rgba(99, 102, 241, 0.55)', blur: 24, spread: 4 },
+    },
+    photoInset: 0,
+    photoRadius: 12,
+    logoText: 'No-Space',
+    fieldLayout: 'inline',
+    fieldRowHeight: 20,
+    footerRadius: 8,
+    footerCells: [
+      {
+        text: SCAN_TEXT,
+        share: 1,
+        background: '#1e293b',
+        style: text({ font: 'sans', size: 11, minSize: 8, weight: 600, letterSpacing: 0.05, color: '#c7d2fe', uppercase: true, align: 'center', maxLines: 2 }),
+      },
+    ],
+  },
+  badge: {
+    id: 'badge',
+    label: 'Badge',
+    description: 'Landscape badge with the photo beside the name',
+    width: 540,
+    height: 340,
+    regions: {
+      logo: { x: 24, y: 18, width: 492, height: 28 },
+      name: { x: 240, y: 56, width: 276, height: 72 },
+      photo: { x: 24, y: 56, width: 200, height: 200 },
+      fields: { x: 240, y: 136, width: 188, height: 120 },
+      footer: { x: 24, y: 272, width: 492, height: 44 },
+      stripe: null,
+      qr: { x: 436, y: 136, width: 80, height: 80 },
+    },
+    fonts: {
+      logo: text({ size: 16, weight: 700, letterSpacing: 0.2, color: '#2563eb', uppercase: true }),
+      name: text({ size: 26, minSize: 14, weight: 700, lineHeight: 1.3, color: '#111827', uppercase: true, maxLines: 2 }),
+      fieldLabel: text({ size: 10, letterSpacing: 0.1, color: '#6b7280', uppercase: true }),
+      fieldValue: text({ size: 15, weight: 600, color: '#111827' }),
+    },
+    colors: {
+      background: '#ffffff',
+      frame: '#2563eb',
+      stripe: '#2563eb',
+      photoBorder: '#d1d5db',
+      photoBackground: null,
+      footerBorder: null,
+      qrDark: '#111827',
+      qrLight: '#ffffff',
+    },
+    frame: {
+      width: 6,
+      radius: 18,
+      glow: null,
+    },
+    photoInset: 4,
+    photoRadius: 6,
+    logoText: 'No-Space',
+    fieldLayout: 'stacked',
+    fieldRowHeight: 40,
+    footerRadius: 6,
+    footerCells: [
+      {
+        text: CREDIT_TEXT,
+        share: 0.4,
+        background: '#eff6ff',
+        style: text({ size: 11, minSize: 8, color: '#1e3a8a', uppercase: true, align: 'center', maxLines: 2 }),
+      },
+      {
+        text: SCAN_TEXT,
+        share: 0.6,
+        background: null,
+        style: text({ size: 11, minSize: 8, weight: 600, letterSpacing: 0.05, color: '#111827', uppercase: true, align: 'center', maxLines: 2 }),
+      },
+    ],
+  },
+  minimal: {
+    id: 'minimal',
+    label: 'Minimal',
+    description: 'Plain white card with a thin border',
+    width: 360,
+    height: 540,
+    regions: {
+      logo: null,
+      name: { x: 32, y: 344, width: 296, height: 40 },
+      photo: { x: 32, y: 32, width: 296, height: 296 },
+      fields: { x: 32, y: 392, width: 216, height: 80 },
+      footer: { x: 32, y: 488, width: 296, height: 24 },
+      stripe: null,
+      qr: { x: 256, y: 392, width: 72, height: 72 },
+    },
+    fonts: {
+      logo: text({ font: 'sans', size: 12, color: '#111827' }),
+      name: text({ font: 'sans', size: 22, minSize: 12, weight: 600, color: '#111827' }),
+      fieldLabel: text({ font: 'sans', size: 12, color: '#6b7280' }),
+      fieldValue: text({ font: 'sans', size: 12, color: '#111827', align: 'right' }),
+    },
+    colors: {
+      background: '#ffffff',
+      frame: '#e5e7eb',
+      stripe: '#e5e7eb',
+      photoBorder: null,
+      photoBackground: '#f9fafb',
+      footerBorder: null,
+      qrDark: '#111827',
+      qrLight: '#ffffff',
+    },
+    frame: {
+      width: 1,
+      radius: 12,
+      glow: null,
+    },
+    photoInset: 0,
+    photoRadius: 4,
+    logoText: null,
+    fieldLayout: 'inline',
+    fieldRowHeight: 20,
+    footerRadius: 0,
+    footerCells: [
+      {
+        text: 'No-Space',
+        share: 1,
+        background: null,
+        style: text({ font: 'sans', size: 10, letterSpacing: 0.2, color: '#9ca3af', uppercase: true }),
+      },
+    ],
+  },
+};
+
+export const DEFAULT_CARD_TEMPLATE_ID: CardTemplateId = 'classic';
+
+/**
+ * Type guard for checking if a value is a known card template id
+ */
+export function isCardTemplateId(value: unknown): value is CardTemplateId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CARD_TEMPLATES, value);
+}
+
+/**
+ * Returns the template for an id, falling back to the classic card for unknown ids
+ */
+export function getCardTemplate(id?: string | null): CardTemplate {
+  return isCardTemplateId(id) ? CARD_TEMPLATES[id] : CARD_TEMPLATES[DEFAULT_CARD_TEMPLATE_ID];
+}
+
+/**
+ * All templates in display order
+ */
+export function listCardTemplates(): CardTemplate[] {
+  return Object.values(CARD_TEMPLATES);
+}
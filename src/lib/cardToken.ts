@@ -0,0 +1,208 @@
+/**
+ * Signed card tokens: the payload format shared by the signing function and the verify page
+ * A token is base64url of a compact binary payload followed by a truncated
+ * HMAC-SHA256 of it. Only the server holds the key, so a token proves the
+ * card id, name, issue date and image existed together when it was signed;
+ * the verify page then checks them against the card as stored today.
+ */
+
+export const CARD_TOKEN_VERSION = 1;
+
+// SHA-256 of the stored image, truncated; still far beyond reach of a second-preimage search
+export const CARD_IMAGE_HASH_BYTES = 16;
+
+// HMAC-SHA256 truncated to 128 bits (RFC 2104 allows truncation to half the hash length)
+export const CARD_SIGNATURE_BYTES = 16;
+
+export const CARD_TOKEN_TTL_DAYS = 365;
+
+export interface CardTokenPayload {
+  cardId: string;
+  name: string;
+  issuedAt: Date; // Whole seconds
+  expiresAt: Date;
+  imageHash: string; // Truncated SHA-256 of the image file, base64url
+}
+
+export interface DecodedCardToken {
+  payload: CardTokenPayload;
+  signedBytes: Uint8Array; // What the signature covers
+  signature: Uint8Array;
+}
+
+// version, card id, issued at, expires at and image hash come before the name
+const FIXED_BYTES = 1 + 16 + 4 + 4 + CARD_IMAGE_HASH_BYTES;
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url, or null if the text isn't valid base64url
+ */
+export function fromBase64Url(text: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(text) || text.length % 4 === 1) return null;
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (text.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+const uuidToBytes = (uuid: string): Uint8Array => {
+  const hex = uuid.replace(/-/g, '');
+  return Uint8Array.from({ length: 16 }, (_, i) => Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16));
+};
+
+const bytesToUuid = (bytes: Uint8Array): string => {
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+/**
+ * Serialize a payload into the bytes that get signed
+ */
+export function encodeCardTokenPayload(payload: CardTokenPayload): Uint8Array {
+  const name = new TextEncoder().encode(payload.name);
+  const imageHash = fromBase64Url(payload.imageHash);
+  if (!imageHash || imageHash.length !== CARD_IMAGE_HASH_BYTES) {
+    throw new Error('Image hash must be a truncated SHA-256 in base64url');
+  }
+
+  const bytes = new Uint8Array(FIXED_BYTES + name.length);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = CARD_TOKEN_VERSION;
+  bytes.set(uuidToBytes(payload.cardId), 1);
+  view.setUint32(17, Math.floor(payload.issuedAt.getTime() / 1000));
+  view.setUint32(21, Math.floor(payload.expiresAt.getTime() / 1000));
+  bytes.set(imageHash, 25);
+  bytes.set(name, FIXED_BYTES);
+  return bytes;
+}
+
+/**
+ * Join signed bytes and their signature into a token
+ */
+export function encodeCardToken(signedBytes: Uint8Array, signature: Uint8Array): string {
+  const token = new Uint8Array(signedBytes.length + signature.length);
+  token.set(signedBytes);
+  token.set(signature, signedBytes.length);
+  return toBase64Url(token);
+}
+
+/**
+ * Split a token into its payload and signature without checking the signature
+ * Returns null for anything that isn't a well-formed token of a known version.
+ */
+export function decodeCardToken(token: string): DecodedCardToken | null {
+  const bytes = fromBase64Url(token);
+  if (!bytes || bytes.length < FIXED_BYTES + CARD_SIGNATURE_BYTES || bytes[0] !== CARD_TOKEN_VERSION) {
+    return null;
+  }
+
+  const signedBytes = bytes.slice(0, bytes.length - CARD_SIGNATURE_BYTES);
+  const view = new DataView(signedBytes.buffer);
+  let name: string;
+  try {
+    name = new TextDecoder('utf-8', { fatal: true }).decode(signedBytes.slice(FIXED_BYTES));
+  } catch {
+    return null;
+  }
+
+  return {
+    payload: {
+      cardId: bytesToUuid(signedBytes.slice(1, 17)),
+      name,
+      issuedAt: new Date(view.getUint32(17) * 1000),
+      expiresAt: new Date(view.getUint32(21) * 1000),
+      imageHash: toBase64Url(signedBytes.slice(25, FIXED_BYTES)),
+    },
+    signedBytes,
+    signature: bytes.slice(bytes.length - CARD_SIGNATURE_BYTES),
+  };
+}
+
+/**
+ * Absolute link to the verify page for a token
+ */
+export const cardVerifyUrl = (token: string, origin: string = window.location.origin): string => {
+  return `${origin}/verify/${token}`;
+};
+
+/**
+ * Token from a scanned verify link, or null if the text isn't one
+ */
+export function parseCardVerifyUrl(text: string): string | null {
+  try {
+    const url = new URL(text.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return url.pathname.match(/^\/verify\/([A-Za-z0-9_-]+)\/?$/)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export type CardVerificationStatus =
+  | 'valid'
+  | 'expired'
+  | 'revoked'
+  | 'mismatch' // Signed, but the stored card no longer matches what was signed
+  | 'invalid_signature'
+  | 'not_found'
+  | 'malformed';
+
+export interface CardVerificationChecks {
+  signature: boolean;
+  cardFound: boolean;
+  name: boolean;
+  issuedAt: boolean;
+  imageHash: boolean;
+  notRevoked: boolean;
+  notExpired: boolean;
+}
+
+export interface CardVerificationInput {
+  payload: CardTokenPayload;
+  signatureValid: boolean;
+  card: { id: string; userName: string; createdAt: Date; revokedAt: Date | null } | null;
+  imageHash: string | null; // Hash of the stored image as fetched now, null if it couldn't be read
+  now?: Date;
+}
+
+/**
+ * Compare a token with the stored card and settle on one status
+ * A bad signature outranks everything, then a missing or revoked card, then
+ * any mismatch, and only a card that passes all of those can be expired.
+ */
+export function evaluateCardVerification({
+  payload,
+  signatureValid,
+  card,
+  imageHash,
+  now = new Date(),
+}: CardVerificationInput): { status: CardVerificationStatus; checks: CardVerificationChecks } {
+  const checks: CardVerificationChecks = {
+    signature: signatureValid,
+    cardFound: card !== null && card.id.toLowerCase() === payload.cardId,
+    name: card !== null && card.userName === payload.name,
+    issuedAt: card !== null && Math.floor(card.createdAt.getTime() / 1000) === payload.issuedAt.getTime() / 1000,
+    imageHash: imageHash !== null && imageHash === payload.imageHash,
+    notRevoked: card !== null && card.revokedAt === null,
+    notExpired: payload.expiresAt.getTime() > now.getTime(),
+  };
+
+  const status: CardVerificationStatus = !checks.signature
+    ? 'invalid_signature'
+    : !checks.cardFound
+      ? 'not_found'
+      : !checks.notRevoked
+        ? 'revoked'
+        : !checks.name || !checks.issuedAt || !checks.imageHash
+          ? 'mismatch'
+          : !checks.notExpired
+            ? 'expired'
+            : 'valid';
+
+  return { status, checks };
+}
@@ -0,0 +1,24 @@
+/**
+ * Contract for the card signing and verification endpoints
+ * Shared by the browser client and the Netlify functions so the two can't drift.
+ */
+
+export const SIGN_CARD_ENDPOINT = '/api/sign-card';
+export const VERIFY_CARD_ENDPOINT = '/api/verify-card';
+
+export interface SignCardRequestBody {
+  cardId: string;
+}
+
+export interface SignCardResponseBody {
+  token: string;
+  expiresAt: string; // ISO 8601
+}
+
+export interface VerifyCardRequestBody {
+  token: string;
+}
+
+export interface VerifyCardResponseBody {
+  signatureValid: boolean;
+}
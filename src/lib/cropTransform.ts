@@ -0,0 +1,148 @@
+/**
+ * Square crop geometry for the photo editor
+ * The crop is described in source-image pixels: a centre point, a zoom
+ * relative to the largest square that fits, and a rotation. Clamping keeps
+ * the rotated crop square inside the image so the output never has empty corners.
+ */
+
+import { createCanvas } from './imageCanvas';
+
+export interface CropTransform {
+  centerX: number; // Crop centre in source pixels
+  centerY: number;
+  zoom: number; // 1 = the largest square that fits the image
+  rotation: number; // Degrees clockwise, -180..180
+}
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export const CROP_LIMITS = {
+  MAX_ZOOM: 5,
+  ROTATION_MIN: -180,
+  ROTATION_MAX: 180,
+  OUTPUT_MAX_SIZE: 768,
+} as const;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Wrap an angle into -180..180
+ */
+export const normalizeRotation = (degrees: number): number => {
+  const wrapped = ((degrees + 180) % 360 + 360) % 360 - 180;
+  return wrapped === -180 ? 180 : wrapped;
+};
+
+/**
+ * How much larger the axis-aligned bounds of a rotated square are than the square
+ */
+const rotationSpread = (rotation: number): number => {
+  const radians = toRadians(rotation);
+  return Math.abs(Math.cos(radians)) + Math.abs(Math.sin(radians));
+};
+
+/**
+ * Smallest zoom at which a crop with this rotation still fits inside the image
+ */
+export const minZoomForRotation = (rotation: number): number => rotationSpread(rotation);
+
+/**
+ * Side of the crop square in source pixels
+ */
+export const cropSide = (image: ImageSize, zoom: number): number => {
+  return Math.min(image.width, image.height) / zoom;
+};
+
+/**
+ * The centred, unrotated crop the camera used to take
+ */
+export const initialCropTransform = (image: ImageSize): CropTransform => ({
+  centerX: image.width / 2,
+  centerY: image.height / 2,
+  zoom: 1,
+  rotation: 0,
+});
+
+/**
+ * Bring a transform back inside the image: rotation wrapped, zoom raised to fit, centre kept in bounds
+ */
+export function clampCropTransform(transform: CropTransform, image: ImageSize): CropTransform {
+  const rotation = normalizeRotation(transform.rotation);
+  const minZoom = minZoomForRotation(rotation);
+  const zoom = Math.min(Math.max(transform.zoom, minZoom), Math.max(CROP_LIMITS.MAX_ZOOM, minZoom));
+
+  const halfExtent = (cropSide(image, zoom) / 2) * rotationSpread(rotation);
+  const clamp = (value: number, size: number) => {
+    return Math.min(Math.max(value, halfExtent), size - halfExtent);
+  };
+
+  return {
+    centerX: clamp(transform.centerX, image.width),
+    centerY: clamp(transform.centerY, image.height),
+    zoom,
+    rotation,
+  };
+}
+
+/**
+ * Move the crop as if the image were dragged by (dx, dy) on a viewport of viewportSize pixels
+ */
+export function panCropTransform(
+  transform: CropTransform,
+  image: ImageSize,
+  dx: number,
+  dy: number,
+  viewportSize: number
+): CropTransform {
+  const scale = cropSide(image, transform.zoom) / viewportSize;
+  const radians = toRadians(transform.rotation);
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  // Dragging the image right moves the crop left, in the image's rotated frame
+  return clampCropTransform({
+    ...transform,
+    centerX: transform.centerX - (dx * cos + dy * sin) * scale,
+    centerY: transform.centerY - (-dx * sin + dy * cos) * scale,
+  }, image);
+}
+
+/**
+ * CSS transform that shows the crop of an image laid out at its natural size
+ * in a square viewport; apply with transform-origin 0 0.
+ */
+export function cropTransformToCss(transform: CropTransform, image: ImageSize, viewportSize: number): string {
+  const scale = viewportSize / cropSide(image, transform.zoom);
+  return [
+    `translate(${viewportSize / 2}px, ${viewportSize / 2}px)`,
+    `scale(${scale})`,
+    `rotate(${transform.rotation}deg)`,
+    `translate(${-transform.centerX}px, ${-transform.centerY}px)`,
+  ].join(' ');
+}
+
+/**
+ * Render the crop to a square PNG data URL, never upscaling past the source resolution
+ */
+export function renderCrop(
+  image: HTMLImageElement,
+  transform: CropTransform,
+  maxSize: number = CROP_LIMITS.OUTPUT_MAX_SIZE
+): string {
+  const size = { width: image.naturalWidth, height: image.naturalHeight };
+  const side = cropSide(size, transform.zoom);
+  const outputSize = Math.max(1, Math.round(Math.min(side, maxSize)));
+
+  const { canvas, context } = createCanvas(outputSize, outputSize);
+  context.imageSmoothingQuality = 'high';
+  context.translate(outputSize / 2, outputSize / 2);
+  context.scale(outputSize / side, outputSize / side);
+  context.rotate(toRadians(transform.rotation));
+  context.translate(-transform.centerX, -transform.centerY);
+  context.drawImage(image, 0, 0);
+
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,119 @@
+/**
+ * Typed failures for image generation
+ * Each error carries an ERROR_CODES value and whether retrying may help.
+ */
+
+import { ERROR_CODES } from './typeUtils';
+import type { ErrorCode } from './typeUtils';
+
+export class ImageGenerationError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+
+  constructor(message: string, code: ErrorCode = ERROR_CODES.UNKNOWN_ERROR, retryable: boolean = false, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'ImageGenerationError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export class QuotaExceededError extends ImageGenerationError {
+  constructor(message: string = 'The image service quota has been exceeded.', cause?: unknown) {
+    super(message, ERROR_CODES.QUOTA_EXCEEDED, true, cause);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class SafetyBlockedError extends ImageGenerationError {
+  constructor(message: string = 'The image was blocked by safety filters.', cause?: unknown) {
+    super(message, ERROR_CODES.SAFETY_BLOCKED, false, cause);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class NoImageReturnedError extends ImageGenerationError {
+  constructor(message: string = 'No image was returned from the API.', cause?: unknown) {
+    super(message, ERROR_CODES.NO_IMAGE_RETURNED, false, cause);
+    this.name = 'NoImageReturnedError';
+  }
+}
+
+export class GenerationNetworkError extends ImageGenerationError {
+  constructor(message: string = 'Could not reach the image service.', cause?: unknown) {
+    super(message, ERROR_CODES.NETWORK_ERROR, true, cause);
+    this.name = 'GenerationNetworkError';
+  }
+}
+
+export class GenerationTimeoutError extends ImageGenerationError {
+  constructor(timeoutMs: number, cause?: unknown) {
+    super(`The image service did not respond within ${Math.round(timeoutMs / 1000)} seconds.`, ERROR_CODES.TIMEOUT, true, cause);
+    this.name = 'GenerationTimeoutError';
+  }
+}
+
+export class GenerationCancelledError extends ImageGenerationError {
+  constructor(cause?: unknown) {
+    super('Image generation was cancelled.', ERROR_CODES.CANCELLED, false, cause);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export class GenerationBudgetExceededError extends ImageGenerationError {
+  constructor(limit: number) {
+    super(`The generation limit of ${limit} images for this session has been reached.`, ERROR_CODES.BUDGET_EXCEEDED, false);
+    this.name = 'GenerationBudgetExceededError';
+  }
+}
+
+export class RateLimitedError extends ImageGenerationError {
+  readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number, cause?: unknown) {
+    super(`Too many pixelation requests. Try again in ${retryAfterSeconds} seconds.`, ERROR_CODES.RATE_LIMITED, false, cause);
+    this.name = 'RateLimitedError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Type guard for typed generation errors
+ */
+export function isImageGenerationError(error: unknown): error is ImageGenerationError {
+  return error instanceof ImageGenerationError;
+}
+
+/**
+ * User-facing message for a generation failure
+ */
+export function getGenerationErrorMessage(error: unknown): string {
+  if (!isImageGenerationError(error)) {
+    return error instanceof Error ? error.message : 'Failed to generate pixel card';
+  }
+
+  switch (error.code) {
+    case ERROR_CODES.QUOTA_EXCEEDED:
+      return 'The pixel art service is busy right now (quota reached). Please wait a minute and try again.';
+    case ERROR_CODES.SAFETY_BLOCKED:
+      return 'This photo was flagged by the safety filter. Please retake it with just your face in frame.';
+    case ERROR_CODES.NO_IMAGE_RETURNED:
+      return 'The pixel art service did not return an image. Try retaking the photo with better lighting.';
+    case ERROR_CODES.NETWORK_ERROR:
+      return 'Could not reach the pixel art service. Check your connection and try again.';
+    case ERROR_CODES.TIMEOUT:
+      return 'Pixelating took too long and was stopped. Please try again.';
+    case ERROR_CODES.SERVICE_UNAVAILABLE:
+      return 'The pixel art service is not set up on this site yet.';
+    case ERROR_CODES.CANCELLED:
+      return 'Pixelation cancelled.';
+    case ERROR_CODES.RATE_LIMITED:
+      return error instanceof RateLimitedError
+        ? `You're pixelating too quickly. Please wait ${error.retryAfterSeconds} seconds and try again.`
+        : 'You\'re pixelating too quickly. Please wait a moment and try again.';
+    case ERROR_CODES.BUDGET_EXCEEDED:
+      return 'The pixel art limit for this session has been reached. Reload the page to start a new session.';
+    default:
+      return error.message;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Browser canvas helpers for moving images between data URLs and pixel buffers
+ */
+
+import type { PixelBuffer } from './pixelArt';
+
+/**
+ * Loads an image element from a data URL or remote URL
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
+
+/**
+ * Creates a canvas and its 2D context, throwing if the context is unavailable
+ */
+export function createCanvas(width: number, height: number): {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+} {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not get canvas context');
+  }
+
+  return { canvas, context };
+}
+
+/**
+ * Draws an image (optionally resized) and returns its pixels
+ */
+export function imageToPixelBuffer(
+  image: CanvasImageSource & { width: number; height: number },
+  width: number = image.width,
+  height: number = image.height,
+  smoothing: boolean = true
+): PixelBuffer {
+  const { context } = createCanvas(width, height);
+  context.imageSmoothingEnabled = smoothing;
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+}
+
+/**
+ * Draws the centre square of an image scaled to size x size and returns its pixels
+ */
+export function imageToSquarePixelBuffer(image: HTMLImageElement, size: number): PixelBuffer {
+  const side = Math.min(image.naturalWidth, image.naturalHeight);
+  const sx = (image.naturalWidth - side) / 2;
+  const sy = (image.naturalHeight - side) / 2;
+
+  const { context } = createCanvas(size, size);
+  context.drawImage(image, sx, sy, side, side, 0, 0, size, size);
+  return context.getImageData(0, 0, size, size);
+}
+
+/**
+ * Loads a data URL and returns its pixels at natural size
+ */
+export async function dataUrlToPixelBuffer(dataUrl: string): Promise<PixelBuffer> {
+  const image = await loadImage(dataUrl);
+  return imageToPixelBuffer(image, image.naturalWidth, image.naturalHeight);
+}
+
+/**
+ * Encodes a pixel buffer as a PNG data URL
+ */
+export function pixelBufferToDataUrl(buffer: PixelBuffer): string {
+  const { canvas, context } = createCanvas(buffer.width, buffer.height);
+  const imageData = context.createImageData(buffer.width, buffer.height);
+  imageData.data.set(buffer.data);
+  context.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+}
@@ -3,10 +3,17 @@ export { supabase } from './supabase'
 export * from './typeUtils'
 export * from './validation'
 export * from './type-validation'
+export * from './stylePresets'
+export * from './backdrops'
+export * from './cardTemplates'
+export * from './promptRegistry'
 
 // Services
 export { PixelCardService, pixelCardService } from '../services/pixelCardService'
 export { PixelCardRepository, pixelCardRepository } from '../services/pixelCardRepository'
+export { getImageStylizer, getAvailableImageStylizers } from '../services/imageStylizer'
+export { GenerationEventService, generationEventService } from '../services/generationEventService'
+export type { ImageStylizer, ImageStylizerId } from '../services/imageStylizer'
 
 // Types (only export types, not values to avoid conflicts)
 export type {
@@ -17,9 +24,13 @@ export type {
   GalleryResponse,
   MimeType,
   PaginationParams,
+  GalleryQueryParams,
   PixelCardInsert,
   PixelCardUpdate,
   PixelCardRow,
   PixelCardInsertPayload,
-  PixelCardUpdatePayload
+  PixelCardUpdatePayload,
+  GenerationEvent,
+  GenerationEventType,
+  PromptVersionStats
 } from '../types/supabase'
\ No newline at end of file
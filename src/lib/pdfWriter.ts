@@ -0,0 +1,170 @@
+/**
+ * Minimal PDF writer for print sheets: pages of JPEG images and hairlines
+ * Enough for card exports without bundling a PDF library. Coordinates are
+ * PDF points with the origin at the bottom-left of the page.
+ */
+
+export const POINTS_PER_MM = 72 / 25.4;
+
+export interface PdfJpeg {
+  width: number; // Pixels
+  height: number;
+  data: Uint8Array; // Baseline JPEG file bytes, embedded as-is (DCTDecode)
+}
+
+export interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  trimBox?: PdfBox; // Finished size, for single-card pages
+  bleedBox?: PdfBox;
+  images: (PdfBox & { image: PdfJpeg })[];
+  lines: { x1: number; y1: number; x2: number; y2: number }[];
+  lineWidth?: number; // Defaults to a 0.25 pt hairline
+}
+
+export interface PdfInfo {
+  title?: string;
+  creator?: string;
+}
+
+const encoder = new TextEncoder();
+
+const num = (value: number): string => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+const box = (rect: PdfBox): string => {
+  return `[${num(rect.x)} ${num(rect.y)} ${num(rect.x + rect.width)} ${num(rect.y + rect.height)}]`;
+};
+
+/**
+ * Text string as UTF-16BE hex, which is safe for any characters
+ */
+const pdfText = (text: string): string => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+};
+
+const pageContent = (page: PdfPage, imageNames: Map<PdfJpeg, string>): string => {
+  const ops: string[] = [];
+
+  page.images.forEach(placed => {
+    ops.push('q');
+    ops.push(`${num(placed.width)} 0 0 ${num(placed.height)} ${num(placed.x)} ${num(placed.y)} cm`);
+    ops.push(`/${imageNames.get(placed.image)} Do`);
+    ops.push('Q');
+  });
+
+  if (page.lines.length > 0) {
+    // Registration colour so marks show on every plate of a press proof
+    ops.push('q', `${num(page.lineWidth ?? 0.25)} w`, '1 1 1 1 K');
+    page.lines.forEach(line => {
+      ops.push(`${num(line.x1)} ${num(line.y1)} m ${num(line.x2)} ${num(line.y2)} l`);
+    });
+    ops.push('S', 'Q');
+  }
+
+  return ops.join('\n');
+};
+
+/**
+ * Serialise pages into a PDF file
+ */
+export function buildPdf(pages: PdfPage[], info: PdfInfo = {}): Uint8Array {
+  if (pages.length === 0) {
+    throw new Error('A PDF needs at least one page');
+  }
+
+  // Object numbers: 1 catalog, 2 page tree, 3 info, then images, then page and content pairs
+  const images = [...new Set(pages.flatMap(page => page.images.map(placed => placed.image)))];
+  const imageObject = new Map(images.map((image, index) => [image, 4 + index]));
+  const imageNames = new Map(images.map((image, index) => [image, `Im${index + 1}`]));
+  const firstPageObject = 4 + images.length;
+  const pageObject = (index: number) => firstPageObject + index * 2;
+  const objectCount = firstPageObject + pages.length * 2 - 1;
+
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Header; the comment's high bytes mark the file as binary for transfer tools
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObject(index)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, [
+    '<<',
+    info.title ? `/Title ${pdfText(info.title)}` : '',
+    info.creator ? `/Creator ${pdfText(info.creator)}` : '',
+    '>>',
+  ].filter(Boolean).join(' '));
+
+  images.forEach(image => {
+    writeObject(
+      imageObject.get(image)!,
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>`,
+      image.data
+    );
+  });
+
+  pages.forEach((page, index) => {
+    const used = [...new Set(page.images.map(placed => placed.image))];
+    const xObjects = used.map(image => `/${imageNames.get(image)} ${imageObject.get(image)} 0 R`).join(' ');
+    const content = encoder.encode(pageContent(page, imageNames));
+
+    writeObject(pageObject(index), [
+      '<< /Type /Page /Parent 2 0 R',
+      `/MediaBox ${box({ x: 0, y: 0, width: page.width, height: page.height })}`,
+      page.bleedBox ? `/BleedBox ${box(page.bleedBox)}` : '',
+      page.trimBox ? `/TrimBox ${box(page.trimBox)}` : '',
+      `/Resources << /XObject << ${xObjects} >> >>`,
+      `/Contents ${pageObject(index) + 1} 0 R >>`,
+    ].filter(Boolean).join(' '));
+    writeObject(pageObject(index) + 1, `<< /Length ${content.length} >>`, content);
+  });
+
+  // Cross-reference table: fixed 20-byte entries pointing at each object
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const output = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+}
@@ -0,0 +1,211 @@
+/**
+ * Turning an uploaded photo file into a data URL like a camera frame
+ * Handles EXIF orientation and downscaling under the size limit; cropping is
+ * left to the photo editor.
+ */
+
+import { createCanvas, loadImage } from './imageCanvas';
+import { validateMimeType, VALIDATION_LIMITS } from './validation';
+
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export interface JpegMetadata {
+  orientation: ExifOrientation;
+  width: number | null; // Stored (unrotated) size from the frame header
+  height: number | null;
+}
+
+export interface PhotoUploadOptions {
+  maxBytes: number; // Encoded size limit for the resulting data URL
+  maxDimension: number; // Longest side of the output
+  minDimension: number; // Shortest side allowed; give up rather than shrink below this
+}
+
+export const DEFAULT_PHOTO_UPLOAD_OPTIONS: PhotoUploadOptions = {
+  maxBytes: VALIDATION_LIMITS.IMAGE_MAX_SIZE_BYTES,
+  maxDimension: 2048,
+  minDimension: 128,
+};
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+const isExifOrientation = (value: number): value is ExifOrientation => {
+  return Number.isInteger(value) && value >= 1 && value <= 8;
+};
+
+/**
+ * Read the EXIF orientation and stored dimensions from a JPEG
+ * Returns orientation 1 for non-JPEG data or files without EXIF.
+ */
+export function readJpegMetadata(buffer: ArrayBuffer): JpegMetadata {
+  const view = new DataView(buffer);
+  const metadata: JpegMetadata = { orientation: 1, width: null, height: null };
+
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return metadata;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) break;
+
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+
+    // Start of scan: no more headers follow
+    if (marker === 0xda) break;
+
+    if (marker === 0xe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      metadata.orientation = readExifOrientation(view, offset + 10);
+    }
+
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc && offset + 9 <= view.byteLength) {
+      metadata.height = view.getUint16(offset + 5);
+      metadata.width = view.getUint16(offset + 7);
+    }
+
+    offset += 2 + length;
+  }
+
+  return metadata;
+}
+
+/**
+ * Read the orientation tag from IFD0 of a TIFF block starting at tiffStart
+ */
+const readExifOrientation = (view: DataView, tiffStart: number): ExifOrientation => {
+  if (tiffStart + 8 > view.byteLength) return 1;
+
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return 1;
+  const littleEndian = byteOrder === 0x4949;
+
+  const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (ifdStart + 2 > view.byteLength) return 1;
+
+  const entries = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+      const value = view.getUint16(entry + 8, littleEndian);
+      return isExifOrientation(value) ? value : 1;
+    }
+  }
+
+  return 1;
+};
+
+/**
+ * Whether an orientation swaps width and height
+ */
+export const isTransposedOrientation = (orientation: ExifOrientation): boolean => orientation >= 5;
+
+/**
+ * Draw an image into a canvas with the EXIF orientation applied
+ */
+const drawOriented = (image: HTMLImageElement, orientation: ExifOrientation): HTMLCanvasElement => {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const transposed = isTransposedOrientation(orientation);
+  const { canvas, context } = createCanvas(transposed ? height : width, transposed ? width : height);
+
+  switch (orientation) {
+    case 2: context.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: context.transform(-1, 0, 0, -1, width, height); break;
+    case 4: context.transform(1, 0, 0, -1, 0, height); break;
+    case 5: context.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: context.transform(0, 1, -1, 0, height, 0); break;
+    case 7: context.transform(0, -1, -1, 0, height, width); break;
+    case 8: context.transform(0, -1, 1, 0, 0, width); break;
+  }
+
+  context.drawImage(image, 0, 0);
+  return canvas;
+};
+
+/**
+ * Whether the browser already rotated the decoded image
+ * Rotations are detected from swapped dimensions; for flips, which keep the
+ * size, browsers that honour image-orientation also apply it when decoding.
+ */
+const browserAppliedOrientation = (image: HTMLImageElement, metadata: JpegMetadata): boolean => {
+  if (isTransposedOrientation(metadata.orientation) && metadata.width !== null && metadata.width !== metadata.height) {
+    return image.naturalWidth === metadata.height;
+  }
+  return typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+};
+
+const estimateDataUrlBytes = (dataUrl: string): number => {
+  return (dataUrl.split(',')[1].length * 3) / 4;
+};
+
+/**
+ * Scale so the longest side is longest and encode, PNG first then JPEG
+ */
+const encodeScaled = (source: HTMLCanvasElement | HTMLImageElement, longest: number, maxBytes: number): string | null => {
+  const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const scale = longest / Math.max(sourceWidth, sourceHeight);
+
+  const { canvas, context } = createCanvas(Math.round(sourceWidth * scale), Math.round(sourceHeight * scale));
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const png = canvas.toDataURL('image/png');
+  if (estimateDataUrlBytes(png) <= maxBytes) return png;
+
+  const jpeg = canvas.toDataURL('image/jpeg', 0.9);
+  return estimateDataUrlBytes(jpeg) <= maxBytes ? jpeg : null;
+};
+
+/**
+ * Load a PNG or JPEG file and return an upright data URL within the size limit
+ */
+export async function loadPhotoFile(
+  file: File,
+  options: PhotoUploadOptions = DEFAULT_PHOTO_UPLOAD_OPTIONS
+): Promise<string> {
+  const mimeValidation = validateMimeType.validate(file.type);
+  if (!mimeValidation.isValid) {
+    throw new Error(mimeValidation.errors.join(', '));
+  }
+
+  const buffer = await file.arrayBuffer();
+  const metadata: JpegMetadata = file.type === 'image/jpeg'
+    ? readJpegMetadata(buffer)
+    : { orientation: 1, width: null, height: null };
+
+  const objectUrl = URL.createObjectURL(file);
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(objectUrl);
+  } catch {
+    throw new Error('Could not read the photo. The file may be damaged.');
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+
+  const source = metadata.orientation !== 1 && !browserAppliedOrientation(image, metadata)
+    ? drawOriented(image, metadata.orientation)
+    : image;
+
+  const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const shortest = Math.min(sourceWidth, sourceHeight);
+  const longest = Math.max(sourceWidth, sourceHeight);
+
+  if (shortest < options.minDimension) {
+    throw new Error(`Photo is too small. Use an image at least ${options.minDimension}px on each side.`);
+  }
+
+  // Shrink until the encoded image fits under the limit
+  for (let size = Math.min(longest, options.maxDimension); (size * shortest) / longest >= options.minDimension; size = Math.floor(size * 0.75)) {
+    const dataUrl = encodeScaled(source, size, options.maxBytes);
+    if (dataUrl) return dataUrl;
+  }
+
+  throw new Error(`Photo could not be reduced below ${Math.round(options.maxBytes / (1024 * 1024))}MB.`);
+}
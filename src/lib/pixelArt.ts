@@ -0,0 +1,257 @@
+/**
+ * Pure pixel-art operations on RGBA pixel buffers
+ * Kept free of DOM access so they behave identically in any environment
+ */
+
+/**
+ * Minimal RGBA buffer shape, structurally compatible with ImageData
+ */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export type RGB = [number, number, number];
+
+/**
+ * Creates an empty (fully transparent) pixel buffer
+ */
+export function createPixelBuffer(width: number, height: number): PixelBuffer {
+  return {
+    width,
+    height,
+    data: new Uint8ClampedArray(width * height * 4),
+  };
+}
+
+/**
+ * Downsamples a buffer by averaging each source block into one target pixel
+ */
+export function downsample(source: PixelBuffer, targetWidth: number, targetHeight: number): PixelBuffer {
+  const target = createPixelBuffer(targetWidth, targetHeight);
+  const blockWidth = source.width / targetWidth;
+  const blockHeight = source.height / targetHeight;
+
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor(ty * blockHeight);
+    const y1 = Math.max(y0 + 1, Math.floor((ty + 1) * blockHeight));
+
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor(tx * blockWidth);
+      const x1 = Math.max(x0 + 1, Math.floor((tx + 1) * blockWidth));
+      let r = 0, g = 0, b = 0, a = 0, count = 0;
+
+      for (let y = y0; y < y1 && y < source.height; y++) {
+        for (let x = x0; x < x1 && x < source.width; x++) {
+          const i = (y * source.width + x) * 4;
+          r += source.data[i];
+          g += source.data[i + 1];
+          b += source.data[i + 2];
+          a += source.data[i + 3];
+          count++;
+        }
+      }
+
+      const o = (ty * targetWidth + tx) * 4;
+      if (count > 0) {
+        target.data[o] = Math.round(r / count);
+        target.data[o + 1] = Math.round(g / count);
+        target.data[o + 2] = Math.round(b / count);
+        target.data[o + 3] = Math.round(a / count);
+      }
+    }
+  }
+
+  return target;
+}
+
+/**
+ * Upscales a buffer by an integer factor using nearest-neighbour sampling
+ */
+export function upscaleNearest(source: PixelBuffer, scale: number): PixelBuffer {
+  const factor = Math.max(1, Math.floor(scale));
+  const target = createPixelBuffer(source.width * factor, source.height * factor);
+
+  for (let y = 0; y < target.height; y++) {
+    const sy = Math.floor(y / factor);
+    for (let x = 0; x < target.width; x++) {
+      const sx = Math.floor(x / factor);
+      const si = (sy * source.width + sx) * 4;
+      const ti = (y * target.width + x) * 4;
+      target.data[ti] = source.data[si];
+      target.data[ti + 1] = source.data[si + 1];
+      target.data[ti + 2] = source.data[si + 2];
+      target.data[ti + 3] = source.data[si + 3];
+    }
+  }
+
+  return target;
+}
+
+/**
+ * Builds a palette of at most maxColors entries using median cut
+ * Transparent pixels are ignored. Output order is deterministic.
+ */
+export function buildPalette(source: PixelBuffer, maxColors: number): RGB[] {
+  const colors: RGB[] = [];
+  for (let i = 0; i < source.data.length; i += 4) {
+    if (source.data[i + 3] < 128) continue;
+    colors.push([source.data[i], source.data[i + 1], source.data[i + 2]]);
+  }
+
+  if (colors.length === 0 || maxColors < 1) {
+    return [];
+  }
+
+  let boxes: RGB[][] = [colors];
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel range
+    let splitIndex = -1;
+    let splitChannel = 0;
+    let widestRange = 0;
+
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      for (let channel = 0; channel < 3; channel++) {
+        let min = 255, max = 0;
+        for (const color of box) {
+          if (color[channel] < min) min = color[channel];
+          if (color[channel] > max) max = color[channel];
+        }
+        if (max - min > widestRange) {
+          widestRange = max - min;
+          splitIndex = index;
+          splitChannel = channel;
+        }
+      }
+    });
+
+    if (splitIndex === -1) break;
+
+    const box = [...boxes[splitIndex]].sort((a, b) => a[splitChannel] - b[splitChannel]);
+    const middle = Math.floor(box.length / 2);
+    boxes = [
+      ...boxes.slice(0, splitIndex),
+      box.slice(0, middle),
+      box.slice(middle),
+      ...boxes.slice(splitIndex + 1),
+    ];
+  }
+
+  return boxes.map(box => {
+    const sum = box.reduce((acc, color) => [acc[0] + color[0], acc[1] + color[1], acc[2] + color[2]], [0, 0, 0]);
+    return [
+      Math.round(sum[0] / box.length),
+      Math.round(sum[1] / box.length),
+      Math.round(sum[2] / box.length),
+    ] as RGB;
+  });
+}
+
+/**
+ * Returns the index of the palette entry closest to the given colour
+ */
+export function nearestPaletteIndex(palette: RGB[], r: number, g: number, b: number): number {
+  let bestIndex = 0;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < palette.length; i++) {
+    const dr = palette[i][0] - r;
+    const dg = palette[i][1] - g;
+    const db = palette[i][2] - b;
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = i;
+    }
+  }
+
+  return bestIndex;
+}
+
+/**
+ * Maps every opaque pixel to its nearest palette colour
+ * Pixel alpha is snapped to fully opaque or fully transparent.
+ */
+export function applyPalette(source: PixelBuffer, palette: RGB[]): PixelBuffer {
+  const target = createPixelBuffer(source.width, source.height);
+
+  for (let i = 0; i < source.data.length; i += 4) {
+    if (source.data[i + 3] < 128 || palette.length === 0) continue;
+    const color = palette[nearestPaletteIndex(palette, source.data[i], source.data[i + 1], source.data[i + 2])];
+    target.data[i] = color[0];
+    target.data[i + 1] = color[1];
+    target.data[i + 2] = color[2];
+    target.data[i + 3] = 255;
+  }
+
+  return target;
+}
+
+/**
+ * Relative luminance (0-255) of an RGB colour
+ */
+export function luminance(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+/**
+ * Darkens pixels that sit on a strong luminance edge to give sprites a clear outline
+ */
+export function addOutline(source: PixelBuffer, threshold: number = 48, strength: number = 0.6): PixelBuffer {
+  const target: PixelBuffer = {
+    width: source.width,
+    height: source.height,
+    data: new Uint8ClampedArray(source.data),
+  };
+  const lumaAt = (x: number, y: number): number => {
+    const i = (y * source.width + x) * 4;
+    return luminance(source.data[i], source.data[i + 1], source.data[i + 2]);
+  };
+
+  for (let y = 0; y < source.height; y++) {
+    for (let x = 0; x < source.width; x++) {
+      const i = (y * source.width + x) * 4;
+      if (source.data[i + 3] === 0) continue;
+
+      const own = lumaAt(x, y);
+      const neighbours = [
+        x > 0 ? lumaAt(x - 1, y) : own,
+        x < source.width - 1 ? lumaAt(x + 1, y) : own,
+        y > 0 ? lumaAt(x, y - 1) : own,
+        y < source.height - 1 ? lumaAt(x, y + 1) : own,
+      ];
+
+      // Only the darker side of an edge is outlined so shapes don't grow
+      const isEdge = neighbours.some(value => value - own > threshold);
+      if (isEdge) {
+        target.data[i] = Math.round(source.data[i] * (1 - strength));
+        target.data[i + 1] = Math.round(source.data[i + 1] * (1 - strength));
+        target.data[i + 2] = Math.round(source.data[i + 2] * (1 - strength));
+      }
+    }
+  }
+
+  return target;
+}
+
+/**
+ * Formats an RGB colour as a lowercase hex string (#rrggbb)
+ */
+export function rgbToHex([r, g, b]: RGB): string {
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Parses a #rrggbb hex string into an RGB colour
+ */
+export function hexToRgb(hex: string): RGB {
+  const value = hex.replace('#', '');
+  return [
+    parseInt(value.substring(0, 2), 16),
+    parseInt(value.substring(2, 4), 16),
+    parseInt(value.substring(4, 6), 16),
+  ];
+}
@@ -0,0 +1,168 @@
+/**
+ * Pixel-grid detection and snapping for images that only look pixelated
+ * AI output is typically a large, anti-aliased image whose "pixels" are blocks
+ * of a few screen pixels; these helpers recover the underlying grid.
+ */
+
+import { createPixelBuffer } from './pixelArt';
+import type { PixelBuffer } from './pixelArt';
+
+export interface GridDetection {
+  gridSize: number; // Number of art pixels along the detected axis
+  cellSize: number; // Size of one art pixel in source pixels (may be fractional)
+  confidence: number; // 0-1, how strongly edges line up with the detected grid
+}
+
+export interface GridDetectionOptions {
+  minCellSize: number;
+  maxCellSize: number;
+}
+
+export const DEFAULT_GRID_DETECTION_OPTIONS: GridDetectionOptions = {
+  minCellSize: 2,
+  maxCellSize: 32,
+};
+
+/**
+ * Sums colour differences between neighbouring columns (axis 'x') or rows (axis 'y')
+ * profile[i] measures how strongly an edge falls between index i - 1 and i.
+ */
+export function edgeProfile(buffer: PixelBuffer, axis: 'x' | 'y'): Float64Array {
+  const length = axis === 'x' ? buffer.width : buffer.height;
+  const across = axis === 'x' ? buffer.height : buffer.width;
+  const profile = new Float64Array(length);
+
+  for (let i = 1; i < length; i++) {
+    let total = 0;
+    for (let j = 0; j < across; j++) {
+      const a = axis === 'x' ? (j * buffer.width + i) * 4 : (i * buffer.width + j) * 4;
+      const b = axis === 'x' ? a - 4 : a - buffer.width * 4;
+      total += Math.abs(buffer.data[a] - buffer.data[b])
+        + Math.abs(buffer.data[a + 1] - buffer.data[b + 1])
+        + Math.abs(buffer.data[a + 2] - buffer.data[b + 2])
+        + Math.abs(buffer.data[a + 3] - buffer.data[b + 3]);
+    }
+    profile[i] = total;
+  }
+
+  return profile;
+}
+
+/**
+ * Mean edge strength on the lines of a grid with the given period, relative to the overall mean
+ */
+function scorePeriod(profile: Float64Array, period: number, mean: number): number {
+  if (mean === 0) return 0;
+
+  let total = 0;
+  let count = 0;
+  // Fractional grid lines land on either neighbouring column, so take the stronger one
+  for (let position = period; Math.ceil(position) < profile.length; position += period) {
+    total += Math.max(profile[Math.floor(position)], profile[Math.ceil(position)]);
+    count++;
+  }
+
+  return count > 0 ? total / count / mean : 0;
+}
+
+/**
+ * Detects the effective pixel grid of pixel-art-looking images
+ * The grid is assumed to span the whole image, so candidates are whole cell
+ * counts. Divisors of the true count score equally well, so the finest grid
+ * scoring close to the best is chosen.
+ */
+export function detectPixelGrid(
+  buffer: PixelBuffer,
+  options: GridDetectionOptions = DEFAULT_GRID_DETECTION_OPTIONS
+): GridDetection {
+  const xProfile = edgeProfile(buffer, 'x');
+  const yProfile = edgeProfile(buffer, 'y');
+  const length = Math.min(xProfile.length, yProfile.length);
+  const combined = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    combined[i] = xProfile[i] + yProfile[i];
+  }
+
+  const mean = combined.reduce((sum, value) => sum + value, 0) / Math.max(1, length - 1);
+  const minCount = Math.max(1, Math.ceil(length / options.maxCellSize));
+  const maxCount = Math.floor(length / options.minCellSize);
+  const candidates: { gridSize: number; score: number }[] = [];
+
+  for (let gridSize = minCount; gridSize <= maxCount; gridSize++) {
+    candidates.push({ gridSize, score: scorePeriod(combined, length / gridSize, mean) });
+  }
+
+  if (candidates.length === 0) {
+    return { gridSize: length, cellSize: 1, confidence: 0 };
+  }
+
+  const bestScore = Math.max(...candidates.map(candidate => candidate.score));
+  const chosen = [...candidates].reverse().find(candidate => candidate.score >= bestScore * 0.9) ?? candidates[0];
+  const cellSize = length / chosen.gridSize;
+
+  return {
+    gridSize: chosen.gridSize,
+    cellSize,
+    // A perfectly periodic image scores cellSize times the mean on its grid lines
+    confidence: Math.max(0, Math.min(1, (chosen.score - 1) / Math.max(1, cellSize - 1))),
+  };
+}
+
+/**
+ * Resamples an image onto a gridWidth x gridHeight grid
+ * Each cell takes the average of its central area, ignoring anti-aliased borders.
+ */
+export function snapToGrid(buffer: PixelBuffer, gridWidth: number, gridHeight: number): PixelBuffer {
+  const target = createPixelBuffer(gridWidth, gridHeight);
+  const cellWidth = buffer.width / gridWidth;
+  const cellHeight = buffer.height / gridHeight;
+
+  for (let gy = 0; gy < gridHeight; gy++) {
+    const y0 = Math.floor((gy + 0.25) * cellHeight);
+    const y1 = Math.max(y0 + 1, Math.ceil((gy + 0.75) * cellHeight));
+
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const x0 = Math.floor((gx + 0.25) * cellWidth);
+      const x1 = Math.max(x0 + 1, Math.ceil((gx + 0.75) * cellWidth));
+      let r = 0, g = 0, b = 0, a = 0, count = 0;
+
+      for (let y = y0; y < y1 && y < buffer.height; y++) {
+        for (let x = x0; x < x1 && x < buffer.width; x++) {
+          const i = (y * buffer.width + x) * 4;
+          r += buffer.data[i];
+          g += buffer.data[i + 1];
+          b += buffer.data[i + 2];
+          a += buffer.data[i + 3];
+          count++;
+        }
+      }
+
+      if (count > 0) {
+        const o = (gy * gridWidth + gx) * 4;
+        target.data[o] = Math.round(r / count);
+        target.data[o + 1] = Math.round(g / count);
+        target.data[o + 2] = Math.round(b / count);
+        target.data[o + 3] = Math.round(a / count);
+      }
+    }
+  }
+
+  return target;
+}
+
+/**
+ * Picks the grid size to snap to given a detection result
+ * Falls back to the preferred size when detection is weak or out of range.
+ */
+export function resolveGridSize(
+  detection: GridDetection,
+  preferredSize: number,
+  minSize: number = 16,
+  maxSize: number = 128
+): number {
+  if (detection.confidence < 0.2 || detection.gridSize < minSize || detection.gridSize > maxSize) {
+    return preferredSize;
+  }
+
+  return detection.gridSize;
+}
@@ -0,0 +1,149 @@
+/**
+ * Lossless SVG export of pixel art
+ * Each colour becomes one path of merged rectangles on the art's own grid, so
+ * the image scales to any size with the exact palette and no resampling.
+ * One path per colour also gives plotters and laser cutters a layer per colour.
+ */
+
+import { applyPalette, hexToRgb, rgbToHex } from './pixelArt';
+import type { PixelBuffer } from './pixelArt';
+import { detectPixelGrid, resolveGridSize, snapToGrid } from './pixelGrid';
+import { dataUrlToPixelBuffer } from './imageCanvas';
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PixelSvgOptions {
+  pixelSize?: number; // Size of one art pixel in `unit`
+  unit?: 'px' | 'mm';
+  background?: string | null; // Fill behind transparent pixels; null keeps them transparent
+  title?: string;
+}
+
+// One art pixel per millimetre keeps a 64-pixel portrait at a practical size for cutting and print
+export const DEFAULT_SVG_PIXEL_SIZE_MM = 1;
+
+// Pixels at or below this alpha are left out; everything else is drawn fully opaque
+const ALPHA_THRESHOLD = 127;
+
+const colourKey = (data: Uint8ClampedArray, i: number): string | null => {
+  if (data[i + 3] <= ALPHA_THRESHOLD) return null;
+  return rgbToHex([data[i], data[i + 1], data[i + 2]]);
+};
+
+/**
+ * Cover every opaque pixel with rectangles, grouped by colour
+ * Runs of a colour along each row are merged, then identical runs on
+ * consecutive rows are merged into taller rectangles.
+ */
+export function mergePixelRects(buffer: PixelBuffer): Map<string, PixelRect[]> {
+  const result = new Map<string, PixelRect[]>();
+  let open = new Map<string, PixelRect>(); // Rectangles that may still grow downwards, keyed by colour and span
+
+  for (let y = 0; y < buffer.height; y++) {
+    const next = new Map<string, PixelRect>();
+    let x = 0;
+    while (x < buffer.width) {
+      const colour = colourKey(buffer.data, (y * buffer.width + x) * 4);
+      let end = x + 1;
+      while (end < buffer.width && colourKey(buffer.data, (y * buffer.width + end) * 4) === colour) {
+        end++;
+      }
+
+      if (colour) {
+        const key = `${colour}:${x}:${end}`;
+        const above = open.get(key);
+        if (above) {
+          above.height++;
+          next.set(key, above);
+        } else {
+          const rect = { x, y, width: end - x, height: 1 };
+          next.set(key, rect);
+          const rects = result.get(colour) ?? [];
+          rects.push(rect);
+          result.set(colour, rects);
+        }
+      }
+      x = end;
+    }
+    open = next;
+  }
+
+  return result;
+}
+
+/**
+ * SVG path data for a set of rectangles
+ */
+export function rectsToPath(rects: PixelRect[]): string {
+  return rects.map(rect => `M${rect.x} ${rect.y}h${rect.width}v${rect.height}h${-rect.width}z`).join('');
+}
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+/**
+ * Render a grid-resolution buffer (one image pixel per art pixel) as an SVG document
+ */
+export function pixelBufferToSvg(buffer: PixelBuffer, options: PixelSvgOptions = {}): string {
+  const { pixelSize = 1, unit = 'px', background = null, title } = options;
+  const groups = mergePixelRects(buffer);
+  const size = (cells: number) => `${Math.round(cells * pixelSize * 1000) / 1000}${unit === 'px' ? '' : unit}`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size(buffer.width)}" height="${size(buffer.height)}" viewBox="0 0 ${buffer.width} ${buffer.height}" shape-rendering="crispEdges">`,
+  ];
+  if (title) {
+    lines.push(`<title>${escapeXml(title)}</title>`);
+  }
+  if (background) {
+    lines.push(`<rect width="${buffer.width}" height="${buffer.height}" fill="${escapeXml(background)}"/>`);
+  }
+  groups.forEach((rects, colour) => {
+    lines.push(`<path id="c${colour.slice(1)}" fill="${colour}" d="${rectsToPath(rects)}"/>`);
+  });
+  lines.push('</svg>');
+
+  return lines.join('\n');
+}
+
+/**
+ * Reduce an image to one pixel per art pixel
+ * Images already at the expected grid size are used as they are; larger ones
+ * (e.g. cards saved before post-processing) are snapped to their detected
+ * grid and, when known, the card's palette.
+ */
+export function toArtGrid(buffer: PixelBuffer, expectedGridSize: number, palette?: string[] | null): PixelBuffer {
+  if (buffer.width <= expectedGridSize && buffer.height <= expectedGridSize) {
+    return buffer;
+  }
+
+  const gridSize = resolveGridSize(detectPixelGrid(buffer), expectedGridSize);
+  const aspect = buffer.height / buffer.width;
+  const snapped = snapToGrid(buffer, gridSize, Math.max(1, Math.round(gridSize * aspect)));
+  return palette && palette.length > 0 ? applyPalette(snapped, palette.map(hexToRgb)) : snapped;
+}
+
+/**
+ * Load a stored or generated image and export it as an SVG file
+ */
+export async function pixelArtToSvgBlob(
+  imageSrc: string,
+  gridSize: number,
+  options: PixelSvgOptions & { palette?: string[] | null } = {}
+): Promise<Blob> {
+  const { palette, ...svgOptions } = options;
+  const buffer = toArtGrid(await dataUrlToPixelBuffer(imageSrc), gridSize, palette);
+  const svg = pixelBufferToSvg(buffer, { pixelSize: DEFAULT_SVG_PIXEL_SIZE_MM, unit: 'mm', ...svgOptions });
+  return new Blob([svg], { type: 'image/svg+xml' });
+}
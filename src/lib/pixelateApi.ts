@@ -0,0 +1,20 @@
+/**
+ * Contract for the server-side pixelate endpoint
+ * Shared by the browser client and the Netlify function so the two can't drift.
+ */
+
+export const DEFAULT_PIXELATE_ENDPOINT = '/api/pixelate';
+
+export const GEMINI_MODEL = 'gemini-2.5-flash-image';
+
+export interface PixelateRequestBody {
+  image: string; // PNG or JPEG data URL
+  presetId: string;
+  promptVersion?: string; // Defaults to the preset's control prompt
+}
+
+export interface PixelateResponseBody {
+  image: string; // PNG data URL
+  modelId: string;
+  promptVersion: string;
+}
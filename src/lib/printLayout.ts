@@ -0,0 +1,219 @@
+/**
+ * Print geometry for badge PDFs: card sizes, sheets, bleed, crop marks and imposition
+ * All lengths are millimetres measured from the top-left corner of the sheet.
+ */
+
+export interface PrintSize {
+  width: number;
+  height: number;
+}
+
+export interface PrintRect extends PrintSize {
+  x: number;
+  y: number;
+}
+
+export type CardSizeId = 'cr80' | 'custom';
+
+// CR80 is the ISO/IEC 7810 ID-1 size used for badges and bank cards, given here in portrait
+export const CR80_CARD_SIZE: PrintSize = { width: 54, height: 85.6 };
+
+export type PrintSheetId = 'card' | 'a4' | 'letter';
+
+export const PRINT_SHEETS: Record<Exclude<PrintSheetId, 'card'>, PrintSize & { label: string }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  letter: { label: 'Letter', width: 215.9, height: 279.4 },
+};
+
+export const PRINT_LIMITS = {
+  MIN_CARD_SIDE: 20,
+  MAX_CARD_SIDE: 200,
+  MAX_BLEED: 5,
+  SHEET_MARGIN: 10, // Unprintable border most desktop printers need
+  MARK_OFFSET: 2, // Gap between the bleed edge and a crop mark
+  MARK_LENGTH: 5,
+} as const;
+
+export const DEFAULT_BLEED = 3;
+
+export interface PrintOptions {
+  cardSize: PrintSize; // Trim size, in the orientation it is printed
+  bleed: number;
+  cropMarks: boolean;
+  sheet: PrintSheetId; // 'card' puts every card on its own page of the card's size
+  backs: boolean; // Follow each front sheet with a back sheet for duplex printing
+}
+
+export interface PrintSlot {
+  cardIndex: number;
+  trim: PrintRect;
+  bleed: PrintRect; // Trim grown by the bleed; card art fills this
+}
+
+export interface CropMark {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PrintSheet extends PrintSize {
+  side: 'front' | 'back';
+  slots: PrintSlot[];
+  marks: CropMark[];
+}
+
+/**
+ * Problems with the options, empty when they can be imposed
+ */
+export function validatePrintOptions(options: PrintOptions): string[] {
+  const errors: string[] = [];
+  const { cardSize, bleed } = options;
+  const inRange = (side: number) => Number.isFinite(side)
+    && side >= PRINT_LIMITS.MIN_CARD_SIDE
+    && side <= PRINT_LIMITS.MAX_CARD_SIDE;
+
+  if (!inRange(cardSize.width) || !inRange(cardSize.height)) {
+    errors.push(`Card sides must be between ${PRINT_LIMITS.MIN_CARD_SIDE} and ${PRINT_LIMITS.MAX_CARD_SIDE} mm`);
+  }
+  if (!Number.isFinite(bleed) || bleed < 0 || bleed > PRINT_LIMITS.MAX_BLEED) {
+    errors.push(`Bleed must be between 0 and ${PRINT_LIMITS.MAX_BLEED} mm`);
+  }
+  if (errors.length === 0 && options.sheet !== 'card' && cardsPerSheet(options) === 0) {
+    errors.push(`The card does not fit on a ${PRINT_SHEETS[options.sheet].label} sheet`);
+  }
+
+  return errors;
+}
+
+const grow = (rect: PrintRect, amount: number): PrintRect => ({
+  x: rect.x - amount,
+  y: rect.y - amount,
+  width: rect.width + 2 * amount,
+  height: rect.height + 2 * amount,
+});
+
+const markSpace = (options: PrintOptions): number => {
+  return options.cropMarks ? PRINT_LIMITS.MARK_OFFSET + PRINT_LIMITS.MARK_LENGTH : 0;
+};
+
+const gridSize = (options: PrintOptions): { columns: number; rows: number } => {
+  if (options.sheet === 'card') return { columns: 1, rows: 1 };
+
+  const sheet = PRINT_SHEETS[options.sheet];
+  const margin = Math.max(PRINT_LIMITS.SHEET_MARGIN, markSpace(options));
+  const cellWidth = options.cardSize.width + 2 * options.bleed;
+  const cellHeight = options.cardSize.height + 2 * options.bleed;
+
+  return {
+    columns: Math.max(0, Math.floor((sheet.width - 2 * margin) / cellWidth)),
+    rows: Math.max(0, Math.floor((sheet.height - 2 * margin) / cellHeight)),
+  };
+};
+
+/**
+ * How many cards one sheet holds
+ */
+export function cardsPerSheet(options: PrintOptions): number {
+  const { columns, rows } = gridSize(options);
+  return columns * rows;
+}
+
+/**
+ * Crop marks around a grid of trimmed cards, drawn outside its bleed edge
+ * Marks are ganged: one per trim line at each end of the grid, so they never
+ * cross a neighbouring card.
+ */
+const gangCropMarks = (slots: PrintSlot[]): CropMark[] => {
+  if (slots.length === 0) return [];
+
+  const outer = slots.map(slot => slot.bleed);
+  const left = Math.min(...outer.map(rect => rect.x));
+  const top = Math.min(...outer.map(rect => rect.y));
+  const right = Math.max(...outer.map(rect => rect.x + rect.width));
+  const bottom = Math.max(...outer.map(rect => rect.y + rect.height));
+  const start = PRINT_LIMITS.MARK_OFFSET;
+  const end = start + PRINT_LIMITS.MARK_LENGTH;
+
+  // Round so that edges shared by cards without bleed collapse into one mark
+  const unique = (values: number[]) => [...new Set(values.map(value => Math.round(value * 1000) / 1000))];
+  const xs = unique(slots.flatMap(slot => [slot.trim.x, slot.trim.x + slot.trim.width]));
+  const ys = unique(slots.flatMap(slot => [slot.trim.y, slot.trim.y + slot.trim.height]));
+
+  return [
+    ...xs.flatMap(x => [
+      { x1: x, y1: top - end, x2: x, y2: top - start },
+      { x1: x, y1: bottom + start, x2: x, y2: bottom + end },
+    ]),
+    ...ys.flatMap(y => [
+      { x1: left - end, y1: y, x2: left - start, y2: y },
+      { x1: right + start, y1: y, x2: right + end, y2: y },
+    ]),
+  ];
+};
+
+/**
+ * Back of a sheet for long-edge duplex printing: the layout mirrored left to right
+ */
+const mirrorSheet = (sheet: PrintSheet): PrintSheet => {
+  const flip = (rect: PrintRect): PrintRect => ({ ...rect, x: sheet.width - rect.x - rect.width });
+  return {
+    ...sheet,
+    side: 'back',
+    slots: sheet.slots.map(slot => ({ ...slot, trim: flip(slot.trim), bleed: flip(slot.bleed) })),
+    marks: sheet.marks.map(mark => ({ ...mark, x1: sheet.width - mark.x1, x2: sheet.width - mark.x2 })),
+  };
+};
+
+/**
+ * Lay cards out on sheets, filling each sheet row by row
+ */
+export function imposeCards(cardCount: number, options: PrintOptions): PrintSheet[] {
+  const errors = validatePrintOptions(options);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  const { cardSize, bleed } = options;
+  const { columns, rows } = gridSize(options);
+  const perSheet = columns * rows;
+  const margin = options.sheet === 'card' ? markSpace(options) : 0;
+  const sheetSize: PrintSize = options.sheet === 'card'
+    ? { width: cardSize.width + 2 * (bleed + margin), height: cardSize.height + 2 * (bleed + margin) }
+    : PRINT_SHEETS[options.sheet];
+
+  // Centre the grid on the sheet
+  const gridWidth = columns * (cardSize.width + 2 * bleed);
+  const gridHeight = rows * (cardSize.height + 2 * bleed);
+  const originX = (sheetSize.width - gridWidth) / 2;
+  const originY = (sheetSize.height - gridHeight) / 2;
+
+  const sheets: PrintSheet[] = [];
+  for (let first = 0; first < cardCount; first += perSheet) {
+    const slots: PrintSlot[] = [];
+    for (let i = 0; i < perSheet && first + i < cardCount; i++) {
+      const column = i % columns;
+      const row = Math.floor(i / columns);
+      const trim: PrintRect = {
+        x: originX + column * (cardSize.width + 2 * bleed) + bleed,
+        y: originY + row * (cardSize.height + 2 * bleed) + bleed,
+        width: cardSize.width,
+        height: cardSize.height,
+      };
+      slots.push({ cardIndex: first + i, trim, bleed: grow(trim, bleed) });
+    }
+
+    const front: PrintSheet = {
+      ...sheetSize,
+      side: 'front',
+      slots,
+      marks: options.cropMarks ? gangCropMarks(slots) : [],
+    };
+    sheets.push(front);
+    if (options.backs) {
+      sheets.push(mirrorSheet(front));
+    }
+  }
+
+  return sheets;
+}
@@ -0,0 +1,102 @@
+/**
+ * Versioned prompt registry with weighted A/B assignment
+ * Prompts live in ../prompts/prompts.json. To try a new prompt, add a record
+ * with a new version id for the same preset and give it a weight; existing
+ * records should never be edited so saved cards stay traceable.
+ */
+
+import promptRecords from '../prompts/prompts.json';
+import { isStylePresetId } from './stylePresets';
+import type { StylePresetId } from './stylePresets';
+
+export interface PromptVersion {
+  version: string; // Unique id recorded on cards, e.g. "jrpg-16bit@2"
+  presetId: StylePresetId;
+  weight: number; // Relative share of generations; 0 retires the version
+  createdAt: string;
+  notes?: string;
+  prompt: string;
+}
+
+const isPromptVersion = (value: any): value is PromptVersion => {
+  return (
+    value &&
+    typeof value === 'object' &&
+    typeof value.version === 'string' &&
+    isStylePresetId(value.presetId) &&
+    typeof value.weight === 'number' &&
+    value.weight >= 0 &&
+    typeof value.createdAt === 'string' &&
+    (value.notes === undefined || typeof value.notes === 'string') &&
+    typeof value.prompt === 'string' &&
+    value.prompt.length > 0
+  );
+};
+
+const loadPromptVersions = (records: unknown[]): PromptVersion[] => {
+  const versions: PromptVersion[] = [];
+  const seen = new Set<string>();
+
+  for (const record of records) {
+    if (!isPromptVersion(record)) {
+      console.error('Ignoring invalid prompt record:', record);
+      continue;
+    }
+    if (seen.has(record.version)) {
+      console.error(`Ignoring duplicate prompt version "${record.version}"`);
+      continue;
+    }
+    seen.add(record.version);
+    versions.push(record);
+  }
+
+  return versions;
+};
+
+export const PROMPT_VERSIONS: readonly PromptVersion[] = loadPromptVersions(promptRecords);
+
+/**
+ * All prompt versions, optionally limited to one preset, in registry order
+ */
+export function listPromptVersions(presetId?: StylePresetId): PromptVersion[] {
+  return PROMPT_VERSIONS.filter(record => presetId === undefined || record.presetId === presetId);
+}
+
+/**
+ * Looks up a prompt version by id
+ */
+export function getPromptVersion(version: string): PromptVersion | null {
+  return PROMPT_VERSIONS.find(record => record.version === version) ?? null;
+}
+
+/**
+ * The control prompt of a preset: its first record in the registry
+ */
+export function getControlPromptVersion(presetId: StylePresetId): PromptVersion {
+  const control = PROMPT_VERSIONS.find(record => record.presetId === presetId);
+  if (!control) {
+    throw new Error(`No prompt registered for style preset "${presetId}"`);
+  }
+  return control;
+}
+
+/**
+ * Picks a prompt version for one generation, weighted by each version's share
+ * Falls back to the control prompt when every version of the preset is retired.
+ */
+export function assignPromptVersion(presetId: StylePresetId, random: () => number = Math.random): PromptVersion {
+  const active = listPromptVersions(presetId).filter(record => record.weight > 0);
+  const totalWeight = active.reduce((sum, record) => sum + record.weight, 0);
+  if (totalWeight === 0) {
+    return getControlPromptVersion(presetId);
+  }
+
+  let remaining = random() * totalWeight;
+  for (const record of active) {
+    remaining -= record.weight;
+    if (remaining < 0) {
+      return record;
+    }
+  }
+  return active[active.length - 1];
+}
@@ -0,0 +1,420 @@
+/**
+ * QR code encoder (ISO/IEC 18004) for the links printed on cards
+ * Text is encoded in byte mode as UTF-8 into the smallest version from 1 to 10
+ * that fits, with Reed-Solomon error correction and the lowest-penalty mask.
+ * Nothing leaves the browser, so codes work offline and without third-party services.
+ */
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number;
+  size: number; // Modules per side, without the quiet zone
+  modules: Uint8Array; // Row-major, 1 = dark
+}
+
+export interface QrOptions {
+  errorCorrection?: QrErrorCorrection;
+}
+
+export const QR_MAX_VERSION = 10;
+
+// Light modules the spec asks for around the code
+export const QR_QUIET_ZONE = 4;
+
+// Per error correction level, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [0, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18],
+  M: [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26],
+  Q: [0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24],
+  H: [0, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4],
+  M: [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5],
+  Q: [0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8],
+  H: [0, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8],
+};
+
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * Codewords available for data and error correction in a version
+ */
+const rawCodewords = (version: number): number => {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignCount = Math.floor(version / 7) + 2;
+    modules -= (25 * alignCount - 10) * alignCount - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return Math.floor(modules / 8);
+};
+
+const dataCodewords = (version: number, ecc: QrErrorCorrection): number => {
+  return rawCodewords(version) - ECC_CODEWORDS_PER_BLOCK[ecc][version] * ERROR_CORRECTION_BLOCKS[ecc][version];
+};
+
+const alignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+};
+
+// GF(256) arithmetic with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array<number>(divisor.length).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+/**
+ * Mode, length, payload and padding as data codewords
+ */
+const encodeData = (bytes: Uint8Array, version: number, capacity: number): number[] => {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  push(0b0100, 4); // Byte mode
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => push(byte, 8));
+  push(0, Math.min(4, capacity * 8 - bits.length)); // Terminator
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+};
+
+/**
+ * Split data into blocks, add error correction and interleave
+ */
+const addErrorCorrection = (data: number[], version: number, ecc: QrErrorCorrection): number[] => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[ecc][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[ecc][version];
+  const shortBlockLength = Math.floor(rawCodewords(version) / blockCount);
+  const shortBlocks = blockCount - (rawCodewords(version) % blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const dataBlocks: number[][] = [];
+  const eccBlocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    dataBlocks.push(block);
+    eccBlocks.push(reedSolomonRemainder(block, divisor));
+  }
+
+  const result: number[] = [];
+  const longest = Math.max(...dataBlocks.map(block => block.length));
+  for (let i = 0; i < longest; i++) {
+    dataBlocks.forEach(block => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+  for (let i = 0; i < eccLength; i++) {
+    eccBlocks.forEach(block => result.push(block[i]));
+  }
+  return result;
+};
+
+/**
+ * Module grid with its function patterns; data modules are filled in later
+ */
+class QrMatrix {
+  readonly modules: Uint8Array;
+  readonly reserved: Uint8Array; // Function modules that data and masks must skip
+
+  constructor(readonly version: number, readonly size: number) {
+    this.modules = new Uint8Array(size * size);
+    this.reserved = new Uint8Array(size * size);
+  }
+
+  get(x: number, y: number): boolean {
+    return this.modules[y * this.size + x] === 1;
+  }
+
+  setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y * this.size + x] = dark ? 1 : 0;
+    this.reserved[y * this.size + x] = 1;
+  }
+
+  drawFunctionPatterns(): void {
+    const { size } = this;
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(size - 4, 3);
+    this.drawFinder(3, size - 4);
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // Skip the three corners taken by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        this.drawAlignment(x, y);
+      });
+    });
+
+    this.drawFormatBits('L', 0); // Reserve the area; real bits are drawn once the mask is chosen
+    this.drawVersion();
+  }
+
+  private drawFinder(cx: number, cy: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= this.size || y >= this.size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(ecc: QrErrorCorrection, mask: number): void {
+    const data = (FORMAT_BITS[ecc] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+    const { size } = this;
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i));
+    this.setFunction(8, 7, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i));
+
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, bit(i));
+    this.setFunction(8, size - 8, true); // Always-dark module
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /**
+   * Place codewords in the two-column zigzag from the bottom-right corner
+   */
+  drawCodewords(codewords: number[]): void {
+    const { size } = this;
+    let bitIndex = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skip the vertical timing pattern
+      const upward = ((right + 1) & 2) === 0;
+      for (let step = 0; step < size; step++) {
+        const y = upward ? size - 1 - step : step;
+        for (let column = 0; column < 2; column++) {
+          const x = right - column;
+          if (this.reserved[y * size + x]) continue;
+          if (bitIndex < codewords.length * 8) {
+            this.modules[y * size + x] = (codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1;
+            bitIndex++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    const condition = MASKS[mask];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y * this.size + x] && condition(x, y)) {
+          this.modules[y * this.size + x] ^= 1;
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty score from the spec's four rules; lower reads more reliably
+   */
+  penalty(): number {
+    const { size } = this;
+    let score = 0;
+
+    const scoreLine = (get: (i: number) => boolean) => {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && get(i) === get(i - 1)) {
+          run++;
+          continue;
+        }
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+
+      // Finder-like 1:1:3:1:1 runs with four light modules on one side
+      const line = Array.from({ length: size }, (_, i) => (get(i) ? '1' : '0')).join('');
+      for (const pattern of ['00001011101', '10111010000']) {
+        for (let at = line.indexOf(pattern); at !== -1; at = line.indexOf(pattern, at + 1)) {
+          score += 40;
+        }
+      }
+    };
+
+    for (let i = 0; i < size; i++) {
+      scoreLine(x => this.get(x, i));
+      scoreLine(y => this.get(i, y));
+    }
+
+    let dark = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (this.get(x, y)) dark++;
+        if (x < size - 1 && y < size - 1) {
+          const colour = this.get(x, y);
+          if (colour === this.get(x + 1, y) && colour === this.get(x, y + 1) && colour === this.get(x + 1, y + 1)) {
+            score += 3;
+          }
+        }
+      }
+    }
+    score += Math.floor(Math.abs((dark * 100) / (size * size) - 50) / 5) * 10;
+
+    return score;
+  }
+}
+
+/**
+ * Encode text as a QR code
+ */
+export function encodeQr(text: string, options: QrOptions = {}): QrCode {
+  const ecc = options.errorCorrection ?? 'M';
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  const fits = (v: number) => 4 + (v < 10 ? 8 : 16) + bytes.length * 8 <= dataCodewords(v, ecc) * 8;
+  while (version <= QR_MAX_VERSION && !fits(version)) version++;
+  if (version > QR_MAX_VERSION) {
+    throw new Error(`Text is too long for a QR code (${bytes.length} bytes)`);
+  }
+
+  const codewords = addErrorCorrection(encodeData(bytes, version, dataCodewords(version, ecc)), version, ecc);
+  const matrix = new QrMatrix(version, version * 4 + 17);
+  matrix.drawFunctionPatterns();
+  matrix.drawCodewords(codewords);
+
+  // Try every mask and keep the one with the lowest penalty
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(ecc, mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask); // XOR again to undo
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(ecc, bestMask);
+
+  return { version, size: matrix.size, modules: matrix.modules };
+}
+
+/**
+ * SVG path data covering the dark modules, one unit per module, offset by the quiet zone
+ * Horizontal runs are merged so the path stays short.
+ */
+export function qrToPath(code: QrCode, quietZone: number = QR_QUIET_ZONE): string {
+  const parts: string[] = [];
+  for (let y = 0; y < code.size; y++) {
+    let x = 0;
+    while (x < code.size) {
+      if (!code.modules[y * code.size + x]) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < code.size && code.modules[y * code.size + x]) x++;
+      parts.push(`M${start + quietZone} ${y + quietZone}h${x - start}v1h${start - x}z`);
+    }
+  }
+  return parts.join('');
+}
@@ -0,0 +1,192 @@
+/**
+ * Automated quality checks for generated pixel portraits
+ * Pure functions over pixel buffers so results are reproducible and loggable.
+ */
+
+import type { PixelBuffer, RGB } from './pixelArt';
+
+export type QualityCheckId = 'square' | 'background' | 'colorCount' | 'notBlank';
+
+export interface QualityCheckResult {
+  check: QualityCheckId;
+  passed: boolean;
+  value: number;
+  threshold: number;
+  message: string;
+}
+
+export interface QualityReport {
+  passed: boolean;
+  checks: QualityCheckResult[];
+}
+
+export interface QualityGateThresholds {
+  maxAspectDeviation: number; // |w - h| / max(w, h)
+  minPlainBorderRatio: number; // Share of border pixels that must be background or transparent
+  backgroundTolerance: number; // Per-channel distance from the background colour still counted as background
+  borderWidthRatio: number; // Border band width relative to image size
+  maxColors: number; // Distinct colours allowed in the snapped grid (4 bits per channel)
+  minForegroundRatio: number; // Share of grid cells that must differ from the background
+}
+
+export const DEFAULT_QUALITY_GATE_THRESHOLDS: QualityGateThresholds = {
+  maxAspectDeviation: 0.02,
+  minPlainBorderRatio: 0.9,
+  backgroundTolerance: 24,
+  borderWidthRatio: 0.03,
+  maxColors: 192,
+  minForegroundRatio: 0.08,
+};
+
+export interface QualityGateInput {
+  originalWidth: number;
+  originalHeight: number;
+  source: PixelBuffer;
+  grid: PixelBuffer;
+  backgroundColor?: RGB; // Expected background when the style doesn't use white
+}
+
+const isPlainBackground = (
+  data: Uint8ClampedArray,
+  i: number,
+  tolerance: number,
+  backgroundColor: RGB = [255, 255, 255]
+): boolean => {
+  if (data[i + 3] < 16) return true;
+  return Math.abs(data[i] - backgroundColor[0]) <= tolerance
+    && Math.abs(data[i + 1] - backgroundColor[1]) <= tolerance
+    && Math.abs(data[i + 2] - backgroundColor[2]) <= tolerance;
+};
+
+/**
+ * The image should be square so it fits the card frame without distortion
+ */
+export function checkSquare(width: number, height: number, thresholds: QualityGateThresholds): QualityCheckResult {
+  const deviation = Math.abs(width - height) / Math.max(1, width, height);
+  return {
+    check: 'square',
+    passed: deviation <= thresholds.maxAspectDeviation,
+    value: deviation,
+    threshold: thresholds.maxAspectDeviation,
+    message: `Aspect deviation ${(deviation * 100).toFixed(1)}% (${width}x${height})`,
+  };
+}
+
+/**
+ * The border band should be plain white or transparent, i.e. the background was removed
+ */
+export function checkBackground(
+  buffer: PixelBuffer,
+  thresholds: QualityGateThresholds,
+  backgroundColor?: RGB
+): QualityCheckResult {
+  const band = Math.max(1, Math.round(Math.min(buffer.width, buffer.height) * thresholds.borderWidthRatio));
+  let plain = 0;
+  let total = 0;
+
+  for (let y = 0; y < buffer.height; y++) {
+    for (let x = 0; x < buffer.width; x++) {
+      const onBorder = x < band || y < band || x >= buffer.width - band || y >= buffer.height - band;
+      if (!onBorder) continue;
+      total++;
+      if (isPlainBackground(buffer.data, (y * buffer.width + x) * 4, thresholds.backgroundTolerance, backgroundColor)) {
+        plain++;
+      }
+    }
+  }
+
+  const ratio = total > 0 ? plain / total : 0;
+  return {
+    check: 'background',
+    passed: ratio >= thresholds.minPlainBorderRatio,
+    value: ratio,
+    threshold: thresholds.minPlainBorderRatio,
+    message: `${(ratio * 100).toFixed(1)}% of the border is plain background or transparent`,
+  };
+}
+
+/**
+ * Counts distinct colours at 4 bits per channel, ignoring transparent pixels
+ */
+export function countColors(buffer: PixelBuffer): number {
+  const seen = new Set<number>();
+  for (let i = 0; i < buffer.data.length; i += 4) {
+    if (buffer.data[i + 3] < 16) continue;
+    seen.add(((buffer.data[i] >> 4) << 8) | ((buffer.data[i + 1] >> 4) << 4) | (buffer.data[i + 2] >> 4));
+  }
+  return seen.size;
+}
+
+/**
+ * The snapped grid should fit a pixel-art colour budget rather than look like a photo
+ */
+export function checkColorCount(grid: PixelBuffer, thresholds: QualityGateThresholds): QualityCheckResult {
+  const colors = countColors(grid);
+  return {
+    check: 'colorCount',
+    passed: colors <= thresholds.maxColors,
+    value: colors,
+    threshold: thresholds.maxColors,
+    message: `${colors} distinct colours in the snapped grid`,
+  };
+}
+
+/**
+ * Enough of the grid should differ from the background to contain a portrait
+ */
+export function checkNotBlank(
+  grid: PixelBuffer,
+  thresholds: QualityGateThresholds,
+  backgroundColor?: RGB
+): QualityCheckResult {
+  let foreground = 0;
+  const cells = grid.width * grid.height;
+  for (let i = 0; i < grid.data.length; i += 4) {
+    if (!isPlainBackground(grid.data, i, thresholds.backgroundTolerance, backgroundColor)) {
+      foreground++;
+    }
+  }
+
+  const ratio = cells > 0 ? foreground / cells : 0;
+  return {
+    check: 'notBlank',
+    passed: ratio >= thresholds.minForegroundRatio,
+    value: ratio,
+    threshold: thresholds.minForegroundRatio,
+    message: `${(ratio * 100).toFixed(1)}% of the image is foreground`,
+  };
+}
+
+/**
+ * Runs every check and combines them into a report
+ */
+export function evaluateQuality(
+  input: QualityGateInput,
+  thresholds: QualityGateThresholds = DEFAULT_QUALITY_GATE_THRESHOLDS
+): QualityReport {
+  const checks = [
+    checkSquare(input.originalWidth, input.originalHeight, thresholds),
+    checkBackground(input.source, thresholds, input.backgroundColor),
+    checkColorCount(input.grid, thresholds),
+    checkNotBlank(input.grid, thresholds, input.backgroundColor),
+  ];
+
+  return {
+    passed: checks.every(check => check.passed),
+    checks,
+  };
+}
+
+/**
+ * Logs every check result of a report
+ */
+export function logQualityReport(report: QualityReport, context: string): void {
+  for (const result of report.checks) {
+    const line = `[quality-gate] ${context} ${result.check}: ${result.passed ? 'pass' : 'FAIL'} - ${result.message} (threshold ${result.threshold})`;
+    if (result.passed) {
+      console.info(line);
+    } else {
+      console.warn(line);
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Cancellation, timeout and retry helpers for async operations
+ */
+
+import { GenerationCancelledError, GenerationTimeoutError, isImageGenerationError } from './generationErrors';
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Throws a GenerationCancelledError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new GenerationCancelledError(signal.reason);
+  }
+}
+
+/**
+ * Waits for the given time, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationCancelledError(signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an operation with a signal that aborts on timeout or when the parent signal aborts
+ * Timeouts surface as GenerationTimeoutError, parent aborts as GenerationCancelledError.
+ */
+export async function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parentSignal?: AbortSignal
+): Promise<T> {
+  throwIfAborted(parentSignal);
+
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onParentAbort = () => controller.abort(parentSignal?.reason);
+  parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new GenerationTimeoutError(timeoutMs));
+  }, timeoutMs);
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      // Reject as soon as we abort, even if the operation ignores its signal
+      controller.signal.addEventListener('abort', () => {
+        reject(timedOut ? new GenerationTimeoutError(timeoutMs) : new GenerationCancelledError(parentSignal?.reason));
+      }, { once: true });
+      operation(controller.signal).then(resolve, reject);
+    });
+  } catch (error) {
+    if (isImageGenerationError(error)) throw error;
+    if (timedOut) throw new GenerationTimeoutError(timeoutMs, error);
+    if (parentSignal?.aborted) throw new GenerationCancelledError(error);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    parentSignal?.removeEventListener('abort', onParentAbort);
+  }
+}
+
+/**
+ * Retries an operation with exponential backoff and jitter
+ * By default only retryable ImageGenerationErrors are retried.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const shouldRetry = options.shouldRetry ?? ((error: unknown) => isImageGenerationError(error) && error.retryable);
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(options.signal);
+
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.maxRetries || options.signal?.aborted || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+
+      const exponentialDelay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      const delayMs = Math.round(exponentialDelay / 2 + Math.random() * exponentialDelay / 2);
+      options.onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Art-style presets for pixel generation
+ * Each preset carries the grid and palette constraints used by local
+ * processing; prompt text for AI backends lives in the prompt registry.
+ */
+
+export type StylePresetId = 'jrpg-16bit' | 'nes-8bit' | 'gameboy' | 'isometric-chibi' | 'monochrome';
+
+export interface StylePalette {
+  maxColors: number;
+  colors?: string[]; // Fixed palette as #rrggbb; when omitted the palette is derived from the image
+}
+
+export interface StylePreset {
+  id: StylePresetId;
+  label: string;
+  description: string;
+  resolution: number; // Target grid size in pixels (square)
+  palette: StylePalette;
+  backgroundColor?: string; // Background the prompt asks for when it isn't white, as #rrggbb
+}
+
+export const STYLE_PRESETS: Record<StylePresetId, StylePreset> = {
+  'jrpg-16bit': {
+    id: 'jrpg-16bit',
+    label: '16-bit JRPG',
+    description: 'Detailed 90s console RPG portrait',
+    resolution: 64,
+    palette: { maxColors: 32 },
+  },
+  'nes-8bit': {
+    id: 'nes-8bit',
+    label: '8-bit NES',
+    description: 'Chunky sprite with the NES colour set',
+    resolution: 32,
+    palette: {
+      maxColors: 16,
+      colors: [
+        '#000000', '#fcfcfc', '#bcbcbc', '#7c7c7c',
+        '#a80020', '#f83800', '#fca044', '#fcd8a8',
+        '#ac7c00', '#503000', '#00b800', '#005800',
+        '#0058f8', '#3cbcfc', '#6844fc', '#d800cc',
+      ],
+    },
+  },
+  gameboy: {
+    id: 'gameboy',
+    label: 'GameBoy',
+    description: 'Four shades of green',
+    resolution: 48,
+    palette: {
+      maxColors: 4,
+      colors: ['#0f380f', '#306230', '#8bac0f', '#9bbc0f'],
+    },
+    backgroundColor: '#9bbc0f',
+  },
+  'isometric-chibi': {
+    id: 'isometric-chibi',
+    label: 'Isometric Chibi',
+    description: 'Cute big-head character at a 3/4 angle',
+    resolution: 64,
+    palette: { maxColors: 24 },
+  },
+  monochrome: {
+    id: 'monochrome',
+    label: 'Monochrome',
+    description: 'Black and white 1-bit portrait',
+    resolution: 64,
+    palette: {
+      maxColors: 2,
+      colors: ['#000000', '#ffffff'],
+    },
+  },
+};
+
+export const DEFAULT_STYLE_PRESET_ID: StylePresetId = 'jrpg-16bit';
+
+/**
+ * Type guard for checking if a value is a known style preset id
+ */
+export function isStylePresetId(value: unknown): value is StylePresetId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(STYLE_PRESETS, value);
+}
+
+/**
+ * Returns the preset for an id, falling back to the default preset for unknown ids
+ */
+export function getStylePreset(id?: string | null): StylePreset {
+  return isStylePresetId(id) ? STYLE_PRESETS[id] : STYLE_PRESETS[DEFAULT_STYLE_PRESET_ID];
+}
+
+/**
+ * All presets in display order
+ */
+export function listStylePresets(): StylePreset[] {
+  return Object.values(STYLE_PRESETS);
+}
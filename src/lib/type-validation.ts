@@ -28,7 +28,27 @@ export function validatePixelCardRow(row: any): row is PixelCardRow {
     typeof row.updated_at === 'string' &&
     typeof row.file_size === 'number' &&
     typeof row.mime_type === 'string' &&
-    (row.mime_type === 'image/png' || row.mime_type === 'image/jpeg')
+    (row.mime_type === 'image/png' || row.mime_type === 'image/jpeg') &&
+    typeof row.style_preset === 'string' &&
+    (row.palette === null || Array.isArray(row.palette)) &&
+    (row.grid_size === null || typeof row.grid_size === 'number') &&
+    typeof row.backdrop_id === 'string' &&
+    typeof row.is_mirrored === 'boolean' &&
+    typeof row.template_id === 'string' &&
+    (row.verification_token === null || typeof row.verification_token === 'string') &&
+    (row.revoked_at === null || typeof row.revoked_at === 'string') &&
+    (row.job_title === null || typeof row.job_title === 'string') &&
+    (row.team === null || typeof row.team === 'string') &&
+    (row.organization === null || typeof row.organization === 'string') &&
+    (row.badge_number === null || typeof row.badge_number === 'string') &&
+    (row.issue_date === null || typeof row.issue_date === 'string') &&
+    (row.expiry_date === null || typeof row.expiry_date === 'string') &&
+    (row.provider === null || typeof row.provider === 'string') &&
+    (row.model_id === null || typeof row.model_id === 'string') &&
+    (row.prompt_version === null || typeof row.prompt_version === 'string') &&
+    (row.generation_latency_ms === null || typeof row.generation_latency_ms === 'number') &&
+    (row.retry_count === null || typeof row.retry_count === 'number') &&
+    (row.post_processed === null || typeof row.post_processed === 'boolean')
   );
 }
 
@@ -77,6 +97,26 @@ export function transformRowToPixelCard(row: PixelCardRow): PixelCard {
     updatedAt: new Date(row.updated_at),
     fileSize: row.file_size,
     mimeType: row.mime_type as MimeType,
+    stylePreset: row.style_preset,
+    palette: row.palette,
+    gridSize: row.grid_size,
+    backdropId: row.backdrop_id,
+    isMirrored: row.is_mirrored,
+    templateId: row.template_id,
+    verificationToken: row.verification_token,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+    jobTitle: row.job_title,
+    team: row.team,
+    organization: row.organization,
+    badgeNumber: row.badge_number,
+    issueDate: row.issue_date,
+    expiryDate: row.expiry_date,
+    provider: row.provider,
+    modelId: row.model_id,
+    promptVersion: row.prompt_version,
+    generationLatencyMs: row.generation_latency_ms,
+    retryCount: row.retry_count,
+    postProcessed: row.post_processed,
   };
 }
 
@@ -90,6 +130,13 @@ export function transformPixelCardToResponse(pixelCard: PixelCard): PixelCardRes
     imageUrl: pixelCard.imageUrl,
     createdAt: pixelCard.createdAt.toISOString(),
     fileSize: pixelCard.fileSize,
+    stylePreset: pixelCard.stylePreset,
+    jobTitle: pixelCard.jobTitle,
+    team: pixelCard.team,
+    organization: pixelCard.organization,
+    badgeNumber: pixelCard.badgeNumber,
+    issueDate: pixelCard.issueDate,
+    expiryDate: pixelCard.expiryDate,
   };
 }
 
@@ -107,6 +154,13 @@ export function transformRowToResponse(row: PixelCardRow): PixelCardResponse {
     imageUrl: row.image_url,
     createdAt: row.created_at,
     fileSize: row.file_size,
+    stylePreset: row.style_preset,
+    jobTitle: row.job_title,
+    team: row.team,
+    organization: row.organization,
+    badgeNumber: row.badge_number,
+    issueDate: row.issue_date,
+    expiryDate: row.expiry_date,
   };
 }
 
@@ -130,6 +184,24 @@ export function createInsertFromRequest(
     image_url: imageUrl,
     file_size: fileSize,
     mime_type: mimeType,
+    ...(request.stylePreset && { style_preset: request.stylePreset }),
+    palette: request.palette ?? null,
+    grid_size: request.gridSize ?? null,
+    ...(request.backdropId && { backdrop_id: request.backdropId }),
+    is_mirrored: request.isMirrored ?? false,
+    ...(request.templateId && { template_id: request.templateId }),
+    job_title: request.jobTitle?.trim() || null,
+    team: request.team?.trim() || null,
+    organization: request.organization?.trim() || null,
+    badge_number: request.badgeNumber?.trim() || null,
+    issue_date: request.issueDate?.trim() || null,
+    expiry_date: request.expiryDate?.trim() || null,
+    provider: request.provider ?? null,
+    model_id: request.modelId ?? null,
+    prompt_version: request.promptVersion ?? null,
+    generation_latency_ms: request.generationLatencyMs ?? null,
+    retry_count: request.retryCount ?? null,
+    post_processed: request.postProcessed ?? null,
   };
 }
 
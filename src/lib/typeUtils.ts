@@ -50,6 +50,14 @@ export const ERROR_CODES = {
   STORAGE_ERROR: 'STORAGE_ERROR',
   DATABASE_ERROR: 'DATABASE_ERROR',
   NETWORK_ERROR: 'NETWORK_ERROR',
+  QUOTA_EXCEEDED: 'QUOTA_EXCEEDED',
+  SAFETY_BLOCKED: 'SAFETY_BLOCKED',
+  NO_IMAGE_RETURNED: 'NO_IMAGE_RETURNED',
+  TIMEOUT: 'TIMEOUT',
+  CANCELLED: 'CANCELLED',
+  BUDGET_EXCEEDED: 'BUDGET_EXCEEDED',
+  RATE_LIMITED: 'RATE_LIMITED',
+  SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
 } as const;
 
@@ -3,6 +3,10 @@
  * Implements validation schemas as specified in requirements 4.3 and 5.1
  */
 
+import { isStylePresetId, STYLE_PRESETS } from './stylePresets';
+import { isBackdropId, BACKDROPS } from './backdrops';
+import { isCardTemplateId, CARD_TEMPLATES } from './cardTemplates';
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -19,6 +23,15 @@ export const VALIDATION_LIMITS = {
   IMAGE_MAX_SIZE_BYTES: 10 * 1024 * 1024, // 10MB
   ALLOWED_MIME_TYPES: ['image/png', 'image/jpeg'] as const,
   BASE64_IMAGE_PREFIX_PATTERN: /^data:image\/(png|jpeg);base64,/,
+  PALETTE_MAX_COLORS: 256,
+  PALETTE_COLOR_PATTERN: /^#[0-9a-f]{6}$/i,
+  GRID_SIZE_MIN: 8,
+  GRID_SIZE_MAX: 256,
+  PROVENANCE_TEXT_MAX_LENGTH: 100,
+  CARD_DETAIL_MAX_LENGTH: 60,
+  BADGE_NUMBER_MAX_LENGTH: 20,
+  BADGE_NUMBER_PATTERN: /^[A-Za-z0-9-]+$/,
+  CARD_DATE_PATTERN: /^\d{4}-\d{2}-\d{2}$/,
 } as const;
 
 /**
@@ -157,6 +170,214 @@ export const validateFileSize: ValidationRule<number> = {
   }
 };
 
+/**
+ * Validates a style preset id against the preset registry
+ */
+export const validateStylePreset: ValidationRule<string> = {
+  validate: (stylePreset: string): ValidationResult => {
+    const errors: string[] = [];
+
+    if (!isStylePresetId(stylePreset)) {
+      errors.push(`Invalid style preset. Allowed presets: ${Object.keys(STYLE_PRESETS).join(', ')}`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+};
+
+/**
+ * Validates a backdrop id against the backdrop registry
+ */
+export const validateBackdropId: ValidationRule<string> = {
+  validate: (backdropId: string): ValidationResult => {
+    const errors: string[] = [];
+
+    if (!isBackdropId(backdropId)) {
+      errors.push(`Invalid backdrop. Allowed backdrops: ${Object.keys(BACKDROPS).join(', ')}`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+};
+
+/**
+ * Validates a card template id against the template registry
+ */
+export const validateCardTemplateId: ValidationRule<string> = {
+  validate: (templateId: string): ValidationResult => {
+    const errors: string[] = [];
+
+    if (!isCardTemplateId(templateId)) {
+      errors.push(`Invalid card template. Allowed templates: ${Object.keys(CARD_TEMPLATES).join(', ')}`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+};
+
+/**
+ * Validates a recorded palette
+ * - Must be an array of at most 256 #rrggbb colours
+ */
+export const validatePalette: ValidationRule<string[]> = {
+  validate: (palette: string[]): ValidationResult => {
+    const errors: string[] = [];
+
+    if (!Array.isArray(palette)) {
+      errors.push('Palette must be a list of colours');
+      return { isValid: false, errors };
+    }
+
+    if (palette.length > VALIDATION_LIMITS.PALETTE_MAX_COLORS) {
+      errors.push(`Palette cannot exceed ${VALIDATION_LIMITS.PALETTE_MAX_COLORS} colours`);
+    }
+
+    if (palette.some(color => typeof color !== 'string' || !VALIDATION_LIMITS.PALETTE_COLOR_PATTERN.test(color))) {
+      errors.push('Palette colours must be hex values like #1a2b3c');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+};
+
+/**
+ * Validates the pixel grid size of an image
+ */
+export const validateGridSize: ValidationRule<number> = {
+  validate: (gridSize: number): ValidationResult => {
+    const errors: string[] = [];
+
+    if (!Number.isInteger(gridSize) || gridSize < VALIDATION_LIMITS.GRID_SIZE_MIN || gridSize > VALIDATION_LIMITS.GRID_SIZE_MAX) {
+      errors.push(`Grid size must be a whole number between ${VALIDATION_LIMITS.GRID_SIZE_MIN} and ${VALIDATION_LIMITS.GRID_SIZE_MAX}`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+};
+
+/**
+ * Validates generation provenance metadata
+ * - Text fields are limited to 100 characters
+ * - Latency and retry count must be non-negative whole numbers
+ */
+export const validateProvenance: ValidationRule<{
+  provider?: unknown;
+  modelId?: unknown;
+  promptVersion?: unknown;
+  generationLatencyMs?: unknown;
+  retryCount?: unknown;
+  postProcessed?: unknown;
+}> = {
+  validate: (provenance): ValidationResult => {
+    const errors: string[] = [];
+
+    const textFields = { provider: provenance.provider, modelId: provenance.modelId, promptVersion: provenance.promptVersion };
+    for (const [field, value] of Object.entries(textFields)) {
+      if (value !== undefined && (typeof value !== 'string' || value.length > VALIDATION_LIMITS.PROVENANCE_TEXT_MAX_LENGTH)) {
+        errors.push(`${field} must be text of at most ${VALIDATION_LIMITS.PROVENANCE_TEXT_MAX_LENGTH} characters`);
+      }
+    }
+
+    const countFields = { generationLatencyMs: provenance.generationLatencyMs, retryCount: provenance.retryCount };
+    for (const [field, value] of Object.entries(countFields)) {
+      if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0)) {
+        errors.push(`${field} must be a non-negative whole number`);
+      }
+    }
+
+    if (provenance.postProcessed !== undefined && typeof provenance.postProcessed !== 'boolean') {
+      errors.push('postProcessed must be true or false');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+};
+
+/**
+ * Whether text is a real calendar date in YYYY-MM-DD form
+ */
+export const isCardDate = (value: string): boolean => {
+  if (!VALIDATION_LIMITS.CARD_DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+/**
+ * Validates the optional badge details printed on a card
+ * - Title, team and organisation are limited to 60 characters
+ * - Badge numbers are up to 20 letters, digits and hyphens
+ * - Dates are YYYY-MM-DD and the expiry date cannot precede the issue date
+ */
+export const validateCardDetails: ValidationRule<{
+  jobTitle?: unknown;
+  team?: unknown;
+  organization?: unknown;
+  badgeNumber?: unknown;
+  issueDate?: unknown;
+  expiryDate?: unknown;
+}> = {
+  validate: (details): ValidationResult => {
+    const errors: string[] = [];
+
+    const textFields = { jobTitle: details.jobTitle, team: details.team, organization: details.organization };
+    for (const [field, value] of Object.entries(textFields)) {
+      if (value !== undefined && (typeof value !== 'string' || value.trim().length > VALIDATION_LIMITS.CARD_DETAIL_MAX_LENGTH)) {
+        errors.push(`${field} must be text of at most ${VALIDATION_LIMITS.CARD_DETAIL_MAX_LENGTH} characters`);
+      }
+    }
+
+    if (details.badgeNumber !== undefined) {
+      const badgeNumber = typeof details.badgeNumber === 'string' ? details.badgeNumber.trim() : null;
+      if (
+        badgeNumber === null ||
+        badgeNumber.length > VALIDATION_LIMITS.BADGE_NUMBER_MAX_LENGTH ||
+        (badgeNumber.length > 0 && !VALIDATION_LIMITS.BADGE_NUMBER_PATTERN.test(badgeNumber))
+      ) {
+        errors.push(`Badge number must be up to ${VALIDATION_LIMITS.BADGE_NUMBER_MAX_LENGTH} letters, digits and hyphens`);
+      }
+    }
+
+    const dateFields = { issueDate: details.issueDate, expiryDate: details.expiryDate };
+    for (const [field, value] of Object.entries(dateFields)) {
+      if (value !== undefined && value !== '' && (typeof value !== 'string' || !isCardDate(value))) {
+        errors.push(`${field} must be a date like 2026-01-31`);
+      }
+    }
+
+    // YYYY-MM-DD strings compare in date order
+    if (
+      typeof details.issueDate === 'string' && isCardDate(details.issueDate) &&
+      typeof details.expiryDate === 'string' && isCardDate(details.expiryDate) &&
+      details.expiryDate < details.issueDate
+    ) {
+      errors.push('Expiry date cannot be before the issue date');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+};
+
 /**
  * Validates a complete CreatePixelCardRequest
  */
@@ -182,6 +403,61 @@ export const validateCreatePixelCardRequest = (request: any): ValidationResult =
     errors.push(...imageDataValidation.errors);
   }
 
+  // Validate style preset (optional)
+  if (request.stylePreset !== undefined) {
+    const stylePresetValidation = validateStylePreset.validate(request.stylePreset);
+    if (!stylePresetValidation.isValid) {
+      errors.push(...stylePresetValidation.errors);
+    }
+  }
+
+  // Validate backdrop (optional)
+  if (request.backdropId !== undefined) {
+    const backdropValidation = validateBackdropId.validate(request.backdropId);
+    if (!backdropValidation.isValid) {
+      errors.push(...backdropValidation.errors);
+    }
+  }
+
+  if (request.isMirrored !== undefined && typeof request.isMirrored !== 'boolean') {
+    errors.push('isMirrored must be true or false');
+  }
+
+  // Validate card template (optional)
+  if (request.templateId !== undefined) {
+    const templateValidation = validateCardTemplateId.validate(request.templateId);
+    if (!templateValidation.isValid) {
+      errors.push(...templateValidation.errors);
+    }
+  }
+
+  // Validate post-processing metadata (optional)
+  if (request.palette !== undefined) {
+    const paletteValidation = validatePalette.validate(request.palette);
+    if (!paletteValidation.isValid) {
+      errors.push(...paletteValidation.errors);
+    }
+  }
+
+  if (request.gridSize !== undefined) {
+    const gridSizeValidation = validateGridSize.validate(request.gridSize);
+    if (!gridSizeValidation.isValid) {
+      errors.push(...gridSizeValidation.errors);
+    }
+  }
+
+  // Validate badge details (optional)
+  const cardDetailsValidation = validateCardDetails.validate(request);
+  if (!cardDetailsValidation.isValid) {
+    errors.push(...cardDetailsValidation.errors);
+  }
+
+  // Validate generation provenance (optional)
+  const provenanceValidation = validateProvenance.validate(request);
+  if (!provenanceValidation.isValid) {
+    errors.push(...provenanceValidation.errors);
+  }
+
   return {
     isValid: errors.length === 0,
     errors
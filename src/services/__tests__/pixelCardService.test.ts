@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PixelCardService } from '../pixelCardService';
+
+interface StoredCard {
+  organization: string | null;
+  badge_number: string | null;
+}
+
+// In-memory stand-in for the tables and bucket the service touches
+const db = vi.hoisted(() => ({
+  cards: [] as StoredCard[],
+  uploads: [] as string[],
+  lookups: 0,
+  insertError: null as { code: string; message: string } | null,
+}));
+
+vi.mock('../../lib/supabase', () => {
+  // select(..., { head: true }).eq(...).is(...) resolves to a row count
+  const lookup = () => {
+    const filters: Record<string, unknown> = {};
+    const builder = {
+      eq: (column: string, value: unknown) => {
+        filters[column] = value;
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters[column] = value;
+        return builder;
+      },
+      then: (resolve: (result: { count: number; error: null }) => void) => {
+        db.lookups++;
+        const count = db.cards.filter(card =>
+          card.badge_number === filters.badge_number && card.organization === filters.organization
+        ).length;
+        resolve({ count, error: null });
+      },
+    };
+    return builder;
+  };
+
+  const insert = (row: StoredCard & Record<string, unknown>) => ({
+    select: () => ({
+      single: async () => {
+        if (db.insertError) {
+          return { data: null, error: db.insertError };
+        }
+        db.cards.push(row);
+        const now = new Date().toISOString();
+        return { data: { ...row, id: crypto.randomUUID(), created_at: now, updated_at: now }, error: null };
+      },
+    }),
+  });
+
+  return {
+    supabase: {
+      from: () => ({ select: lookup, insert }),
+      storage: {
+        from: () => ({
+          upload: async (path: string) => {
+            db.uploads.push(path);
+            return { data: { path }, error: null };
+          },
+          getPublicUrl: (path: string) => ({ data: { publicUrl: `https://storage.example/${path}` } }),
+        }),
+      },
+    },
+  };
+});
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+const save = (details: { organization?: string; badgeNumber?: string } = {}) =>
+  new PixelCardService().savePixelCard({ userName: 'Ada Lovelace', imageData: IMAGE, ...details });
+
+describe('PixelCardService.savePixelCard badge numbers', () => {
+  beforeEach(() => {
+    db.cards = [{ organization: 'Acme', badge_number: '42' }, { organization: null, badge_number: '7' }];
+    db.uploads = [];
+    db.lookups = 0;
+    db.insertError = null;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('rejects a badge number taken in the same organisation before uploading', async () => {
+    await expect(save({ organization: ' Acme ', badgeNumber: '42' }))
+      .rejects.toThrow('Badge number 42 is already used in this organisation');
+    await expect(save({ badgeNumber: '7' })).rejects.toThrow('Badge number 7 is already used');
+
+    expect(db.uploads).toEqual([]);
+    expect(db.cards).toHaveLength(2);
+  });
+
+  it('allows the same number in another organisation', async () => {
+    const saved = await save({ organization: 'Globex', badgeNumber: '42' });
+
+    expect(saved.badgeNumber).toBe('42');
+    expect(saved.organization).toBe('Globex');
+    expect(db.uploads).toHaveLength(1);
+    expect((await save({ badgeNumber: '42' })).organization).toBeNull();
+  });
+
+  it('leaves numbering to the database without a lookup when no number is given', async () => {
+    const saved = await save({ organization: 'Acme', badgeNumber: '  ' });
+
+    expect(saved.badgeNumber).toBeNull();
+    expect(db.lookups).toBe(0);
+  });
+
+  it('reports a number taken between the lookup and the insert the same way', async () => {
+    db.insertError = {
+      code: '23505',
+      message: 'duplicate key value violates unique constraint "pixel_cards_organization_badge_number_idx"',
+    };
+
+    await expect(save({ organization: 'Acme', badgeNumber: '43' }))
+      .rejects.toThrow('Badge number 43 is already used in this organisation');
+  });
+
+  it('passes other insert failures through', async () => {
+    db.insertError = { code: '23514', message: 'new row violates check constraint "pixel_cards_expiry_after_issue"' };
+
+    await expect(save({ organization: 'Acme', badgeNumber: '43' })).rejects.toThrow(/^Database insert failed: /);
+  });
+});
@@ -0,0 +1,29 @@
+import { dataUrlToPixelBuffer, pixelBufferToDataUrl } from '../lib/imageCanvas';
+import { compositeOver, getBackdrop } from '../lib/backdrops';
+import type { BackdropId } from '../lib/backdrops';
+
+/**
+ * Composites transparent portraits onto pixel-art backdrops in the browser
+ * The backdrop is rendered at the portrait's own resolution so both share
+ * the same pixel grid.
+ */
+export class BackdropCompositor {
+  async compose(portraitDataUrl: string, backdropId: BackdropId): Promise<string> {
+    const backdrop = getBackdrop(backdropId);
+    if (backdrop.kind === 'none') {
+      return portraitDataUrl;
+    }
+
+    try {
+      const portrait = await dataUrlToPixelBuffer(portraitDataUrl);
+      const background = backdrop.render(portrait.width, portrait.height);
+      return pixelBufferToDataUrl(compositeOver(background, portrait));
+    } catch (error) {
+      console.error('Failed to composite backdrop:', error);
+      throw new Error('Failed to apply the backdrop');
+    }
+  }
+}
+
+// Export singleton instance
+export const backdropCompositor = new BackdropCompositor();
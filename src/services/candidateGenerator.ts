@@ -0,0 +1,224 @@
+import { validateImageData } from '../lib/validation';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { throwIfAborted } from '../lib/retry';
+import { GenerationBudgetExceededError, isImageGenerationError } from '../lib/generationErrors';
+import { ERROR_CODES } from '../lib/typeUtils';
+import { hexToRgb } from '../lib/pixelArt';
+import { evaluateQuality, logQualityReport, DEFAULT_QUALITY_GATE_THRESHOLDS } from '../lib/qualityGate';
+import type { QualityGateThresholds, QualityReport } from '../lib/qualityGate';
+import { assignPromptVersion } from '../lib/promptRegistry';
+import type { PromptVersion } from '../lib/promptRegistry';
+import type { StylePreset } from '../lib/stylePresets';
+import { pixelPostProcessor } from './pixelPostProcessor';
+import type { PixelArtResult } from './pixelPostProcessor';
+import type { ImageStylizer } from './imageStylizer';
+
+export interface CandidateGenerationConfig {
+  candidateCount: number; // Variants requested per capture
+  concurrency: number; // Stylizer calls in flight at once
+  sessionBudget: number; // Maximum stylizer calls per page session (cost limit)
+  maxQualityRetries: number; // Extra attempts per candidate when the quality gate fails
+  qualityThresholds: QualityGateThresholds;
+}
+
+export interface GenerationProvenance {
+  provider: string; // Stylizer backend id
+  modelId: string;
+  promptVersion: string | null; // Null for backends that don't use prompts
+  latencyMs: number; // Wall-clock time to produce this candidate, retries included
+  retryCount: number; // Transport retries plus quality-gate retries
+  postProcessed: boolean; // Whether grid snapping and palette quantization ran
+}
+
+export interface GeneratedCandidate {
+  id: string;
+  generationId: string; // Shared by every candidate of one capture
+  imageData: string; // Post-processed image, or the raw result if post-processing failed
+  pixelArt: PixelArtResult | null;
+  qualityReport: QualityReport | null; // Null when the image could not be analysed
+  attempts: number;
+  provenance: GenerationProvenance;
+}
+
+export interface CandidateGenerationOptions {
+  stylizer: ImageStylizer;
+  preset: StylePreset;
+  signal?: AbortSignal;
+  onCandidate?: (candidate: GeneratedCandidate) => void;
+}
+
+const readInt = (value: unknown, fallback: number, min: number = 1): number => {
+  const parsed = Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+};
+
+// The pixelate endpoint sizes its default per-IP rate limit from candidateCount
+// and maxQualityRetries (see defaultPixelateRateLimit), reading the same env vars
+export const DEFAULT_CANDIDATE_GENERATION_CONFIG: CandidateGenerationConfig = {
+  candidateCount: readInt(import.meta.env.VITE_CANDIDATE_COUNT, 3),
+  concurrency: readInt(import.meta.env.VITE_CANDIDATE_CONCURRENCY, 2),
+  sessionBudget: readInt(import.meta.env.VITE_GENERATION_BUDGET, 12),
+  maxQualityRetries: readInt(import.meta.env.VITE_QUALITY_RETRIES, 2, 0),
+  qualityThresholds: DEFAULT_QUALITY_GATE_THRESHOLDS,
+};
+
+/**
+ * Generates several pixel-art variants of one capture so the user can pick the best
+ */
+export class CandidateGenerator {
+  private used = 0;
+
+  constructor(private readonly config: CandidateGenerationConfig = DEFAULT_CANDIDATE_GENERATION_CONFIG) {}
+
+  /**
+   * Stylizer calls left in this session's budget
+   */
+  get remainingBudget(): number {
+    return Math.max(0, this.config.sessionBudget - this.used);
+  }
+
+  /**
+   * Number of candidates the next generation would request with the given stylizer
+   */
+  plannedCount(stylizer: ImageStylizer): number {
+    const wanted = stylizer.deterministic ? 1 : this.config.candidateCount;
+    return Math.min(wanted, this.remainingBudget);
+  }
+
+  /**
+   * Generate candidates in parallel, within the concurrency and budget limits
+   * Failed variants are dropped; if every variant fails the first error is thrown.
+   */
+  async generate(imageDataUrl: string, options: CandidateGenerationOptions): Promise<GeneratedCandidate[]> {
+    throwIfAborted(options.signal);
+
+    const count = this.plannedCount(options.stylizer);
+    if (count === 0) {
+      throw new GenerationBudgetExceededError(this.config.sessionBudget);
+    }
+    this.used += count;
+    const generationId = crypto.randomUUID();
+
+    const results = await mapWithConcurrency(
+      Array.from({ length: count }, (_, index) => index),
+      this.config.concurrency,
+      async () => {
+        const candidate = await this.generateOne(imageDataUrl, generationId, options);
+        options.onCandidate?.(candidate);
+        return candidate;
+      }
+    );
+
+    const candidates = results
+      .filter((result): result is PromiseFulfilledResult<GeneratedCandidate> => result.status === 'fulfilled')
+      .map(result => result.value);
+
+    const failures = results
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .map(result => result.reason);
+
+    // Cancellation wins over partial results
+    throwIfAborted(options.signal);
+    const cancelled = failures.find(reason => isImageGenerationError(reason) && reason.code === ERROR_CODES.CANCELLED);
+    if (cancelled) {
+      throw cancelled;
+    }
+
+    if (candidates.length === 0) {
+      throw failures[0];
+    }
+
+    if (failures.length > 0) {
+      console.warn(`${failures.length} of ${count} candidates failed:`, failures);
+    }
+
+    // Show variants that passed the quality gate first
+    return candidates.sort((a, b) => Number(b.qualityReport?.passed ?? false) - Number(a.qualityReport?.passed ?? false));
+  }
+
+  /**
+   * Generate one candidate, retrying while it fails the quality gate
+   * Retries draw on the session budget; once retries or budget run out the
+   * last attempt is returned with its failing report.
+   */
+  private async generateOne(
+    imageDataUrl: string,
+    generationId: string,
+    options: CandidateGenerationOptions
+  ): Promise<GeneratedCandidate> {
+    const id = crypto.randomUUID();
+    const startedAt = performance.now();
+    let transportRetries = 0;
+    const onRetry = () => { transportRetries++; };
+    // A/B assignment happens per candidate so one capture can compare prompt versions
+    const promptVersion = options.stylizer.usesPrompt ? assignPromptVersion(options.preset.id) : null;
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.attempt(imageDataUrl, options, id, attempt, promptVersion, onRetry);
+      const canRetry = !options.stylizer.deterministic
+        && attempt <= this.config.maxQualityRetries
+        && this.remainingBudget > 0;
+
+      if (!result.qualityReport || result.qualityReport.passed || !canRetry) {
+        return {
+          ...result,
+          generationId,
+          provenance: {
+            provider: options.stylizer.id,
+            modelId: options.stylizer.modelId,
+            promptVersion: promptVersion?.version ?? null,
+            latencyMs: Math.round(performance.now() - startedAt),
+            retryCount: transportRetries + attempt - 1,
+            postProcessed: result.pixelArt !== null,
+          },
+        };
+      }
+
+      throwIfAborted(options.signal);
+      this.used++;
+    }
+  }
+
+  private async attempt(
+    imageDataUrl: string,
+    { stylizer, preset, signal }: CandidateGenerationOptions,
+    id: string,
+    attempt: number,
+    promptVersion: PromptVersion | null,
+    onRetry: () => void
+  ): Promise<Omit<GeneratedCandidate, 'generationId' | 'provenance'>> {
+    const stylizedImage = await stylizer.stylize(imageDataUrl, { preset, promptVersion: promptVersion?.version, signal, onRetry });
+
+    // Snap to a true pixel grid and bounded palette; keep the raw result if that fails
+    let pixelArt: PixelArtResult | null = null;
+    let qualityReport: QualityReport | null = null;
+    try {
+      const analysis = await pixelPostProcessor.analyze(stylizedImage, preset);
+      qualityReport = evaluateQuality(
+        { ...analysis, backgroundColor: preset.backgroundColor ? hexToRgb(preset.backgroundColor) : undefined },
+        this.config.qualityThresholds
+      );
+      logQualityReport(qualityReport, `candidate ${id.slice(0, 8)} attempt ${attempt}`);
+      pixelArt = pixelPostProcessor.quantize(analysis, preset);
+    } catch (postProcessErr) {
+      console.warn('Pixel post-processing failed, using the unprocessed image:', postProcessErr);
+    }
+    const imageData = pixelArt?.imageData ?? stylizedImage;
+
+    const validation = validateImageData.validate(imageData);
+    if (!validation.isValid) {
+      throw new Error('Generated image failed validation. Please try again.');
+    }
+
+    return {
+      id,
+      imageData,
+      pixelArt,
+      qualityReport,
+      attempts: attempt,
+    };
+  }
+}
+
+// Export singleton instance so the budget spans the whole page session
+export const candidateGenerator = new CandidateGenerator();
@@ -0,0 +1,127 @@
+import { createCanvas, loadImage } from '../lib/imageCanvas';
+import { createCanvasMeasurer, drawCardScene, layoutCard, layoutCardBack } from '../lib/cardRenderer';
+import type { CardContent, CardScene } from '../lib/cardRenderer';
+import type { CardTemplate } from '../lib/cardTemplates';
+import { imposeCards } from '../lib/printLayout';
+import type { PrintOptions, PrintRect, PrintSize } from '../lib/printLayout';
+import { buildPdf, POINTS_PER_MM } from '../lib/pdfWriter';
+import type { PdfJpeg, PdfPage } from '../lib/pdfWriter';
+
+export interface PrintableCard {
+  template: CardTemplate;
+  content: CardContent;
+}
+
+// Card art is rasterised at this resolution, including the bleed
+const PRINT_DPI = 300;
+const JPEG_QUALITY = 0.92;
+
+/**
+ * Builds print-ready PDFs of cards entirely in the browser
+ * Each card is rendered from its template without the on-screen glow, sized
+ * to the print slot plus bleed, and placed on sheets by ../lib/printLayout.
+ */
+export class CardPrintService {
+  async exportPdf(cards: PrintableCard[], options: PrintOptions, title: string = 'Pixel ID cards'): Promise<Blob> {
+    if (cards.length === 0) {
+      throw new Error('Select at least one card to print');
+    }
+
+    const sheets = imposeCards(cards.length, options);
+    const measure = createCanvasMeasurer();
+    const slotSize = options.cardSize;
+    await document.fonts?.ready;
+
+    try {
+      // Render each card once, front and back, before placing it on the sheets
+      const fronts: PdfJpeg[] = [];
+      const backs = new Map<string, PdfJpeg>(); // Backs only depend on the template
+      for (const card of cards) {
+        const portrait = await loadImage(card.content.imageSrc);
+        const scene = layoutCard(card.template, card.content, measure, { glow: false });
+        fronts.push(await this.rasterize(scene, card.template, slotSize, options.bleed, new Map([[card.content.imageSrc, portrait]])));
+
+        if (options.backs && !backs.has(card.template.id)) {
+          const backScene = layoutCardBack(card.template, measure, { glow: false });
+          backs.set(card.template.id, await this.rasterize(backScene, card.template, slotSize, options.bleed, new Map()));
+        }
+      }
+
+      const pages: PdfPage[] = sheets.map(sheet => {
+        const toPdf = (rect: PrintRect) => ({
+          x: rect.x * POINTS_PER_MM,
+          y: (sheet.height - rect.y - rect.height) * POINTS_PER_MM,
+          width: rect.width * POINTS_PER_MM,
+          height: rect.height * POINTS_PER_MM,
+        });
+        const singleCard = options.sheet === 'card' ? sheet.slots[0] : undefined;
+
+        return {
+          width: sheet.width * POINTS_PER_MM,
+          height: sheet.height * POINTS_PER_MM,
+          trimBox: singleCard && toPdf(singleCard.trim),
+          bleedBox: singleCard && toPdf(singleCard.bleed),
+          images: sheet.slots.map(slot => ({
+            ...toPdf(slot.bleed),
+            image: sheet.side === 'front'
+              ? fronts[slot.cardIndex]
+              : backs.get(cards[slot.cardIndex].template.id)!,
+          })),
+          lines: sheet.marks.map(mark => ({
+            x1: mark.x1 * POINTS_PER_MM,
+            y1: (sheet.height - mark.y1) * POINTS_PER_MM,
+            x2: mark.x2 * POINTS_PER_MM,
+            y2: (sheet.height - mark.y2) * POINTS_PER_MM,
+          })),
+        };
+      });
+
+      return new Blob([buildPdf(pages, { title, creator: 'Pixel ID Card Generator' })], { type: 'application/pdf' });
+    } catch (error) {
+      console.error('Failed to build print PDF:', error);
+      throw new Error('Failed to create the print PDF');
+    }
+  }
+
+  /**
+   * Draw a card scene into a slot-sized JPEG
+   * The card is fitted inside the trim box, turned a quarter if its orientation
+   * differs from the slot's, and the bleed is filled with the frame colour so
+   * a slightly off cut never shows paper white.
+   */
+  private async rasterize(
+    scene: CardScene,
+    template: CardTemplate,
+    trim: PrintSize,
+    bleed: number,
+    images: Map<string, HTMLImageElement>
+  ): Promise<PdfJpeg> {
+    const pxPerMm = PRINT_DPI / 25.4;
+    const width = Math.round((trim.width + 2 * bleed) * pxPerMm);
+    const height = Math.round((trim.height + 2 * bleed) * pxPerMm);
+    const { canvas, context } = createCanvas(width, height);
+
+    context.fillStyle = template.colors.frame;
+    context.fillRect(0, 0, width, height);
+
+    const rotate = (scene.width > scene.height) !== (trim.width > trim.height);
+    const cardWidth = rotate ? scene.height : scene.width;
+    const cardHeight = rotate ? scene.width : scene.height;
+    const scale = Math.min((trim.width * pxPerMm) / cardWidth, (trim.height * pxPerMm) / cardHeight);
+
+    context.translate(width / 2, height / 2);
+    if (rotate) context.rotate(Math.PI / 2);
+    context.translate((-scene.width * scale) / 2, (-scene.height * scale) / 2);
+    drawCardScene(context, scene, images, scale);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) {
+      throw new Error('Failed to encode card image');
+    }
+
+    return { width, height, data: new Uint8Array(await blob.arrayBuffer()) };
+  }
+}
+
+// Export singleton instance
+export const cardPrintService = new CardPrintService();
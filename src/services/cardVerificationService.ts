@@ -0,0 +1,70 @@
+import { CARD_IMAGE_HASH_BYTES, toBase64Url } from '../lib/cardToken';
+import { SIGN_CARD_ENDPOINT, VERIFY_CARD_ENDPOINT } from '../lib/cardTokenApi';
+import type {
+  SignCardRequestBody,
+  SignCardResponseBody,
+  VerifyCardRequestBody,
+  VerifyCardResponseBody,
+} from '../lib/cardTokenApi';
+import type { ErrorResponse } from '../types/supabase';
+
+/**
+ * Talks to the card signing endpoints, which hold the signing key
+ * Everything except the signature check itself runs in the browser: the
+ * verify page compares the token with the card it reads from Supabase.
+ */
+export class CardVerificationService {
+  /**
+   * Have the server sign a saved card; the token is also stored on the card
+   */
+  async signCard(cardId: string): Promise<SignCardResponseBody> {
+    const body: SignCardRequestBody = { cardId };
+    return this.post<SignCardResponseBody>(SIGN_CARD_ENDPOINT, body);
+  }
+
+  /**
+   * Whether a token's signature was made with the server's key
+   */
+  async verifySignature(token: string): Promise<boolean> {
+    const body: VerifyCardRequestBody = { token };
+    const result = await this.post<VerifyCardResponseBody>(VERIFY_CARD_ENDPOINT, body);
+    return result.signatureValid;
+  }
+
+  /**
+   * Truncated SHA-256 of the stored image file, matching the hash in tokens
+   */
+  async hashImage(imageUrl: string): Promise<string> {
+    const response = await fetch(imageUrl, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch card image: ${response.status}`);
+    }
+
+    const digest = await crypto.subtle.digest('SHA-256', await response.arrayBuffer());
+    return toBase64Url(new Uint8Array(digest, 0, CARD_IMAGE_HASH_BYTES));
+  }
+
+  private async post<T>(endpoint: string, body: unknown): Promise<T> {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      let message = `Request to ${endpoint} failed (${response.status})`;
+      try {
+        message = (await response.json() as ErrorResponse).error?.message ?? message;
+      } catch {
+        // Platform errors (e.g. an HTML 502 page) carry no JSON body
+      }
+      console.error('Card verification request failed:', message);
+      throw new Error(message);
+    }
+
+    return await response.json() as T;
+  }
+}
+
+// Export singleton instance
+export const cardVerificationService = new CardVerificationService();
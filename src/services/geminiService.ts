@@ -1,37 +1,177 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { getStylePreset } from '../lib/stylePresets';
+import { withRetry, withTimeout } from '../lib/retry';
+import {
+    ImageGenerationError,
+    QuotaExceededError,
+    SafetyBlockedError,
+    NoImageReturnedError,
+    GenerationNetworkError,
+    RateLimitedError,
+    isImageGenerationError,
+} from '../lib/generationErrors';
+import { ERROR_CODES } from '../lib/typeUtils';
+import { DEFAULT_PIXELATE_ENDPOINT, GEMINI_MODEL } from '../lib/pixelateApi';
+import type { PixelateRequestBody, PixelateResponseBody } from '../lib/pixelateApi';
+import type { ErrorResponse } from '../types/supabase';
+import type { ImageStylizer, StylizeOptions } from './imageStylizer';
 
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY as string });
+export interface GeminiRequestOptions {
+    timeoutMs: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
 
-export const pixelateImageWithBackgroundRemoval = async (base64Image: string): Promise<string> => {
-    try {
-        const imagePart = {
-            inlineData: {
-                mimeType: 'image/png',
-                data: base64Image.split(',')[1], // Remove the "data:image/png;base64," prefix
-            },
-        };
-
-        const textPart = {
-            text: "Your task is to convert a user's photo into a consistent 16-bit pixel art character portrait. Create a head-and-shoulders portrait, with the person looking forward as much as possible, even if the original photo is at an angle. Remove the background and replace it with solid white. The art style should be consistent for all images: detailed 16-bit pixel art, like a character portrait from a classic 90s Japanese RPG. Ensure clear outlines and a limited but intentional color palette. The final image must only be the pixelated character on the plain white background.",
-        };
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [imagePart, textPart] },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        });
-
-        const firstPart = response.candidates?.[0]?.content?.parts?.[0];
-        if (firstPart && 'inlineData' in firstPart) {
-             return `data:image/png;base64,${firstPart.inlineData.data}`;
-        } else {
-            throw new Error("No image was returned from the API.");
+export const DEFAULT_GEMINI_REQUEST_OPTIONS: GeminiRequestOptions = {
+    timeoutMs: 60_000,
+    maxRetries: 2,
+    baseDelayMs: 1_000,
+    maxDelayMs: 8_000,
+};
+
+/**
+ * Calls the server-side pixelate endpoint, which holds the Gemini API key
+ */
+export class GeminiImageStylizer implements ImageStylizer {
+    readonly id = 'gemini' as const;
+    readonly label = 'Google Gemini';
+    readonly modelId = GEMINI_MODEL;
+    readonly deterministic = false;
+    readonly usesPrompt = true;
+    private serviceUnavailable = false; // The endpoint reported it isn't configured
+
+    constructor(
+        private readonly endpoint: string = import.meta.env.VITE_PIXELATE_ENDPOINT ?? DEFAULT_PIXELATE_ENDPOINT,
+        private readonly requestOptions: GeminiRequestOptions = DEFAULT_GEMINI_REQUEST_OPTIONS
+    ) {}
+
+    /**
+     * False once the endpoint has reported it isn't configured, for the rest of the session
+     */
+    isAvailable(): boolean {
+        return this.endpoint.length > 0 && !this.serviceUnavailable;
+    }
+
+    /**
+     * Generate a pixel portrait, retrying transient and quota failures with backoff
+     * Each attempt is bounded by the timeout; aborting the signal cancels immediately.
+     */
+    async stylize(base64Image: string, { preset, promptVersion, signal, timeoutMs, onRetry }: StylizeOptions): Promise<string> {
+        const attemptTimeoutMs = timeoutMs ?? this.requestOptions.timeoutMs;
+        const body: PixelateRequestBody = { image: base64Image, presetId: preset.id, promptVersion };
+
+        try {
+            return await withRetry(
+                () => withTimeout(
+                    attemptSignal => this.request(body, attemptSignal),
+                    attemptTimeoutMs,
+                    signal
+                ),
+                {
+                    ...this.requestOptions,
+                    signal,
+                    onRetry: (error, attempt, delayMs) => {
+                        console.warn(`Gemini attempt ${attempt} failed, retrying in ${delayMs}ms:`, error);
+                        onRetry?.(attempt, error);
+                    },
+                }
+            );
+        } catch (error) {
+            console.error("Error processing image with Gemini:", error);
+            throw error;
         }
-    } catch (error) {
-        console.error("Error processing image with Gemini:", error);
-        throw new Error("Failed to pixelate image.");
     }
+
+    private async request(body: PixelateRequestBody, signal: AbortSignal): Promise<string> {
+        let response: Response;
+        try {
+            response = await fetch(this.endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+                signal,
+            });
+        } catch (error) {
+            throw toGenerationError(error);
+        }
+
+        if (!response.ok) {
+            const error = await toResponseError(response);
+            if (error.code === ERROR_CODES.SERVICE_UNAVAILABLE) {
+                this.serviceUnavailable = true;
+            }
+            throw error;
+        }
+
+        const result = await response.json() as PixelateResponseBody;
+        if (!result.image) {
+            throw new NoImageReturnedError();
+        }
+        return result.image;
+    }
+}
+
+/**
+ * Rebuild the typed error the endpoint reported from its status and error code
+ */
+const toResponseError = async (response: Response): Promise<ImageGenerationError> => {
+    let errorBody: ErrorResponse | null = null;
+    try {
+        errorBody = await response.json() as ErrorResponse;
+    } catch {
+        // Platform errors (e.g. an HTML 502 page) carry no JSON body
+    }
+
+    const message = errorBody?.error?.message;
+    switch (errorBody?.error?.code) {
+        case ERROR_CODES.RATE_LIMITED:
+            return new RateLimitedError(Number.parseInt(response.headers.get('Retry-After') ?? '', 10) || 60);
+        case ERROR_CODES.QUOTA_EXCEEDED:
+            return new QuotaExceededError(message);
+        case ERROR_CODES.SAFETY_BLOCKED:
+            return new SafetyBlockedError(message);
+        case ERROR_CODES.NO_IMAGE_RETURNED:
+            return new NoImageReturnedError(message);
+        case ERROR_CODES.TIMEOUT:
+            return new ImageGenerationError(message ?? 'The image service timed out.', ERROR_CODES.TIMEOUT, true);
+        case ERROR_CODES.SERVICE_UNAVAILABLE:
+            // Missing server configuration won't fix itself, so this is not retried
+            return new ImageGenerationError(message ?? 'The image service is not configured.', ERROR_CODES.SERVICE_UNAVAILABLE);
+    }
+
+    if (response.status === 413) {
+        return new ImageGenerationError(message ?? 'The photo is too large to pixelate.', ERROR_CODES.VALIDATION_ERROR);
+    }
+    if (response.status === 408 || response.status >= 500) {
+        return new GenerationNetworkError(message ?? `The image service is temporarily unavailable (${response.status}).`);
+    }
+    return new ImageGenerationError(message ?? `Pixelate request failed (${response.status}).`);
+};
+
+/**
+ * Map transport errors onto typed generation errors
+ * Aborts are passed through untouched so the timeout wrapper can classify them.
+ */
+const toGenerationError = (error: unknown): unknown => {
+    if (isImageGenerationError(error)) {
+        return error;
+    }
+
+    if (error instanceof Error && error.name === 'AbortError') {
+        return error;
+    }
+
+    if (error instanceof TypeError) {
+        // fetch() rejects with a TypeError on connection failures
+        return new GenerationNetworkError(undefined, error);
+    }
+
+    return new ImageGenerationError(error instanceof Error ? error.message : "Failed to pixelate image.", undefined, false, error);
 };
 
+// Export singleton instance
+export const geminiImageStylizer = new GeminiImageStylizer();
+
+export const pixelateImageWithBackgroundRemoval = (base64Image: string, presetId?: string, signal?: AbortSignal): Promise<string> => {
+    return geminiImageStylizer.stylize(base64Image, { preset: getStylePreset(presetId), signal });
+};
@@ -0,0 +1,75 @@
+import { supabase } from '../lib/supabase';
+import type {
+  GenerationEvent,
+  PromptVersionStats,
+  PromptVersionStatsRow
+} from '../types/supabase';
+
+export class GenerationEventService {
+  /**
+   * Record funnel events for prompt A/B comparisons
+   * Failures are logged and swallowed so analytics never block card creation.
+   */
+  async recordEvents(events: GenerationEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('generation_events')
+        .insert(events.map(event => ({
+          generation_id: event.generationId,
+          candidate_id: event.candidateId,
+          event_type: event.eventType,
+          prompt_version: event.promptVersion,
+          provider: event.provider ?? null
+        })));
+
+      if (error) {
+        throw new Error(`Failed to record generation events: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('Error recording generation events:', error);
+    }
+  }
+
+  /**
+   * Aggregated funnel counts per prompt version
+   */
+  async getPromptVersionStats(): Promise<PromptVersionStats[]> {
+    try {
+      const { data, error } = await supabase
+        .from('prompt_version_stats')
+        .select('*')
+        .order('prompt_version', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch prompt statistics: ${error.message}`);
+      }
+
+      return (data || []).map(row => this.transformStatsRow(row));
+    } catch (error) {
+      console.error('Error in getPromptVersionStats:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Transform view row to PromptVersionStats
+   */
+  private transformStatsRow(row: PromptVersionStatsRow): PromptVersionStats {
+    return {
+      promptVersion: row.prompt_version,
+      generationCount: Number(row.generation_count),
+      generatedCount: Number(row.generated_count),
+      selectedCount: Number(row.selected_count),
+      retakenCount: Number(row.retaken_count),
+      firstSeenAt: new Date(row.first_seen_at),
+      lastSeenAt: new Date(row.last_seen_at)
+    };
+  }
+}
+
+// Export singleton instance
+export const generationEventService = new GenerationEventService();
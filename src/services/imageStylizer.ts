@@ -0,0 +1,94 @@
+import { geminiImageStylizer } from './geminiService';
+import { localPixelatorStylizer } from './localPixelatorService';
+import { isImageGenerationError } from '../lib/generationErrors';
+import { ERROR_CODES } from '../lib/typeUtils';
+import type { StylePreset } from '../lib/stylePresets';
+
+export type ImageStylizerId = 'gemini' | 'local';
+
+export interface StylizeOptions {
+  preset: StylePreset;
+  promptVersion?: string; // Prompt version id for AI backends, defaults to the preset's control prompt
+  signal?: AbortSignal; // Aborting cancels the request and rejects with GenerationCancelledError
+  timeoutMs?: number; // Per-attempt time limit, overrides the backend default
+  onRetry?: (attempt: number, error: unknown) => void; // Called before the backend retries a failed request
+}
+
+/**
+ * A backend that turns a captured photo into a pixel-art portrait
+ */
+export interface ImageStylizer {
+  readonly id: ImageStylizerId;
+  readonly label: string;
+  readonly modelId: string; // Recorded on saved cards to trace how they were made
+
+  /**
+   * Whether the same input always yields the same output, making extra candidates pointless
+   */
+  readonly deterministic: boolean;
+
+  /**
+   * Whether output depends on prompt text, i.e. prompt versions can be compared
+   */
+  readonly usesPrompt: boolean;
+
+  /**
+   * Whether the backend can run in the current environment (e.g. endpoint configured)
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Stylize a base64 data URL in the given preset and return the result as a PNG data URL
+   */
+  stylize(base64Image: string, options: StylizeOptions): Promise<string>;
+}
+
+const STYLIZERS: Record<ImageStylizerId, ImageStylizer> = {
+  gemini: geminiImageStylizer,
+  local: localPixelatorStylizer,
+};
+
+const isImageStylizerId = (value: unknown): value is ImageStylizerId => {
+  return value === 'gemini' || value === 'local';
+};
+
+/**
+ * Resolve the stylizer to use
+ * VITE_IMAGE_STYLIZER selects a backend explicitly; when unset (or 'auto'),
+ * Gemini is used until the pixelate endpoint reports it isn't configured and
+ * the local pixelator after that.
+ */
+export const getImageStylizer = (
+  preference: string | undefined = import.meta.env.VITE_IMAGE_STYLIZER
+): ImageStylizer => {
+  if (isImageStylizerId(preference)) {
+    return STYLIZERS[preference];
+  }
+
+  return geminiImageStylizer.isAvailable() ? geminiImageStylizer : localPixelatorStylizer;
+};
+
+/**
+ * The stylizer to retry with after a failure, or null to report the failure
+ * Only the automatic choice falls back: when Gemini can't be reached or isn't
+ * configured, the capture is pixelated locally instead.
+ */
+export const getFallbackImageStylizer = (
+  stylizer: ImageStylizer,
+  error: unknown,
+  preference: string | undefined = import.meta.env.VITE_IMAGE_STYLIZER
+): ImageStylizer | null => {
+  if (isImageStylizerId(preference) || stylizer.id !== 'gemini' || !isImageGenerationError(error)) {
+    return null;
+  }
+
+  const unreachable = error.code === ERROR_CODES.NETWORK_ERROR || error.code === ERROR_CODES.SERVICE_UNAVAILABLE;
+  return unreachable ? localPixelatorStylizer : null;
+};
+
+/**
+ * List every registered stylizer, e.g. for diagnostics or a settings screen
+ */
+export const getAvailableImageStylizers = (): ImageStylizer[] => {
+  return Object.values(STYLIZERS).filter(stylizer => stylizer.isAvailable());
+};
@@ -0,0 +1,71 @@
+import { loadImage, imageToSquarePixelBuffer, pixelBufferToDataUrl } from '../lib/imageCanvas';
+import { throwIfAborted } from '../lib/retry';
+import { ImageGenerationError, isImageGenerationError } from '../lib/generationErrors';
+import { downsample, buildPalette, applyPalette, addOutline, upscaleNearest, hexToRgb } from '../lib/pixelArt';
+import type { ImageStylizer, StylizeOptions } from './imageStylizer';
+
+export interface LocalPixelatorOptions {
+  outline: boolean;
+  outputSize: number;
+}
+
+export const DEFAULT_LOCAL_PIXELATOR_OPTIONS: LocalPixelatorOptions = {
+  outline: true,
+  outputSize: 512,
+};
+
+/**
+ * Offline, deterministic stylizer that pixelates on a canvas
+ * Used when Gemini is not configured or explicitly disabled.
+ */
+export class LocalPixelatorStylizer implements ImageStylizer {
+  readonly id = 'local' as const;
+  readonly label = 'Local pixelator';
+  readonly modelId = 'local-pixelator-v1';
+  readonly deterministic = true;
+  readonly usesPrompt = false;
+
+  constructor(private readonly options: LocalPixelatorOptions = DEFAULT_LOCAL_PIXELATOR_OPTIONS) {}
+
+  isAvailable(): boolean {
+    return typeof document !== 'undefined';
+  }
+
+  async stylize(base64Image: string, { preset, signal }: StylizeOptions): Promise<string> {
+    try {
+      throwIfAborted(signal);
+      const gridSize = preset.resolution;
+      const image = await loadImage(base64Image);
+      throwIfAborted(signal);
+
+      // Work from the centre square so the grid cells stay square
+      const size = Math.min(image.naturalWidth, image.naturalHeight);
+      if (size === 0) {
+        throw new Error('Image has no pixels');
+      }
+      const source = imageToSquarePixelBuffer(image, Math.min(size, gridSize * 8));
+
+      const grid = downsample(source, gridSize, gridSize);
+      const palette = preset.palette.colors
+        ? preset.palette.colors.map(hexToRgb)
+        : buildPalette(grid, preset.palette.maxColors);
+      let pixelated = applyPalette(grid, palette);
+
+      if (this.options.outline) {
+        pixelated = addOutline(pixelated);
+      }
+
+      const scale = Math.max(1, Math.floor(this.options.outputSize / gridSize));
+      return pixelBufferToDataUrl(upscaleNearest(pixelated, scale));
+    } catch (error) {
+      if (isImageGenerationError(error)) {
+        throw error;
+      }
+      console.error('Error pixelating image locally:', error);
+      throw new ImageGenerationError('Failed to pixelate image.', undefined, false, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const localPixelatorStylizer = new LocalPixelatorStylizer();
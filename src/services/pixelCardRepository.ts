@@ -3,6 +3,7 @@ import type {
   PixelCard, 
   PixelCardResponse, 
   GalleryResponse,
+  GalleryQueryParams,
   PaginationParams,
   PixelCardRow,
   MimeType 
@@ -13,9 +14,9 @@ export class PixelCardRepository {
   private static readonly MAX_PAGE_SIZE = 50;
 
   /**
-   * Retrieve all pixel cards with pagination support
+   * Retrieve all pixel cards with pagination support, optionally filtered by style preset
    */
-  async getAllPixelCards(params: PaginationParams = {}): Promise<GalleryResponse> {
+  async getAllPixelCards(params: GalleryQueryParams = {}): Promise<GalleryResponse> {
     try {
       const page = Math.max(1, params.page || 1);
       const limit = Math.min(
@@ -26,10 +27,16 @@ export class PixelCardRepository {
       const offset = (page - 1) * limit;
 
       // Get total count for pagination metadata
-      const { count, error: countError } = await supabase
+      let countQuery = supabase
         .from('pixel_cards')
         .select('*', { count: 'exact', head: true });
 
+      if (params.stylePreset) {
+        countQuery = countQuery.eq('style_preset', params.stylePreset);
+      }
+
+      const { count, error: countError } = await countQuery;
+
       if (countError) {
         throw new Error(`Failed to get total count: ${countError.message}`);
       }
@@ -51,9 +58,15 @@ export class PixelCardRepository {
       }
 
       // Fetch paginated results ordered by creation date (newest first)
-      const { data, error } = await supabase
+      let dataQuery = supabase
         .from('pixel_cards')
-        .select('*')
+        .select('*');
+
+      if (params.stylePreset) {
+        dataQuery = dataQuery.eq('style_preset', params.stylePreset);
+      }
+
+      const { data, error } = await dataQuery
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
 
@@ -114,6 +127,39 @@ export class PixelCardRepository {
     }
   }
 
+  /**
+   * Retrieve several pixel cards at once, in the order of the given ids
+   * Ids that don't exist are skipped.
+   */
+  async getPixelCardsByIds(ids: string[]): Promise<PixelCard[]> {
+    try {
+      if (ids.length === 0) {
+        return [];
+      }
+      if (ids.length > PixelCardRepository.MAX_PAGE_SIZE) {
+        throw new Error(`Cannot fetch more than ${PixelCardRepository.MAX_PAGE_SIZE} pixel cards at once`);
+      }
+      if (!ids.every(id => this.isValidUUID(id))) {
+        throw new Error('Invalid pixel card ID format');
+      }
+
+      const { data, error } = await supabase
+        .from('pixel_cards')
+        .select('*')
+        .in('id', ids);
+
+      if (error) {
+        throw new Error(`Failed to fetch pixel cards: ${error.message}`);
+      }
+
+      const cardsById = new Map((data || []).map(row => [row.id, this.transformRowToPixelCard(row)]));
+      return ids.flatMap(id => cardsById.get(id) ?? []);
+    } catch (error) {
+      console.error('Failed to get pixel cards by IDs:', error);
+      throw error instanceof Error ? error : new Error('Failed to fetch pixel cards');
+    }
+  }
+
   /**
    * Get pixel cards by user name
    */
@@ -254,7 +300,27 @@ export class PixelCardRepository {
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
       fileSize: row.file_size,
-      mimeType: row.mime_type as MimeType
+      mimeType: row.mime_type as MimeType,
+      stylePreset: row.style_preset,
+      palette: row.palette,
+      gridSize: row.grid_size,
+      backdropId: row.backdrop_id,
+      isMirrored: row.is_mirrored,
+      templateId: row.template_id,
+      verificationToken: row.verification_token,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+      jobTitle: row.job_title,
+      team: row.team,
+      organization: row.organization,
+      badgeNumber: row.badge_number,
+      issueDate: row.issue_date,
+      expiryDate: row.expiry_date,
+      provider: row.provider,
+      modelId: row.model_id,
+      promptVersion: row.prompt_version,
+      generationLatencyMs: row.generation_latency_ms,
+      retryCount: row.retry_count,
+      postProcessed: row.post_processed
     };
   }
 
@@ -267,7 +333,14 @@ export class PixelCardRepository {
       userName: row.user_name,
       imageUrl: row.image_url,
       createdAt: row.created_at,
-      fileSize: row.file_size
+      fileSize: row.file_size,
+      stylePreset: row.style_preset,
+      jobTitle: row.job_title,
+      team: row.team,
+      organization: row.organization,
+      badgeNumber: row.badge_number,
+      issueDate: row.issue_date,
+      expiryDate: row.expiry_date
     };
   }
 
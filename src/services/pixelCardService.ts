@@ -4,6 +4,9 @@ import {
   extractMimeTypeFromDataUri,
   VALIDATION_LIMITS 
 } from '../lib/validation';
+import { DEFAULT_STYLE_PRESET_ID } from '../lib/stylePresets';
+import { DEFAULT_BACKDROP_ID } from '../lib/backdrops';
+import { DEFAULT_CARD_TEMPLATE_ID } from '../lib/cardTemplates';
 import type { 
   CreatePixelCardRequest, 
   PixelCard, 
@@ -14,6 +17,8 @@ import type {
 
 export class PixelCardService {
   private static readonly STORAGE_BUCKET = 'pixel-images';
+  private static readonly BADGE_NUMBER_INDEX = 'pixel_cards_organization_badge_number_idx';
+  private static readonly UNIQUE_VIOLATION = '23505'; // Postgres error code
 
   /**
    * Save a pixel card with image upload to Supabase Storage
@@ -26,6 +31,13 @@ export class PixelCardService {
       // Process image data
       const { imageBuffer, mimeType, fileSize } = this.processImageData(request.imageData);
 
+      // Check a typed-in badge number before uploading, so a taken one leaves no orphaned image
+      const organization = request.organization?.trim() || null;
+      const badgeNumber = request.badgeNumber?.trim() || null; // Null lets the database assign the next number
+      if (badgeNumber) {
+        await this.assertBadgeNumberAvailable(organization, badgeNumber);
+      }
+
       // Generate unique filename with date structure
       const filename = this.generateUniqueFilename(mimeType);
       const imagePath = this.generateImagePath(filename);
@@ -39,7 +51,25 @@ export class PixelCardService {
         image_path: imagePath,
         image_url: imageUrl,
         file_size: fileSize,
-        mime_type: mimeType
+        mime_type: mimeType,
+        style_preset: request.stylePreset ?? DEFAULT_STYLE_PRESET_ID,
+        palette: request.palette ?? null,
+        grid_size: request.gridSize ?? null,
+        backdrop_id: request.backdropId ?? DEFAULT_BACKDROP_ID,
+        is_mirrored: request.isMirrored ?? false,
+        template_id: request.templateId ?? DEFAULT_CARD_TEMPLATE_ID,
+        job_title: request.jobTitle?.trim() || null,
+        team: request.team?.trim() || null,
+        organization,
+        badge_number: badgeNumber,
+        issue_date: request.issueDate || null,
+        expiry_date: request.expiryDate || null,
+        provider: request.provider ?? null,
+        model_id: request.modelId ?? null,
+        prompt_version: request.promptVersion ?? null,
+        generation_latency_ms: request.generationLatencyMs ?? null,
+        retry_count: request.retryCount ?? null,
+        post_processed: request.postProcessed ?? null
       });
 
       return this.transformToResponse(pixelCard);
@@ -99,6 +129,29 @@ export class PixelCardService {
     }
   }
 
+  /**
+   * Reject a badge number another card of the same organisation already has
+   */
+  private async assertBadgeNumberAvailable(organization: string | null, badgeNumber: string): Promise<void> {
+    const query = supabase
+      .from('pixel_cards')
+      .select('id', { count: 'exact', head: true })
+      .eq('badge_number', badgeNumber);
+    const { count, error } = await (organization ? query.eq('organization', organization) : query.is('organization', null));
+
+    if (error) {
+      throw new Error(`Badge number lookup failed: ${error.message}`);
+    }
+
+    if (count) {
+      throw this.badgeNumberTakenError(badgeNumber);
+    }
+  }
+
+  private badgeNumberTakenError(badgeNumber: string): Error {
+    return new Error(`Badge number ${badgeNumber} is already used in this organisation. Choose another or leave it empty to get the next free number.`);
+  }
+
   /**
    * Generate unique filename with UUID and proper extension
    */
@@ -161,6 +214,10 @@ export class PixelCardService {
       .single();
 
     if (error) {
+      // Another card can still take the number between the lookup and this insert
+      if (error.code === PixelCardService.UNIQUE_VIOLATION && error.message.includes(PixelCardService.BADGE_NUMBER_INDEX)) {
+        throw this.badgeNumberTakenError(insertData.badge_number ?? '');
+      }
       throw new Error(`Database insert failed: ${error.message}`);
     }
 
@@ -177,7 +234,27 @@ export class PixelCardService {
       createdAt: new Date(data.created_at),
       updatedAt: new Date(data.updated_at),
       fileSize: data.file_size,
-      mimeType: data.mime_type as MimeType
+      mimeType: data.mime_type as MimeType,
+      stylePreset: data.style_preset,
+      palette: data.palette,
+      gridSize: data.grid_size,
+      backdropId: data.backdrop_id,
+      isMirrored: data.is_mirrored,
+      templateId: data.template_id,
+      verificationToken: data.verification_token,
+      revokedAt: data.revoked_at ? new Date(data.revoked_at) : null,
+      jobTitle: data.job_title,
+      team: data.team,
+      organization: data.organization,
+      badgeNumber: data.badge_number,
+      issueDate: data.issue_date,
+      expiryDate: data.expiry_date,
+      provider: data.provider,
+      modelId: data.model_id,
+      promptVersion: data.prompt_version,
+      generationLatencyMs: data.generation_latency_ms,
+      retryCount: data.retry_count,
+      postProcessed: data.post_processed
     };
   }
 
@@ -190,7 +267,14 @@ export class PixelCardService {
       userName: pixelCard.userName,
       imageUrl: pixelCard.imageUrl,
       createdAt: pixelCard.createdAt.toISOString(),
-      fileSize: pixelCard.fileSize
+      fileSize: pixelCard.fileSize,
+      stylePreset: pixelCard.stylePreset,
+      jobTitle: pixelCard.jobTitle,
+      team: pixelCard.team,
+      organization: pixelCard.organization,
+      badgeNumber: pixelCard.badgeNumber,
+      issueDate: pixelCard.issueDate,
+      expiryDate: pixelCard.expiryDate
     };
   }
 }
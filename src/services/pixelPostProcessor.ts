@@ -0,0 +1,98 @@
+import { loadImage, imageToSquarePixelBuffer, pixelBufferToDataUrl } from '../lib/imageCanvas';
+import { buildPalette, applyPalette, hexToRgb, rgbToHex } from '../lib/pixelArt';
+import type { PixelBuffer } from '../lib/pixelArt';
+import { detectPixelGrid, snapToGrid, resolveGridSize } from '../lib/pixelGrid';
+import { removeBackground } from '../lib/backgroundRemoval';
+import type { GridDetection } from '../lib/pixelGrid';
+import type { StylePreset } from '../lib/stylePresets';
+
+export interface PixelArtAnalysis {
+  originalWidth: number;
+  originalHeight: number;
+  source: PixelBuffer; // Centre square of the image, capped at MAX_ANALYSIS_SIZE
+  grid: PixelBuffer; // Snapped to the detected grid, before palette quantization
+  gridSize: number;
+  detection: GridDetection;
+}
+
+export interface PixelArtResult {
+  imageData: string; // Transparent PNG data URL at grid resolution (one image pixel per art pixel)
+  gridSize: number;
+  palette: string[]; // Colours used, as #rrggbb
+  detectedCellSize: number;
+  detectionConfidence: number;
+}
+
+/**
+ * Turns generated images into true low-resolution pixel art
+ * Detects the effective pixel size, snaps to that grid, cuts out the plain
+ * background and quantizes to the preset's palette so stored images are tiny,
+ * consistent and can be composited onto any colour.
+ */
+export class PixelPostProcessor {
+  private static readonly MAX_ANALYSIS_SIZE = 1024;
+
+  async process(imageDataUrl: string, preset: StylePreset): Promise<PixelArtResult> {
+    return this.quantize(await this.analyze(imageDataUrl, preset), preset);
+  }
+
+  /**
+   * Detect the pixel grid and snap the image to it
+   */
+  async analyze(imageDataUrl: string, preset: StylePreset): Promise<PixelArtAnalysis> {
+    const image = await loadImage(imageDataUrl);
+    const side = Math.min(image.naturalWidth, image.naturalHeight);
+    if (side === 0) {
+      throw new Error('Image has no pixels');
+    }
+
+    const source = imageToSquarePixelBuffer(image, Math.min(side, PixelPostProcessor.MAX_ANALYSIS_SIZE));
+    const detection = detectPixelGrid(source);
+    const gridSize = resolveGridSize(detection, preset.resolution);
+
+    return {
+      originalWidth: image.naturalWidth,
+      originalHeight: image.naturalHeight,
+      source,
+      grid: snapToGrid(source, gridSize, gridSize),
+      gridSize,
+      detection,
+    };
+  }
+
+  /**
+   * Make the background transparent, reduce the grid to the preset's palette and encode it
+   */
+  quantize(analysis: PixelArtAnalysis, preset: StylePreset): PixelArtResult {
+    const cutout = removeBackground(analysis.grid, {
+      backgroundColor: hexToRgb(preset.backgroundColor ?? '#ffffff'),
+    });
+    const palette = preset.palette.colors
+      ? preset.palette.colors.map(hexToRgb)
+      : buildPalette(cutout, preset.palette.maxColors);
+    const quantized = applyPalette(cutout, palette);
+
+    return {
+      imageData: pixelBufferToDataUrl(quantized),
+      gridSize: analysis.gridSize,
+      palette: this.collectUsedColours(quantized.data),
+      detectedCellSize: analysis.detection.cellSize,
+      detectionConfidence: analysis.detection.confidence,
+    };
+  }
+
+  /**
+   * List the distinct opaque colours actually present, in first-seen order
+   */
+  private collectUsedColours(data: Uint8ClampedArray): string[] {
+    const colours = new Set<string>();
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] === 0) continue;
+      colours.add(rgbToHex([data[i], data[i + 1], data[i + 2]]));
+    }
+    return [...colours];
+  }
+}
+
+// Export singleton instance
+export const pixelPostProcessor = new PixelPostProcessor();
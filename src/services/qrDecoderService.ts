@@ -0,0 +1,62 @@
+import QrDecoderWorker from '../workers/qrDecoder.worker?worker';
+import type { QrDecodeRequest, QrDecodeResponse } from '../workers/qrDecoder.worker';
+
+/**
+ * Runs QR decoding in a web worker so scanning never blocks the camera preview
+ * The worker starts on first use and is shut down with release().
+ */
+export class QrDecoderService {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (text: string | null) => void; reject: (error: Error) => void }>();
+
+  /**
+   * Decode the first QR code in a frame, or null if there is none
+   * A worker that crashed is replaced on the next call.
+   */
+  decode(frame: ImageData): Promise<string | null> {
+    const worker = this.getWorker();
+    const id = ++this.nextId;
+    const request: QrDecodeRequest = { id, width: frame.width, height: frame.height, data: frame.data.buffer as ArrayBuffer };
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage(request, [request.data]);
+    });
+  }
+
+  /**
+   * Stop the worker; pending decodes resolve with no result
+   */
+  release(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(({ resolve }) => resolve(null));
+    this.pending.clear();
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new QrDecoderWorker();
+    worker.onmessage = (event: MessageEvent<QrDecodeResponse>) => {
+      const { id, text } = event.data;
+      this.pending.get(id)?.resolve(text);
+      this.pending.delete(id);
+    };
+    worker.onerror = event => {
+      console.error('QR decoder worker failed:', event.message);
+      const error = new Error('The QR scanner stopped unexpectedly. Retrying...');
+      this.pending.forEach(({ reject }) => reject(error));
+      this.pending.clear();
+      this.worker?.terminate();
+      this.worker = null;
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+}
+
+// Export singleton instance
+export const qrDecoderService = new QrDecoderService();
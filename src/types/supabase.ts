@@ -19,6 +19,26 @@ export interface Database {
           updated_at: string
           file_size: number
           mime_type: string
+          style_preset: string
+          palette: string[] | null
+          grid_size: number | null
+          backdrop_id: string
+          is_mirrored: boolean
+          template_id: string
+          verification_token: string | null
+          revoked_at: string | null
+          job_title: string | null
+          team: string | null
+          organization: string | null
+          badge_number: string | null
+          issue_date: string | null
+          expiry_date: string | null
+          provider: string | null
+          model_id: string | null
+          prompt_version: string | null
+          generation_latency_ms: number | null
+          retry_count: number | null
+          post_processed: boolean | null
         }
         Insert: {
           id?: string
@@ -29,6 +49,26 @@ export interface Database {
           updated_at?: string
           file_size: number
           mime_type: string
+          style_preset?: string
+          palette?: string[] | null
+          grid_size?: number | null
+          backdrop_id?: string
+          is_mirrored?: boolean
+          template_id?: string
+          verification_token?: string | null
+          revoked_at?: string | null
+          job_title?: string | null
+          team?: string | null
+          organization?: string | null
+          badge_number?: string | null
+          issue_date?: string | null
+          expiry_date?: string | null
+          provider?: string | null
+          model_id?: string | null
+          prompt_version?: string | null
+          generation_latency_ms?: number | null
+          retry_count?: number | null
+          post_processed?: boolean | null
         }
         Update: {
           id?: string
@@ -39,12 +79,73 @@ export interface Database {
           updated_at?: string
           file_size?: number
           mime_type?: string
+          style_preset?: string
+          palette?: string[] | null
+          grid_size?: number | null
+          backdrop_id?: string
+          is_mirrored?: boolean
+          template_id?: string
+          verification_token?: string | null
+          revoked_at?: string | null
+          job_title?: string | null
+          team?: string | null
+          organization?: string | null
+          badge_number?: string | null
+          issue_date?: string | null
+          expiry_date?: string | null
+          provider?: string | null
+          model_id?: string | null
+          prompt_version?: string | null
+          generation_latency_ms?: number | null
+          retry_count?: number | null
+          post_processed?: boolean | null
+        }
+        Relationships: []
+      }
+      generation_events: {
+        Row: {
+          id: string
+          created_at: string
+          generation_id: string
+          candidate_id: string
+          event_type: string
+          prompt_version: string
+          provider: string | null
+        }
+        Insert: {
+          id?: string
+          created_at?: string
+          generation_id: string
+          candidate_id: string
+          event_type: string
+          prompt_version: string
+          provider?: string | null
+        }
+        Update: {
+          id?: string
+          created_at?: string
+          generation_id?: string
+          candidate_id?: string
+          event_type?: string
+          prompt_version?: string
+          provider?: string | null
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      prompt_version_stats: {
+        Row: {
+          prompt_version: string
+          generation_count: number
+          generated_count: number
+          selected_count: number
+          retaken_count: number
+          first_seen_at: string
+          last_seen_at: string
+        }
+        Relationships: []
+      }
     }
     Functions: {
       [_ in never]: never
@@ -68,11 +169,51 @@ export interface PixelCard {
   updatedAt: Date
   fileSize: number
   mimeType: string
+  stylePreset: string
+  palette: string[] | null // Colours of the snapped pixel art, null for legacy cards
+  gridSize: number | null // Art pixels per side, null for legacy cards
+  backdropId: string
+  isMirrored: boolean // Whether the photo was flipped horizontally before generation
+  templateId: string // Card layout the card is shown and exported with
+  verificationToken: string | null // Signed token encoded in the card's QR code, null until signed
+  revokedAt: Date | null // Set when the card is withdrawn; verification then fails
+  // Badge details, null when not given
+  jobTitle: string | null
+  team: string | null
+  organization: string | null
+  badgeNumber: string | null // Assigned per organisation on save when left blank
+  issueDate: string | null // YYYY-MM-DD
+  expiryDate: string | null // YYYY-MM-DD
+  // Generation provenance, null for legacy cards
+  provider: string | null
+  modelId: string | null
+  promptVersion: string | null
+  generationLatencyMs: number | null
+  retryCount: number | null
+  postProcessed: boolean | null
 }
 
 export interface CreatePixelCardRequest {
   userName: string
   imageData: string // Base64 encoded image
+  stylePreset?: string // Style preset id, defaults to the standard preset
+  palette?: string[] // Colours used by the image as #rrggbb
+  gridSize?: number // Art pixels per side of the image
+  backdropId?: string // Backdrop composited behind the portrait, defaults to none
+  isMirrored?: boolean // Capture was mirrored into the pixels, defaults to false
+  templateId?: string // Card template id, defaults to the classic card
+  jobTitle?: string
+  team?: string // Team or department
+  organization?: string // Scopes badge numbering
+  badgeNumber?: string // Letters, digits and hyphens; blank gets the organisation's next number
+  issueDate?: string // YYYY-MM-DD
+  expiryDate?: string // YYYY-MM-DD, not before issueDate
+  provider?: string // Stylizer backend that produced the image
+  modelId?: string
+  promptVersion?: string // Preset prompt revision, e.g. "jrpg-16bit@1"
+  generationLatencyMs?: number
+  retryCount?: number
+  postProcessed?: boolean
 }
 
 export interface PixelCardResponse {
@@ -81,6 +222,13 @@ export interface PixelCardResponse {
   imageUrl: string
   createdAt: string
   fileSize: number
+  stylePreset: string
+  jobTitle: string | null
+  team: string | null
+  organization: string | null
+  badgeNumber: string | null
+  issueDate: string | null
+  expiryDate: string | null
 }
 
 export interface GalleryResponse {
@@ -93,6 +241,26 @@ export interface GalleryResponse {
   }
 }
 
+export type GenerationEventType = 'generated' | 'selected' | 'retaken'
+
+export interface GenerationEvent {
+  generationId: string // One capture; all of its candidates share it
+  candidateId: string
+  eventType: GenerationEventType
+  promptVersion: string
+  provider?: string
+}
+
+export interface PromptVersionStats {
+  promptVersion: string
+  generationCount: number
+  generatedCount: number // Candidates shown
+  selectedCount: number
+  retakenCount: number
+  firstSeenAt: Date
+  lastSeenAt: Date
+}
+
 export interface ErrorResponse {
   error: {
     code: string
@@ -112,12 +280,36 @@ export interface PaginationParams {
   limit?: number;
 }
 
+export interface GalleryQueryParams extends PaginationParams {
+  stylePreset?: string;
+}
+
 export interface PixelCardInsert {
   user_name: string;
   image_path: string;
   image_url: string;
   file_size: number;
   mime_type: MimeType;
+  style_preset?: string;
+  palette?: string[] | null;
+  grid_size?: number | null;
+  backdrop_id?: string;
+  is_mirrored?: boolean;
+  template_id?: string;
+  verification_token?: string | null;
+  revoked_at?: string | null;
+  job_title?: string | null;
+  team?: string | null;
+  organization?: string | null;
+  badge_number?: string | null;
+  issue_date?: string | null;
+  expiry_date?: string | null;
+  provider?: string | null;
+  model_id?: string | null;
+  prompt_version?: string | null;
+  generation_latency_ms?: number | null;
+  retry_count?: number | null;
+  post_processed?: boolean | null;
 }
 
 export interface PixelCardUpdate {
@@ -126,6 +318,26 @@ export interface PixelCardUpdate {
   image_url?: string;
   file_size?: number;
   mime_type?: MimeType;
+  style_preset?: string;
+  palette?: string[] | null;
+  grid_size?: number | null;
+  backdrop_id?: string;
+  is_mirrored?: boolean;
+  template_id?: string;
+  verification_token?: string | null;
+  revoked_at?: string | null;
+  job_title?: string | null;
+  team?: string | null;
+  organization?: string | null;
+  badge_number?: string | null;
+  issue_date?: string | null;
+  expiry_date?: string | null;
+  provider?: string | null;
+  model_id?: string | null;
+  prompt_version?: string | null;
+  generation_latency_ms?: number | null;
+  retry_count?: number | null;
+  post_processed?: boolean | null;
   updated_at?: string;
 }
 
@@ -174,6 +386,8 @@ export const isMimeType = (value: string): value is MimeType => {
 export type PixelCardRow = Database['public']['Tables']['pixel_cards']['Row'];
 export type PixelCardInsertPayload = Database['public']['Tables']['pixel_cards']['Insert'];
 export type PixelCardUpdatePayload = Database['public']['Tables']['pixel_cards']['Update'];
+export type GenerationEventRow = Database['public']['Tables']['generation_events']['Row'];
+export type PromptVersionStatsRow = Database['public']['Views']['prompt_version_stats']['Row'];
 
 // Legacy transform functions - kept for backward compatibility
 // Note: Enhanced versions are available in ../lib/type-validation
@@ -187,6 +401,26 @@ export const transformRowToPixelCard = (row: PixelCardRow): PixelCard => {
     updatedAt: new Date(row.updated_at),
     fileSize: row.file_size,
     mimeType: row.mime_type,
+    stylePreset: row.style_preset,
+    palette: row.palette,
+    gridSize: row.grid_size,
+    backdropId: row.backdrop_id,
+    isMirrored: row.is_mirrored,
+    templateId: row.template_id,
+    verificationToken: row.verification_token,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+    jobTitle: row.job_title,
+    team: row.team,
+    organization: row.organization,
+    badgeNumber: row.badge_number,
+    issueDate: row.issue_date,
+    expiryDate: row.expiry_date,
+    provider: row.provider,
+    modelId: row.model_id,
+    promptVersion: row.prompt_version,
+    generationLatencyMs: row.generation_latency_ms,
+    retryCount: row.retry_count,
+    postProcessed: row.post_processed,
   };
 };
 
@@ -197,6 +431,13 @@ export const transformPixelCardToResponse = (pixelCard: PixelCard): PixelCardRes
     imageUrl: pixelCard.imageUrl,
     createdAt: pixelCard.createdAt.toISOString(),
     fileSize: pixelCard.fileSize,
+    stylePreset: pixelCard.stylePreset,
+    jobTitle: pixelCard.jobTitle,
+    team: pixelCard.team,
+    organization: pixelCard.organization,
+    badgeNumber: pixelCard.badgeNumber,
+    issueDate: pixelCard.issueDate,
+    expiryDate: pixelCard.expiryDate,
   };
 };
 
@@ -207,5 +448,12 @@ export const transformRowToResponse = (row: PixelCardRow): PixelCardResponse =>
     imageUrl: row.image_url,
     createdAt: row.created_at,
     fileSize: row.file_size,
+    stylePreset: row.style_preset,
+    jobTitle: row.job_title,
+    team: row.team,
+    organization: row.organization,
+    badgeNumber: row.badge_number,
+    issueDate: row.issue_date,
+    expiryDate: row.expiry_date,
   };
 };
\ No newline at end of file
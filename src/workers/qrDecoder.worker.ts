@@ -0,0 +1,33 @@
+/**
+ * Decodes QR codes from camera frames off the main thread
+ * Frames arrive as RGBA pixels with their buffer transferred; each request is
+ * answered with the decoded text, or null when no code was found.
+ */
+
+import jsQR from 'jsqr';
+
+export interface QrDecodeRequest {
+  id: number;
+  width: number;
+  height: number;
+  data: ArrayBuffer; // RGBA, row-major
+}
+
+export interface QrDecodeResponse {
+  id: number;
+  text: string | null;
+}
+
+self.onmessage = (event: MessageEvent<QrDecodeRequest>) => {
+  const { id, width, height, data } = event.data;
+  let text: string | null = null;
+  try {
+    // Card codes are dark on light, so skip the slower inverted pass
+    text = jsQR(new Uint8ClampedArray(data), width, height, { inversionAttempts: 'dontInvert' })?.data ?? null;
+  } catch (error) {
+    console.error('QR decode failed:', error);
+  }
+
+  const response: QrDecodeResponse = { id, text };
+  self.postMessage(response);
+};
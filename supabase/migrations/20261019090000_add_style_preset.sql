@@ -0,0 +1,7 @@
+-- Store the art-style preset each pixel card was generated with
+ALTER TABLE public.pixel_cards
+  ADD COLUMN IF NOT EXISTS style_preset text NOT NULL DEFAULT 'jrpg-16bit';
+
+-- Gallery filters by style preset and orders by creation date
+CREATE INDEX IF NOT EXISTS pixel_cards_style_preset_created_at_idx
+  ON public.pixel_cards (style_preset, created_at DESC);
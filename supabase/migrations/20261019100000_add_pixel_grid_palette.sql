@@ -0,0 +1,6 @@
+-- Record the snapped pixel grid and palette of post-processed images
+-- Legacy cards keep NULL for both columns
+ALTER TABLE public.pixel_cards
+  ADD COLUMN IF NOT EXISTS palette text[],
+  ADD COLUMN IF NOT EXISTS grid_size integer
+    CHECK (grid_size IS NULL OR grid_size BETWEEN 8 AND 256);
@@ -0,0 +1,4 @@
+-- Store the pixel-art backdrop composited behind each portrait
+-- Existing cards were saved without one
+ALTER TABLE public.pixel_cards
+  ADD COLUMN IF NOT EXISTS backdrop_id text NOT NULL DEFAULT 'none';
@@ -0,0 +1,16 @@
+-- Record how each pixel card was generated so quality regressions can be
+-- traced to a provider, model or prompt revision
+-- Legacy cards keep NULL for every column
+ALTER TABLE public.pixel_cards
+  ADD COLUMN IF NOT EXISTS provider text,
+  ADD COLUMN IF NOT EXISTS model_id text,
+  ADD COLUMN IF NOT EXISTS prompt_version text,
+  ADD COLUMN IF NOT EXISTS generation_latency_ms integer
+    CHECK (generation_latency_ms IS NULL OR generation_latency_ms >= 0),
+  ADD COLUMN IF NOT EXISTS retry_count integer
+    CHECK (retry_count IS NULL OR retry_count >= 0),
+  ADD COLUMN IF NOT EXISTS post_processed boolean;
+
+-- Comparing prompt revisions groups by prompt_version
+CREATE INDEX IF NOT EXISTS pixel_cards_prompt_version_idx
+  ON public.pixel_cards (prompt_version);
@@ -0,0 +1,38 @@
+-- Funnel events used to compare prompt versions in A/B tests
+-- 'generated' is logged per candidate shown, 'selected' when the user picks a
+-- candidate and 'retaken' for the unselected candidates of a capture the user retook
+CREATE TABLE IF NOT EXISTS public.generation_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  generation_id uuid NOT NULL,
+  candidate_id uuid NOT NULL,
+  event_type text NOT NULL CHECK (event_type IN ('generated', 'selected', 'retaken')),
+  prompt_version text NOT NULL,
+  provider text
+);
+
+CREATE INDEX IF NOT EXISTS generation_events_prompt_version_idx
+  ON public.generation_events (prompt_version, event_type);
+
+-- Clients may only append events; reads go through the aggregate view
+ALTER TABLE public.generation_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can record generation events" ON public.generation_events;
+CREATE POLICY "Anyone can record generation events"
+  ON public.generation_events FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE OR REPLACE VIEW public.prompt_version_stats AS
+SELECT
+  prompt_version,
+  count(DISTINCT generation_id) AS generation_count,
+  count(*) FILTER (WHERE event_type = 'generated') AS generated_count,
+  count(*) FILTER (WHERE event_type = 'selected') AS selected_count,
+  count(*) FILTER (WHERE event_type = 'retaken') AS retaken_count,
+  min(created_at) AS first_seen_at,
+  max(created_at) AS last_seen_at
+FROM public.generation_events
+GROUP BY prompt_version;
+
+GRANT SELECT ON public.prompt_version_stats TO anon, authenticated;
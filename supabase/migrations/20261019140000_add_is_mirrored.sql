@@ -0,0 +1,5 @@
+-- Mirroring is baked into the stored pixels, so every view renders a card the
+-- same way; this records which way the photo was stored
+-- Legacy cards were stored as the camera saw them (not mirrored)
+ALTER TABLE public.pixel_cards
+  ADD COLUMN IF NOT EXISTS is_mirrored boolean NOT NULL DEFAULT false;
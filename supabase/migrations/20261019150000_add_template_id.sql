@@ -0,0 +1,4 @@
+-- Store the card template each card is displayed and exported with
+-- Existing cards keep the original framed layout
+ALTER TABLE public.pixel_cards
+  ADD COLUMN IF NOT EXISTS template_id text NOT NULL DEFAULT 'classic';
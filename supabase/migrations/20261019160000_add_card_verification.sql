@@ -0,0 +1,6 @@
+-- Signed verification token shown as the card's QR code, and revocation
+-- Tokens are written by the sign-card function with the service role key;
+-- setting revoked_at withdraws a card without deleting it
+ALTER TABLE public.pixel_cards
+  ADD COLUMN IF NOT EXISTS verification_token text,
+  ADD COLUMN IF NOT EXISTS revoked_at timestamptz;
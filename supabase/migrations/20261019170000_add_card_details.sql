@@ -0,0 +1,84 @@
+-- Optional badge details printed on cards
+-- Dates are calendar days with no time zone; expiry may not precede issue
+ALTER TABLE public.pixel_cards
+  ADD COLUMN IF NOT EXISTS job_title text CHECK (job_title IS NULL OR char_length(job_title) <= 60),
+  ADD COLUMN IF NOT EXISTS team text CHECK (team IS NULL OR char_length(team) <= 60),
+  ADD COLUMN IF NOT EXISTS organization text CHECK (organization IS NULL OR char_length(organization) <= 60),
+  ADD COLUMN IF NOT EXISTS badge_number text CHECK (badge_number IS NULL OR badge_number ~ '^[A-Za-z0-9-]{1,20}$'),
+  ADD COLUMN IF NOT EXISTS issue_date date,
+  ADD COLUMN IF NOT EXISTS expiry_date date;
+
+ALTER TABLE public.pixel_cards
+  DROP CONSTRAINT IF EXISTS pixel_cards_expiry_after_issue;
+ALTER TABLE public.pixel_cards
+  ADD CONSTRAINT pixel_cards_expiry_after_issue
+    CHECK (issue_date IS NULL OR expiry_date IS NULL OR expiry_date >= issue_date);
+
+-- Cards without an organisation share the '' counter
+CREATE UNIQUE INDEX IF NOT EXISTS pixel_cards_organization_badge_number_idx
+  ON public.pixel_cards ((coalesce(organization, '')), badge_number)
+  WHERE badge_number IS NOT NULL;
+
+-- Last badge number handed out per organisation; only the trigger touches it
+CREATE TABLE IF NOT EXISTS public.badge_counters (
+  organization text PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.badge_counters ENABLE ROW LEVEL SECURITY;
+
+-- Number existing cards in creation order so new numbers continue after them
+WITH numbered AS (
+  SELECT id, row_number() OVER (PARTITION BY coalesce(organization, '') ORDER BY created_at, id) AS n
+  FROM public.pixel_cards
+  WHERE badge_number IS NULL
+)
+UPDATE public.pixel_cards AS cards
+SET badge_number = numbered.n::text
+FROM numbered
+WHERE cards.id = numbered.id;
+
+INSERT INTO public.badge_counters (organization, last_number)
+SELECT coalesce(organization, ''), count(*)
+FROM public.pixel_cards
+GROUP BY coalesce(organization, '')
+ON CONFLICT (organization) DO NOTHING;
+
+-- Assign the next number when a card is saved without one
+-- The counter row is locked by the upsert, so concurrent inserts get distinct
+-- numbers; numbers already taken by hand are skipped.
+CREATE OR REPLACE FUNCTION public.assign_badge_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_number integer;
+BEGIN
+  IF NEW.badge_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  LOOP
+    INSERT INTO public.badge_counters AS counters (organization, last_number)
+    VALUES (coalesce(NEW.organization, ''), 1)
+    ON CONFLICT (organization) DO UPDATE SET last_number = counters.last_number + 1
+    RETURNING last_number INTO next_number;
+
+    NEW.badge_number := next_number::text;
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.pixel_cards
+      WHERE coalesce(organization, '') = coalesce(NEW.organization, '')
+        AND badge_number = NEW.badge_number
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_badge_number ON public.pixel_cards;
+CREATE TRIGGER assign_badge_number
+  BEFORE INSERT ON public.pixel_cards
+  FOR EACH ROW EXECUTE FUNCTION public.assign_badge_number();
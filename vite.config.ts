@@ -1,9 +1,10 @@
 /// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiDevPlugin } from './netlify/lib/devServer';
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), apiDevPlugin()],
   server: {
     port: 3000,
     host: '0.0.0.0',